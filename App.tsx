@@ -1,11 +1,61 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import EchoVision from './components/EchoVision.tsx';
 import GalleryAnalyzer from './components/GalleryAnalyzer.tsx';
-import { SessionStatus, AppMode } from './types.ts';
+import SmartSearch from './components/SmartSearch.tsx';
+import HistoryScreen from './components/HistoryScreen.tsx';
+import InfoScreen from './components/InfoScreen.tsx';
+import SettingsScreen from './components/SettingsScreen.tsx';
+import DocumentReader from './components/DocumentReader.tsx';
+import { hasCompletedOnboarding } from './services/onboarding.ts';
+import { SessionStatus, AppMode, ExtractedDocument } from './types.ts';
+import { useI18n, MessageKey } from './i18n/index.ts';
+import { useSettings } from './services/settings.ts';
+
+const STATUS_LABELS: Record<SessionStatus, MessageKey> = {
+  [SessionStatus.IDLE]: 'status.IDLE',
+  [SessionStatus.CONNECTING]: 'status.CONNECTING',
+  [SessionStatus.RECONNECTING]: 'status.RECONNECTING',
+  [SessionStatus.ACTIVE]: 'status.ACTIVE',
+  [SessionStatus.ERROR]: 'status.ERROR',
+  [SessionStatus.ANALYZING]: 'status.ANALYZING',
+  [SessionStatus.SEARCHING]: 'status.SEARCHING',
+};
 
 const App: React.FC = () => {
+  const t = useI18n();
+  const { language } = useSettings();
   const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
   const [mode, setMode] = useState<AppMode>('LIVE');
+  const [searchRequest, setSearchRequest] = useState<{ target: string; key: number } | null>(null);
+  const [readerDocument, setReaderDocument] = useState<{ document: ExtractedDocument; key: number } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const closeHistory = useCallback(() => setShowHistory(false), []);
+  const [showInfo, setShowInfo] = useState(() => !hasCompletedOnboarding());
+  const closeInfo = useCallback(() => setShowInfo(false), []);
+  const [showSettings, setShowSettings] = useState(false);
+  const closeSettings = useCallback(() => setShowSettings(false), []);
+
+  // Screen readers pick their pronunciation from the document language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const selectMode = useCallback((next: AppMode) => {
+    setSearchRequest(null);
+    setReaderDocument(null);
+    setMode(next);
+  }, []);
+
+  const openDocument = useCallback((document: ExtractedDocument) => {
+    setReaderDocument({ document, key: Date.now() });
+    setMode('READ');
+    setShowHistory(false);
+  }, []);
+
+  const requestSearch = useCallback((target: string) => {
+    setSearchRequest({ target, key: Date.now() });
+    setMode('SEARCH');
+  }, []);
 
   return (
     <div className="flex flex-col h-screen bg-[#020617] text-slate-100 font-sans overflow-hidden">
@@ -32,37 +82,69 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2 mt-1 px-0.5">
             <div className={`w-1.5 h-1.5 rounded-full ${
               status === SessionStatus.ACTIVE ? 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)] animate-pulse' : 
-              status === SessionStatus.CONNECTING || status === SessionStatus.ANALYZING ? 'bg-amber-400 animate-bounce' : 'bg-slate-700'
+              status === SessionStatus.CONNECTING || status === SessionStatus.RECONNECTING || status === SessionStatus.ANALYZING || status === SessionStatus.SEARCHING ? 'bg-amber-400 animate-bounce' : 'bg-slate-700'
             }`} />
             <span className="text-[9px] text-slate-400 font-black uppercase tracking-[0.2em]">
-              {status}
+              {t(STATUS_LABELS[status])}
             </span>
           </div>
         </div>
         
-        <button 
-          className="w-10 h-10 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
-          aria-label="Help and Info"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-2">
+          <button 
+            onClick={() => setShowHistory(true)}
+            className="w-10 h-10 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+            aria-label={t('app.history')}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+          <button 
+            onClick={() => setShowSettings(true)}
+            className="w-10 h-10 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+            aria-label={t('app.settings')}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
+          <button 
+            onClick={() => setShowInfo(true)}
+            className="w-10 h-10 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+            aria-label={t('app.help')}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+        </div>
       </header>
 
+      {showHistory && <HistoryScreen onClose={closeHistory} onOpenDocument={openDocument} />}
+      {showSettings && <SettingsScreen onClose={closeSettings} />}
+      {showInfo && <InfoScreen onClose={closeInfo} startWithTutorial={!hasCompletedOnboarding()} />}
+
       {/* Main Viewport */}
       <main className="flex-1 relative">
         <div className="absolute inset-0">
-          {mode === 'LIVE' && <EchoVision onStatusChange={setStatus} />}
+          {mode === 'LIVE' && <EchoVision onStatusChange={setStatus} onModeChange={selectMode} onSearchRequest={requestSearch} />}
           {mode === 'GALLERY' && <GalleryAnalyzer onStatusChange={setStatus} />}
+          {mode === 'SEARCH' && (
+            <SmartSearch key={searchRequest?.key} onStatusChange={setStatus} initialTarget={searchRequest?.target} />
+          )}
+          {mode === 'READ' && (
+            <DocumentReader key={readerDocument?.key} onStatusChange={setStatus} initialDocument={readerDocument?.document} />
+          )}
         </div>
       </main>
 
       {/* Bottom Floating Navigation */}
       <div className="fixed bottom-8 left-0 right-0 z-50 px-8 pointer-events-none">
-        <nav className="max-w-xs mx-auto bg-slate-900/80 backdrop-blur-2xl border border-white/10 p-2 rounded-3xl flex justify-between items-center shadow-2xl pointer-events-auto">
+        <nav aria-label={t('app.modes')} className="max-w-md mx-auto bg-slate-900/80 backdrop-blur-2xl border border-white/10 p-2 rounded-3xl flex justify-between items-center shadow-2xl pointer-events-auto">
           <button 
-            onClick={() => setMode('LIVE')}
+            onClick={() => selectMode('LIVE')}
             className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl transition-all duration-300 ${
               mode === 'LIVE' 
                 ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/30 font-bold' 
@@ -73,11 +155,11 @@ const App: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
             </svg>
-            <span className="text-xs uppercase tracking-widest">Vision</span>
+            <span className="text-xs uppercase tracking-widest">{t('mode.LIVE')}</span>
           </button>
 
           <button 
-            onClick={() => setMode('GALLERY')}
+            onClick={() => selectMode('GALLERY')}
             className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl transition-all duration-300 ${
               mode === 'GALLERY' 
                 ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/30 font-bold' 
@@ -87,7 +169,35 @@ const App: React.FC = () => {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
-            <span className="text-xs uppercase tracking-widest">Media</span>
+            <span className="text-xs uppercase tracking-widest">{t('mode.GALLERY')}</span>
+          </button>
+
+          <button 
+            onClick={() => selectMode('SEARCH')}
+            className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl transition-all duration-300 ${
+              mode === 'SEARCH' 
+                ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/30 font-bold' 
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <span className="text-xs uppercase tracking-widest">{t('mode.SEARCH')}</span>
+          </button>
+
+          <button 
+            onClick={() => selectMode('READ')}
+            className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl transition-all duration-300 ${
+              mode === 'READ' 
+                ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/30 font-bold' 
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            <span className="text-xs uppercase tracking-widest">{t('mode.READ')}</span>
           </button>
         </nav>
       </div>
@@ -0,0 +1,258 @@
+// Holds the Gemini API key so it never reaches the browser (see services/brokerBackend.ts).
+// Live sessions get a short-lived, single-use ephemeral token and connect to Gemini directly;
+// one-shot and chat questions, uploads and deletes are proxied. Every request is rate limited
+// per client and written to an audit log (who, what, outcome; never prompts or media).
+//
+//   node --env-file=.env broker/server.mjs         uses GEMINI_API_KEY
+//   node broker/server.mjs --mock                  forwards to the mock server, works offline
+//
+// Environment: GEMINI_API_KEY, BROKER_PORT (8788), LIVE_MODEL, ANALYSIS_MODEL,
+// MOCK_SERVER_URL (http://localhost:8787), ALLOWED_ORIGIN (only needed when the app is served
+// from another origin), AUDIT_LOG (broker/audit.log), TRUST_PROXY=1 behind a reverse proxy.
+
+import { createServer } from 'node:http';
+import { appendFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import { GoogleGenAI, FileState } from '@google/genai';
+
+const env = process.env;
+const isMock = process.argv.includes('--mock') || env.BROKER_MOCK === '1';
+const port = Number(env.BROKER_PORT || 8788);
+const liveModel = env.LIVE_MODEL || 'gemini-2.5-flash-native-audio-preview-12-2025';
+const analysisModel = env.ANALYSIS_MODEL || 'gemini-3-flash-preview';
+const mockUrl = (env.MOCK_SERVER_URL || 'http://localhost:8787').replace(/\/$/, '');
+const allowedOrigin = env.ALLOWED_ORIGIN || '';
+const auditPath = env.AUDIT_LOG || resolve(dirname(fileURLToPath(import.meta.url)), 'audit.log');
+
+// A token only opens sessions for a minute; an open session may run for half an hour
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const SESSION_LIFETIME_MS = 30 * 60 * 1000;
+// Videos are processed server-side before they can be referenced
+const PROCESSING_POLL_MS = 1500;
+const PROCESSING_TIMEOUT_MS = 90000;
+const MAX_JSON_BYTES = 20 * 1024 * 1024;
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// Requests per client per minute. Reconnects each need a token; Media keyframes are many uploads.
+const RATE_LIMITS = {
+  session: 12,
+  generate: 60,
+  upload: 240,
+  delete: 240,
+};
+const RATE_WINDOW_MS = 60 * 1000;
+
+// The only generation settings the app uses. The rest is dropped, and the model is always the
+// broker's own, so a caller can't turn the key's quota to other uses.
+const GENERATE_CONFIG_FIELDS = ['responseMimeType', 'responseSchema', 'systemInstruction'];
+
+if (!isMock && !env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Use --env-file=.env, or --mock to run against the mock server.');
+  process.exit(1);
+}
+
+const ai = isMock ? null : new GoogleGenAI({ apiKey: env.GEMINI_API_KEY });
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- Rate limiting: a sliding window of request times per client and kind ---
+
+const history = new Map();
+
+const checkRate = (client, kind) => {
+  const key = `${client} ${kind}`;
+  const now = Date.now();
+  const recent = (history.get(key) || []).filter(time => now - time < RATE_WINDOW_MS);
+  if (recent.length >= RATE_LIMITS[kind]) {
+    history.set(key, recent);
+    const retryAfter = Math.ceil((RATE_WINDOW_MS - (now - recent[0])) / 1000);
+    throw Object.assign(new HttpError(429, 'Too many requests, slow down.'), { retryAfter });
+  }
+  recent.push(now);
+  history.set(key, recent);
+};
+
+// Forget idle clients
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, times] of history) {
+    if (times.every(time => now - time >= RATE_WINDOW_MS)) history.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+// --- Audit log: one JSON line per request ---
+
+const audit = (entry) => {
+  const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+  console.log(line);
+  appendFile(auditPath, line + '\n').catch(e => console.error('Could not write audit log', e.message));
+};
+
+const clientOf = (req) => {
+  const forwarded = env.TRUST_PROXY === '1' ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// --- Requests ---
+
+const readBody = (req, limit) => new Promise((done, fail) => {
+  const chunks = [];
+  let size = 0;
+  // Past the limit the rest is read and dropped, so the 413 can still be sent
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size <= limit) chunks.push(chunk);
+  });
+  req.on('end', () => (size > limit ? fail(new HttpError(413, 'Request too large.')) : done(Buffer.concat(chunks))));
+  req.on('error', fail);
+});
+
+const readJson = async (req) => {
+  try {
+    return JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString('utf8'));
+  } catch (e) {
+    if (e instanceof HttpError) throw e;
+    throw new HttpError(400, 'Invalid JSON.');
+  }
+};
+
+// In mock mode the mock server answers; its errors are passed through
+const forward = async (path, init) => {
+  const response = await fetch(`${mockUrl}${path}`, init).catch(() => {
+    throw new HttpError(502, `Mock server unreachable at ${mockUrl}`);
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new HttpError(response.status, body.error || 'Mock server error');
+  return body;
+};
+
+const waitUntilActive = async (file) => {
+  const deadline = Date.now() + PROCESSING_TIMEOUT_MS;
+  let current = file;
+  while (current.state === FileState.PROCESSING) {
+    if (Date.now() > deadline) throw new HttpError(504, 'Media processing timed out');
+    await new Promise(done => setTimeout(done, PROCESSING_POLL_MS));
+    current = await ai.files.get({ name: current.name });
+  }
+  if (current.state === FileState.FAILED) throw new HttpError(422, current.error?.message || 'Media processing failed');
+  return current;
+};
+
+const pickConfig = (config) => {
+  if (!config || typeof config !== 'object') return undefined;
+  const fields = GENERATE_CONFIG_FIELDS.filter(field => config[field] !== undefined);
+  return fields.length ? Object.fromEntries(fields.map(field => [field, config[field]])) : undefined;
+};
+
+const routes = {
+  // Credentials for one live session: an ephemeral token, or in mock mode the mock socket
+  session: async () => {
+    if (isMock) return { model: liveModel, liveUrl: `${mockUrl.replace(/^http/, 'ws')}/live` };
+    const now = Date.now();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+        expireTime: new Date(now + SESSION_LIFETIME_MS).toISOString(),
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    return { model: liveModel, token: token.name, expiresAt: now + SESSION_LIFETIME_MS };
+  },
+  generate: async (req) => {
+    const { contents, config: requested } = await readJson(req);
+    if (!Array.isArray(contents) || contents.length === 0) throw new HttpError(400, 'contents is required.');
+    const config = pickConfig(requested);
+    if (isMock) {
+      return forward('/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: analysisModel, contents, config }),
+      });
+    }
+    const response = await ai.models.generateContent({ model: analysisModel, contents, config });
+    // Token counts only, for the app's usage meter
+    const { promptTokenCount, candidatesTokenCount, totalTokenCount } = response.usageMetadata || {};
+    return { text: response.text || '', usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount } };
+  },
+  upload: async (req) => {
+    const mimeType = String(req.headers['content-type'] || 'application/octet-stream');
+    const body = await readBody(req, MAX_UPLOAD_BYTES);
+    if (isMock) return forward('/upload', { method: 'POST', headers: { 'Content-Type': mimeType }, body });
+    const file = await waitUntilActive(await ai.files.upload({ file: new Blob([body], { type: mimeType }), config: { mimeType } }));
+    return { name: file.name, uri: file.uri, mimeType: file.mimeType || mimeType };
+  },
+  delete: async (req, name) => {
+    if (!/^files\/[\w-]+$/.test(name)) throw new HttpError(400, 'Invalid file name.');
+    if (isMock) return forward(`/${name}`, { method: 'DELETE' });
+    await ai.files.delete({ name });
+    return {};
+  },
+};
+
+const routeOf = (method, pathname) => {
+  if (method === 'POST' && pathname === '/session') return ['session'];
+  if (method === 'POST' && pathname === '/generate') return ['generate'];
+  if (method === 'POST' && pathname === '/upload') return ['upload'];
+  if (method === 'DELETE' && pathname.startsWith('/files/')) {
+    try {
+      return ['delete', decodeURIComponent(pathname.slice(1))];
+    } catch (e) {
+      throw new HttpError(400, 'Invalid file name.');
+    }
+  }
+  return null;
+};
+
+const server = createServer(async (req, res) => {
+  if (allowedOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const startedAt = Date.now();
+  const client = clientOf(req);
+  const pathname = new URL(req.url, 'http://broker').pathname;
+  let route = null;
+  let status = 200;
+  let body;
+  try {
+    route = routeOf(req.method, pathname);
+    if (!route) throw new HttpError(404, 'Not found.');
+    checkRate(client, route[0]);
+    body = await routes[route[0]](req, route[1]);
+  } catch (e) {
+    status = e instanceof HttpError ? e.status : 502;
+    body = { error: e instanceof HttpError ? e.message : 'The model service failed.' };
+    if (e.retryAfter) res.setHeader('Retry-After', String(e.retryAfter));
+    if (!(e instanceof HttpError)) console.error(e);
+  }
+  audit({
+    client,
+    route: route?.[0] || pathname,
+    status,
+    ms: Date.now() - startedAt,
+    bytes: Number(req.headers['content-length']) || undefined,
+    mock: isMock || undefined,
+    error: status >= 400 ? body.error : undefined,
+  });
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+});
+
+server.listen(port, () => {
+  console.log(`Token broker on http://localhost:${port}${isMock ? `, forwarding to the mock server at ${mockUrl}` : ''}`);
+});
@@ -0,0 +1,369 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Type } from '@google/genai';
+import { SessionStatus, ExtractedDocument, DocumentBlock } from '../types.ts';
+import { playSoundCue } from '../utils/soundCues.ts';
+import { captureStill } from '../utils/frameCapture.ts';
+import { speak } from '../utils/speech.ts';
+import { blockToSpeech, documentToText, extractNumbers, spellOut } from '../utils/documentText.ts';
+import { createSession, saveSession } from '../services/transcriptStore.ts';
+import { getBackend } from '../services/backend.ts';
+import { t, useI18n } from '../i18n/index.ts';
+
+interface DocumentReaderProps {
+  onStatusChange: (status: SessionStatus) => void;
+  // Re-open a document from history instead of capturing a new one
+  initialDocument?: ExtractedDocument;
+}
+
+const BLOCK_TYPES: DocumentBlock['type'][] = ['heading', 'paragraph', 'list', 'table'];
+
+const DOCUMENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: 'Document title or kind, e.g. "Prescription label".' },
+    blocks: {
+      type: Type.ARRAY,
+      description: 'Content in reading order.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: BLOCK_TYPES },
+          text: { type: Type.STRING, description: 'The text of the block. For lists, items separated by newlines. For tables, a short caption.' },
+          rows: {
+            type: Type.ARRAY,
+            description: 'Table cells row by row, header row first. Only for tables.',
+            items: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+        },
+        required: ['type', 'text'],
+      },
+    },
+  },
+  required: ['blocks'],
+};
+
+const isRows = (rows: unknown): rows is string[][] =>
+  Array.isArray(rows) && rows.every(row => Array.isArray(row) && row.every(cell => typeof cell === 'string'));
+
+// A block worth reading: a known type, and either text or table cells
+const isBlock = (raw: any): raw is DocumentBlock =>
+  !!raw && BLOCK_TYPES.includes(raw.type) && typeof raw.text === 'string' &&
+  (raw.rows === undefined || isRows(raw.rows)) &&
+  (raw.text.trim() !== '' || (raw.rows?.length ?? 0) > 0);
+
+const parseDocument = (json: string): ExtractedDocument | null => {
+  try {
+    const parsed = JSON.parse(json);
+    const blocks: DocumentBlock[] = Array.isArray(parsed?.blocks)
+      ? parsed.blocks.filter(isBlock).map(({ type, text, rows }: DocumentBlock) => (rows ? { type, text, rows } : { type, text }))
+      : [];
+    if (!blocks.length) return null;
+    return typeof parsed.title === 'string' && parsed.title.trim() ? { title: parsed.title.trim(), blocks } : { blocks };
+  } catch (e) {
+    return null;
+  }
+};
+
+const DocumentReader: React.FC<DocumentReaderProps> = ({ onStatusChange, initialDocument }) => {
+  useI18n();
+  const [doc, setDoc] = useState<ExtractedDocument | null>(initialDocument ?? null);
+  const [index, setIndex] = useState(0);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isAutoReading, setIsAutoReading] = useState(false);
+  const [spoken, setSpoken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // Speech callbacks outlive renders; they read the latest values from here
+  const autoReadRef = useRef(false);
+  const documentRef = useRef(doc);
+  documentRef.current = doc;
+
+  const say = useCallback((text: string, onEnd?: () => void) => {
+    setSpoken(text);
+    speak(text, { interrupt: true, onEnd });
+  }, []);
+
+  const readBlock = useCallback((i: number) => {
+    const current = documentRef.current;
+    if (!current) return;
+    const block = current.blocks[i];
+    if (!block) return;
+    setIndex(i);
+    const prefix = block.type === 'heading' ? t('reader.headingPrefix') + ' ' : block.type === 'table' ? t('reader.tablePrefix') + ' ' : '';
+    say(prefix + blockToSpeech(block), () => {
+      if (!autoReadRef.current) return;
+      if (i + 1 < current.blocks.length) readBlock(i + 1);
+      else {
+        autoReadRef.current = false;
+        setIsAutoReading(false);
+        say(t('reader.end'));
+      }
+    });
+  }, [say]);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsCameraOn(false);
+  }, []);
+
+  useEffect(() => {
+    if (initialDocument) {
+      autoReadRef.current = true;
+      setIsAutoReading(true);
+      readBlock(0);
+    }
+    return () => {
+      autoReadRef.current = false;
+      window.speechSynthesis.cancel();
+      stopCamera();
+    };
+  }, [initialDocument, readBlock, stopCamera]);
+
+  const startCamera = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 3840 }, height: { ideal: 2160 } }
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.setAttribute('playsinline', 'true');
+        videoRef.current.muted = true;
+        await videoRef.current.play();
+      }
+      setIsCameraOn(true);
+      say(t('reader.hold'));
+    } catch (err: any) {
+      playSoundCue('error');
+      setError(err.message || t('common.cameraDenied'));
+    }
+  };
+
+  const captureAndRead = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    setIsProcessing(true);
+    setError(null);
+    onStatusChange(SessionStatus.ANALYZING);
+    say(t('reader.reading'));
+    try {
+      const still = await captureStill(track, videoRef.current, canvasRef.current);
+      if (!still) throw new Error('No image');
+      stopCamera();
+      const text = await getBackend().generate(
+        [
+          { inlineData: { data: still.data, mimeType: still.mimeType } },
+          { text: t('prompt.reader') }
+        ],
+        {
+          responseMimeType: 'application/json',
+          responseSchema: DOCUMENT_SCHEMA,
+        }
+      );
+      const extracted = parseDocument(text);
+      if (!extracted) {
+        playSoundCue('error');
+        say(t('reader.noText'));
+        return;
+      }
+
+      const session = createSession('READ');
+      session.document = extracted;
+      session.turns.push({ type: 'model', text: documentToText(extracted), timestamp: Date.now() });
+      // Reading goes ahead either way; the user only needs to know it won't be in history
+      saveSession(session).catch(() => setError(t('reader.saveFailed')));
+
+      setDoc(extracted);
+      documentRef.current = extracted;
+      playSoundCue('active');
+      autoReadRef.current = true;
+      setIsAutoReading(true);
+      readBlock(0);
+    } catch (err) {
+      playSoundCue('error');
+      setError(t('reader.failed'));
+    } finally {
+      setIsProcessing(false);
+      onStatusChange(SessionStatus.IDLE);
+    }
+  };
+
+  const pauseOr = (action: () => void) => () => {
+    autoReadRef.current = false;
+    setIsAutoReading(false);
+    action();
+  };
+
+  const next = pauseOr(() => {
+    if (doc && index + 1 < doc.blocks.length) readBlock(index + 1);
+    else say(t('reader.last'));
+  });
+  const previous = pauseOr(() => {
+    if (index > 0) readBlock(index - 1);
+    else say(t('reader.first'));
+  });
+  const repeat = pauseOr(() => readBlock(index));
+  const spell = pauseOr(() => {
+    const block = doc?.blocks[index];
+    if (block) say(spellOut(blockToSpeech(block)));
+  });
+  const numbersOnly = pauseOr(() => {
+    const block = doc?.blocks[index];
+    const numbers = block ? extractNumbers(blockToSpeech(block)) : [];
+    say(numbers.length ? numbers.join(', ') : t('reader.noNumbers'));
+  });
+  const toggleAutoRead = () => {
+    if (isAutoReading) {
+      autoReadRef.current = false;
+      setIsAutoReading(false);
+      window.speechSynthesis.cancel();
+    } else {
+      autoReadRef.current = true;
+      setIsAutoReading(true);
+      readBlock(index);
+    }
+  };
+  const newCapture = () => {
+    autoReadRef.current = false;
+    setIsAutoReading(false);
+    window.speechSynthesis.cancel();
+    setDoc(null);
+    setIndex(0);
+    setSpoken('');
+    startCamera();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!doc || e.target instanceof HTMLInputElement) return;
+    const actions: Record<string, () => void> = {
+      ArrowRight: next, n: next,
+      ArrowLeft: previous, p: previous,
+      r: repeat, s: spell, d: numbersOnly, ' ': toggleAutoRead,
+    };
+    const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  const controls: { label: string; hint: string; onClick: () => void }[] = [
+    { label: t('reader.previous'), hint: 'P', onClick: previous },
+    { label: t('reader.repeat'), hint: 'R', onClick: repeat },
+    { label: t('reader.next'), hint: 'N', onClick: next },
+    { label: t('reader.spell'), hint: 'S', onClick: spell },
+    { label: t('reader.numbers'), hint: 'D', onClick: numbersOnly },
+    { label: isAutoReading ? t('reader.pause') : t('reader.readOn'), hint: 'Space', onClick: toggleAutoRead },
+  ];
+
+  return (
+    <div
+      onKeyDown={handleKeyDown}
+      className="h-full flex flex-col p-6 gap-6 animate-in fade-in duration-700 bg-slate-950 pb-32"
+    >
+      <div className="flex-1 flex flex-col items-center justify-center border-2 border-slate-800 rounded-[48px] bg-slate-900/40 overflow-hidden relative">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-cover ${isCameraOn ? '' : 'hidden'}`}
+        />
+        <canvas ref={canvasRef} className="hidden" />
+
+        {!isCameraOn && !doc && (
+          <div className="text-center space-y-8 px-6">
+            <div className="space-y-2">
+              <p className="text-white font-bold text-2xl tracking-tight">{t('reader.title')}</p>
+              <p className="text-slate-500 text-xs font-black uppercase tracking-widest leading-relaxed whitespace-pre-line">
+                {t('reader.subtitle')}
+              </p>
+            </div>
+            <button
+              onClick={startCamera}
+              className="px-10 py-5 bg-indigo-600 text-white rounded-2xl font-black text-sm uppercase tracking-[0.2em] hover:bg-indigo-500 transition-all shadow-xl shadow-indigo-600/20 active:scale-95"
+            >
+              {t('reader.openCamera')}
+            </button>
+          </div>
+        )}
+
+        {doc && (
+          <div className="w-full h-full overflow-y-auto p-8 space-y-4 text-left">
+            {doc.title && <h2 className="text-xl font-bold text-white">{doc.title}</h2>}
+            <ol aria-label={t('reader.sections')} className="space-y-3">
+              {doc.blocks.map((block, i) => (
+                <li key={i}>
+                  <button
+                    onClick={pauseOr(() => readBlock(i))}
+                    aria-current={i === index ? 'true' : undefined}
+                    className={`w-full text-left p-4 rounded-2xl transition-colors whitespace-pre-line ${
+                      i === index ? 'bg-indigo-600/20 border border-indigo-500/40 text-white' : 'text-slate-400 hover:bg-white/5'
+                    } ${block.type === 'heading' ? 'font-bold text-lg' : 'text-base'}`}
+                  >
+                    {block.type === 'table' ? blockToSpeech(block) : block.text}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-4">
+        {isCameraOn && (
+          <button
+            onClick={captureAndRead}
+            disabled={isProcessing}
+            className="w-24 h-24 rounded-full bg-indigo-600 border-[8px] border-indigo-500/20 text-white text-[10px] font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 disabled:opacity-40"
+          >
+            {isProcessing ? '...' : t('reader.capture')}
+          </button>
+        )}
+
+        {doc && (
+          <>
+            <div className="grid grid-cols-3 gap-3 w-full">
+              {controls.map(control => (
+                <button
+                  key={control.label}
+                  onClick={control.onClick}
+                  aria-keyshortcuts={control.hint === 'Space' ? 'Space' : control.hint}
+                  className="py-4 rounded-2xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-[0.2em] text-slate-200 hover:bg-white/10"
+                >
+                  {control.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-slate-500 text-[10px] font-black uppercase tracking-[0.3em]">
+              {t('reader.section', { current: index + 1, total: doc.blocks.length })}
+            </p>
+            <button
+              onClick={newCapture}
+              className="px-6 py-3 rounded-2xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-[0.2em] hover:bg-indigo-500"
+            >
+              {t('reader.newCapture')}
+            </button>
+          </>
+        )}
+
+        <p role="status" aria-live="polite" className="sr-only">{spoken}</p>
+
+        {error && (
+          <div role="alert" className="w-full p-5 bg-rose-500/10 border border-rose-500/20 text-rose-300 rounded-[24px] text-center text-xs font-bold">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentReader;
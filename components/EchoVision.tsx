@@ -1,148 +1,505 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { SessionStatus } from '../types.ts';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Modality, LiveServerMessage, ActivityHandling } from '@google/genai';
+import { SessionStatus, AppMode, SceneHazard } from '../types.ts';
+import { playSoundCue as playCue, playDirectionalCue, SoundCue } from '../utils/soundCues.ts';
+import { SpatialRenderer } from '../utils/spatialAudio.ts';
+import { captureFrame } from '../utils/frameCapture.ts';
+import { InputSource, InputSourceKind, openCameraSource, openFileSource, openPatternSource } from '../utils/inputSource.ts';
+import { FrameScheduler, FrameStats, estimateBase64Bytes } from '../utils/frameScheduler.ts';
+import { TranscriptAssembler } from '../utils/transcriptAssembler.ts';
+import { createSession, appendTurn } from '../services/transcriptStore.ts';
+import { SessionRecorder, startRecorder } from '../services/sessionRecorder.ts';
+import {
+  LOW_DATA_PROFILE, startUsageSession, endUsageSession, isLowDataActive, subscribeLowData,
+} from '../services/usageMeter.ts';
+import { ReconnectSupervisor } from '../utils/reconnect.ts';
+import {
+  Settings, getSettings, updateSettings, subscribeSettings, useSettings, MIN_FRAME_RATE, MAX_FRAME_RATE,
+} from '../services/settings.ts';
+import { speak } from '../utils/speech.ts';
+import PlaybackControls from './PlaybackControls.tsx';
+import { t, translate, MessageKey, MessageParams } from '../i18n/index.ts';
+import { parseClockMentions } from '../utils/clockFace.ts';
+import { describeSceneObject } from '../utils/scene.ts';
+import { HazardOutcome, screenHazard } from '../services/hazardAlerts.ts';
+import { vibrate, directionPattern, proximityPattern } from '../utils/haptics.ts';
+import { LiveToolContext, liveToolsConfig, handleToolCall } from '../services/liveTools.ts';
+import { describeLocation, subscribeLocation } from '../services/location.ts';
+import { LiveSession, getBackend } from '../services/backend.ts';
+import {
+  MicCapture, PcmPlayer, startMicCapture, createAudioContext, encodeBase64, pcmMimeType,
+  LIVE_INPUT_SAMPLE_RATE, LIVE_OUTPUT_SAMPLE_RATE, DEFAULT_VOICE_THRESHOLD, DEFAULT_HANGOVER_MS,
+} from '../utils/audio.ts';
 
 interface EchoVisionProps {
   onStatusChange: (status: SessionStatus) => void;
+  onModeChange?: (mode: AppMode) => void;
+  onSearchRequest?: (target: string) => void;
 }
 
-const FRAME_RATE = 1.5; 
-const JPEG_QUALITY = 0.4;
+const AUDIO_CHUNK_MS = 100;
+// Don't stream silence; the worklet keeps a short hangover and pre-roll around speech
+const GATE_SILENCE = true;
 
-const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
+// Give the model a moment to acknowledge a tool call before the session it speaks on goes away
+const TOOL_EFFECT_DELAY_MS = 1500;
+
+// After an alarm the camera is watched closely for this long, whatever the data limits
+const HAZARD_WATCH_MS = 10000;
+// Model speech stays ducked under the spoken warning at most this long
+const HAZARD_DUCK_MAX_MS = 8000;
+
+// While location sharing is on, a changed location is passed to the model at most this often
+const LOCATION_CONTEXT_INTERVAL_MS = 30000;
+const INPUT_SOURCES: InputSourceKind[] = ['camera', 'file', 'pattern'];
+
+// Settings baked into the live connection's setup; changing any of them needs a fresh setup
+const SETUP_SETTINGS: (keyof Settings)[] = ['voice', 'language', 'matchSpokenLanguage', 'verbosity', 'speechRate', 'bargeInMode'];
+
+// Written in the user's language: the model follows an instruction in the target language more reliably
+const buildSystemInstruction = ({ speechRate, verbosity, language, matchSpokenLanguage }: Settings) => {
+  const tr = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+  const languageName = tr('language.name');
+  return [
+    tr('prompt.live'),
+    tr('prompt.live.directions'),
+    matchSpokenLanguage ? tr('prompt.matchLanguage', { language: languageName }) : tr('prompt.language', { language: languageName }),
+    verbosity === 'brief' ? tr('prompt.verbosity.brief') : verbosity === 'detailed' ? tr('prompt.verbosity.detailed') : '',
+    speechRate === 'slow' ? tr('prompt.rate.slow') : speechRate === 'fast' ? tr('prompt.rate.fast') : '',
+    tr('prompt.live.tools'),
+    tr('prompt.live.hazards'),
+  ].filter(Boolean).join(' ');
+};
+
+const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange, onModeChange, onSearchRequest }) => {
   const [isActive, setIsActive] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [turnState, setTurnState] = useState<'listening' | 'speaking' | 'complete' | 'interrupted'>('listening');
+  const { bargeInMode } = useSettings();
   const [lastMessage, setLastMessage] = useState<string>('');
   const [error, setError] = useState<{title: string, detail: string} | null>(null);
+  const [sourceKind, setSourceKind] = useState<InputSourceKind>('camera');
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  // The playing video file while one is the input, for the playback controls
+  const [sourceMedia, setSourceMedia] = useState<HTMLVideoElement | null>(null);
+  const [lowData, setLowData] = useState(isLowDataActive);
+  const [historyFailed, setHistoryFailed] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<any>(null);
-  const audioContextInputRef = useRef<AudioContext | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
   const audioContextOutputRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const frameIntervalRef = useRef<number | null>(null);
-
-  // Sound Cues Utility using Web Audio API
-  const playSoundCue = useCallback((type: 'connecting' | 'active' | 'error' | 'stop') => {
-    const ctx = audioContextOutputRef.current || new (window.AudioContext || (window as any).webkitAudioContext)();
-    if (ctx.state === 'suspended') ctx.resume();
-    
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.connect(gain);
-    gain.connect(ctx.destination);
-
-    const now = ctx.currentTime;
-
-    switch (type) {
-      case 'connecting':
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(440, now);
-        osc.frequency.exponentialRampToValueAtTime(880, now + 0.5);
-        gain.gain.setValueAtTime(0, now);
-        gain.gain.linearRampToValueAtTime(0.1, now + 0.1);
-        gain.gain.linearRampToValueAtTime(0, now + 0.5);
-        osc.start(now);
-        osc.stop(now + 0.5);
-        break;
-      case 'active':
-        osc.type = 'triangle';
-        osc.frequency.setValueAtTime(660, now);
-        osc.frequency.setValueAtTime(880, now + 0.1);
-        gain.gain.setValueAtTime(0, now);
-        gain.gain.linearRampToValueAtTime(0.1, now + 0.05);
-        gain.gain.linearRampToValueAtTime(0, now + 0.3);
-        osc.start(now);
-        osc.stop(now + 0.3);
-        break;
-      case 'error':
-        osc.type = 'sawtooth';
-        osc.frequency.setValueAtTime(220, now);
-        osc.frequency.linearRampToValueAtTime(110, now + 0.4);
-        gain.gain.setValueAtTime(0, now);
-        gain.gain.linearRampToValueAtTime(0.1, now + 0.1);
-        gain.gain.linearRampToValueAtTime(0, now + 0.4);
-        osc.start(now);
-        osc.stop(now + 0.4);
-        break;
-      case 'stop':
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(440, now);
-        osc.frequency.linearRampToValueAtTime(220, now + 0.2);
-        gain.gain.setValueAtTime(0.1, now);
-        gain.gain.linearRampToValueAtTime(0, now + 0.2);
-        osc.start(now);
-        osc.stop(now + 0.2);
-        break;
-    }
-  }, []);
-
-  const encode = (bytes: Uint8Array) => {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) binary += String.fromCharCode(bytes[i]);
-    return btoa(binary);
-  };
+  const playerRef = useRef<PcmPlayer | null>(null);
+  // Pans the model's voice towards the clock direction it is talking about
+  const spatialRef = useRef<SpatialRenderer | null>(null);
+  const frameTimerRef = useRef<number | null>(null);
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+  const transcriptRef = useRef<TranscriptAssembler | null>(null);
+  const isActiveRef = useRef(false);
+  const supervisorRef = useRef<ReconnectSupervisor | null>(null);
+  const connectionIdRef = useRef(0);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const discardingTurnRef = useRef(false);
+  // Clock mentions in the current model turn that have already been signalled
+  const hapticMentionsRef = useRef(0);
+  const lastAnswerRef = useRef<string | null>(null);
+  // Settings the current connection was set up with, and whether a newer setup is waiting for the turn to end
+  const setupSettingsRef = useRef<Settings | null>(null);
+  const setupPendingRef = useRef(false);
+  const modelTurnActiveRef = useRef(false);
+  // Last location description the model was given, and when
+  const locationContextRef = useRef<string | null>(null);
+  const locationSentAtRef = useRef(0);
+  const locationTimerRef = useRef<number | null>(null);
+  const unsubscribeLocationRef = useRef<(() => void) | null>(null);
+  // Local copy of what was sent and heard, when the user opted in to session recording
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const inputSourceRef = useRef<InputSource | null>(null);
 
-  const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-    return bytes;
-  };
+  const playSoundCue = useCallback((type: SoundCue) => {
+    playCue(type, audioContextOutputRef.current);
+  }, []);
 
-  const decodeAudioData = async (data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number) => {
-    const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-      }
-    }
-    return buffer;
-  };
+  const announce = useCallback((text: string) => { speak(text); }, []);
 
   const stopSession = useCallback((silent = false) => {
-    if (!silent && isActive) playSoundCue('stop');
+    if (!silent && isActiveRef.current) playSoundCue('stop');
+    isActiveRef.current = false;
     setIsActive(false);
+    setIsReconnecting(false);
     onStatusChange(SessionStatus.IDLE);
-    if (frameIntervalRef.current) {
-      window.clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
+    supervisorRef.current?.cancel();
+    supervisorRef.current = null;
+    // Invalidate callbacks of the connection we're about to close
+    connectionIdRef.current += 1;
+    resumptionHandleRef.current = null;
+    setupSettingsRef.current = null;
+    setupPendingRef.current = false;
+    modelTurnActiveRef.current = false;
+    unsubscribeLocationRef.current?.();
+    unsubscribeLocationRef.current = null;
+    if (locationTimerRef.current) {
+      window.clearTimeout(locationTimerRef.current);
+      locationTimerRef.current = null;
+    }
+    locationContextRef.current = null;
+    locationSentAtRef.current = 0;
+    if (frameTimerRef.current) {
+      window.clearTimeout(frameTimerRef.current);
+      frameTimerRef.current = null;
     }
+    if (frameSchedulerRef.current) {
+      recorderRef.current?.frameStats(frameSchedulerRef.current.getStats());
+      frameSchedulerRef.current = null;
+    }
+    transcriptRef.current?.completeTurn();
+    transcriptRef.current = null;
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    endUsageSession();
     if (sessionRef.current) {
       sessionRef.current.close();
       sessionRef.current = null;
     }
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch(e){} });
-    sourcesRef.current.clear();
+    playerRef.current?.flush();
+    playerRef.current = null;
+    spatialRef.current?.disconnect();
+    spatialRef.current = null;
+    discardingTurnRef.current = false;
+    setTurnState('listening');
     
-    if (audioContextInputRef.current) {
-      audioContextInputRef.current.close();
-      audioContextInputRef.current = null;
+    if (micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
     }
     if (audioContextOutputRef.current) {
       audioContextOutputRef.current.close();
       audioContextOutputRef.current = null;
     }
     
-    const stream = videoRef.current?.srcObject as MediaStream;
-    stream?.getTracks().forEach(track => track.stop());
+    inputSourceRef.current?.stop();
+    inputSourceRef.current = null;
+    setSourceMedia(null);
     if (videoRef.current) videoRef.current.srcObject = null;
-  }, [onStatusChange, isActive, playSoundCue]);
+  }, [onStatusChange, playSoundCue]);
+
+  // Switching modes (including via a tool call) unmounts us; don't leave the camera or socket open
+  const stopSessionRef = useRef(stopSession);
+  stopSessionRef.current = stopSession;
+  useEffect(() => () => stopSessionRef.current(true), []);
+
+  const handleMessage = (message: LiveServerMessage) => {
+    if (message.setupComplete) {
+      supervisorRef.current?.markConnected();
+    }
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      resumptionHandleRef.current = message.sessionResumptionUpdate.newHandle;
+    }
+    if (message.toolCall && sessionRef.current) {
+      const session = sessionRef.current;
+      // Sending the response fails only when the connection has gone
+      handleToolCall(message.toolCall, session, createToolContext()).catch((err) => {
+        if (sessionRef.current === session) handleConnectionLost(err);
+      });
+    }
+    if (message.goAway) {
+      // The server will drop this connection soon: resume on a fresh one before it does
+      openLiveSession().catch(handleConnectionLost);
+    }
+
+    const transcript = transcriptRef.current;
+    if (message.serverContent?.inputTranscription?.text) {
+      transcript?.addInput(message.serverContent.inputTranscription.text);
+      recorderRef.current?.transcript('input', message.serverContent.inputTranscription.text);
+    }
+    if (message.serverContent?.outputTranscription?.text) {
+      transcript?.addOutput(message.serverContent.outputTranscription.text);
+      recorderRef.current?.transcript('output', message.serverContent.outputTranscription.text);
+      const turnText = transcript?.currentModelText || message.serverContent.outputTranscription.text;
+      setLastMessage(turnText);
+      signalDirections(turnText);
+    }
+    if (message.serverContent?.interrupted || message.serverContent?.turnComplete) {
+      hapticMentionsRef.current = 0;
+      modelTurnActiveRef.current = false;
+    }
+    if (message.serverContent?.interrupted) {
+      // The server cut the turn short because the user spoke; in duck mode it's configured not to
+      transcript?.completeTurn();
+      playerRef.current?.flush();
+      spatialRef.current?.setDirection(null);
+      recorderRef.current?.marker('interrupted');
+      discardingTurnRef.current = false;
+      setTurnState('interrupted');
+    }
+    if (message.serverContent?.turnComplete) {
+      transcript?.completeTurn();
+      // Back to the centre once the rest of the answer has played
+      if (playerRef.current) spatialRef.current?.setDirection(null, { at: playerRef.current.scheduledUntil });
+      recorderRef.current?.marker('turnComplete');
+      discardingTurnRef.current = false;
+      setTurnState(state => (state === 'interrupted' ? state : 'complete'));
+    }
+    if (message.serverContent?.modelTurn) modelTurnActiveRef.current = true;
+    const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audioData && !discardingTurnRef.current) {
+      const ctx = audioContextOutputRef.current;
+      if (recorderRef.current && playerRef.current && ctx) {
+        // Recorded at the moment it will be heard, so playback lines up with the frames
+        const delay = Math.max(0, playerRef.current.scheduledUntil - ctx.currentTime);
+        recorderRef.current.modelAudio(audioData, Date.now() + delay * 1000);
+      }
+      playerRef.current?.enqueue(audioData);
+      setTurnState('speaking');
+    }
+    applyPendingSetup();
+  };
+
+  // Voice, language and style are part of the connection setup. Rather than cutting an answer off,
+  // wait for the model's turn to end, then resume the same conversation with the new setup.
+  const applyPendingSetup = () => {
+    if (!setupPendingRef.current || modelTurnActiveRef.current || !sessionRef.current) return;
+    setupPendingRef.current = false;
+    openLiveSession().catch(handleConnectionLost);
+  };
+
+  const handleSettingsChange = (next: Settings) => {
+    frameSchedulerRef.current?.setBaseFps(next.frameRate);
+    frameSchedulerRef.current?.setBaseQuality(next.jpegQuality);
+    if (next.bargeInMode === 'stop') playerRef.current?.unduck();
+    spatialRef.current?.configure(next.spatialAudio);
+    const setup = setupSettingsRef.current;
+    if (!setup || SETUP_SETTINGS.every(key => setup[key] === next[key])) return;
+    setupPendingRef.current = true;
+    applyPendingSetup();
+  };
+
+  const handleSettingsChangeRef = useRef(handleSettingsChange);
+  handleSettingsChangeRef.current = handleSettingsChange;
+  useEffect(() => subscribeSettings(next => handleSettingsChangeRef.current(next)), []);
+
+  // On a metered connection (or when the user asks) fewer, smaller frames go out and the mic gate
+  // closes sooner. Follows the setting and the connection while the session runs.
+  const applyDataProfile = (active: boolean) => {
+    setLowData(active);
+    frameSchedulerRef.current?.setLimits(active ? { fps: LOW_DATA_PROFILE.frameRate, quality: LOW_DATA_PROFILE.jpegQuality } : null);
+    micCaptureRef.current?.setVoiceDetection(
+      active ? LOW_DATA_PROFILE.voiceThreshold : DEFAULT_VOICE_THRESHOLD,
+      active ? LOW_DATA_PROFILE.hangoverMs : DEFAULT_HANGOVER_MS
+    );
+  };
+
+  const applyDataProfileRef = useRef(applyDataProfile);
+  applyDataProfileRef.current = applyDataProfile;
+  useEffect(() => subscribeLowData(active => applyDataProfileRef.current(active)), []);
+
+  // Signals each new clock-face direction as the answer streams in: a ping from that side, the voice
+  // moving there (both with spatial audio on) and a vibration; distance-only hazards get proximity pulses instead.
+  const signalDirections = (turnText: string) => {
+    const mentions = parseClockMentions(turnText);
+    const fresh = mentions.slice(hapticMentionsRef.current);
+    if (fresh.length === 0) return;
+    hapticMentionsRef.current = mentions.length;
+    const latest = fresh[fresh.length - 1];
+    // The transcript arrives with the audio that speaks it, which plays once the queue ahead of it has
+    const player = playerRef.current;
+    if (player) spatialRef.current?.setDirection(latest.hour, { at: player.scheduledUntil });
+    playDirectionalCue(latest.hour, audioContextOutputRef.current);
+    if (latest.distanceMeters !== undefined && latest.distanceMeters < 1.5) vibrate(proximityPattern(latest.distanceMeters));
+    else vibrate(directionPattern(latest.hour));
+  };
+
+  // The hazard channel: an alarm and a spoken warning that jump ahead of whatever the model has
+  // queued. Neither the frame budget nor the low-data profile holds it back.
+  const raiseHazardAlert = (hazard: SceneHazard): HazardOutcome => {
+    const outcome = screenHazard(hazard, 'LIVE');
+    if (outcome !== 'alerted') return outcome;
+    const player = playerRef.current;
+    // Description already queued would delay the warning; whatever the model says next plays under it
+    player?.flush();
+    player?.duck();
+    spatialRef.current?.setDirection(null);
+    playSoundCue('alarm');
+    if (hazard.clock) playDirectionalCue(hazard.clock, audioContextOutputRef.current);
+    let unducked = false;
+    const unduck = () => {
+      if (unducked) return;
+      unducked = true;
+      if (playerRef.current === player) player?.unduck();
+    };
+    speak(t('hazard.warning', { description: describeSceneObject(hazard) }), { interrupt: true, onEnd: unduck });
+    window.setTimeout(unduck, HAZARD_DUCK_MAX_MS);
+    frameSchedulerRef.current?.prioritize(HAZARD_WATCH_MS);
+    return outcome;
+  };
+
+  // Session-side effects are deferred so the tool response goes out before the session closes
+  const createToolContext = (): LiveToolContext => ({
+    getLastAnswer: () => lastAnswerRef.current,
+    setSpeechStyle: ({ rate, verbosity }) => {
+      const current = getSettings();
+      updateSettings({ speechRate: rate ?? current.speechRate, verbosity: verbosity ?? current.verbosity });
+    },
+    setFrameRate: (fps) => updateSettings({ frameRate: Math.min(MAX_FRAME_RATE, Math.max(MIN_FRAME_RATE, fps)) }).frameRate,
+    isSessionActive: () => isActiveRef.current,
+    startSession: () => { window.setTimeout(() => { if (!isActiveRef.current) startSession(); }, 0); },
+    stopSession: () => { window.setTimeout(() => stopSession(), TOOL_EFFECT_DELAY_MS); },
+    restartSession: () => {
+      window.setTimeout(() => {
+        stopSession(true);
+        startSession();
+      }, TOOL_EFFECT_DELAY_MS);
+    },
+    switchMode: (mode) => {
+      if (mode !== 'LIVE') window.setTimeout(() => onModeChange?.(mode), TOOL_EFFECT_DELAY_MS);
+    },
+    startSearch: (target) => { window.setTimeout(() => onSearchRequest?.(target), TOOL_EFFECT_DELAY_MS); },
+    isLocationShared: () => getSettings().shareLocation,
+    describeLocation: () => describeLocation(getSettings().language),
+    reportHazard: raiseHazardAlert,
+  });
+
+  // Tells the model where the user is without asking for a reply. Sent only when the description
+  // changes; describeLocation returns null whenever sharing is off, so nothing goes out then.
+  const scheduleLocationContext = () => {
+    if (locationTimerRef.current || !sessionRef.current) return;
+    const wait = Math.max(0, locationSentAtRef.current + LOCATION_CONTEXT_INTERVAL_MS - Date.now());
+    locationTimerRef.current = window.setTimeout(async () => {
+      locationTimerRef.current = null;
+      const session = sessionRef.current;
+      const { language } = getSettings();
+      const context = session ? await describeLocation(language) : null;
+      if (!context || context === locationContextRef.current || sessionRef.current !== session) return;
+      locationContextRef.current = context;
+      locationSentAtRef.current = Date.now();
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: translate(language, 'prompt.location', { context }) }] }],
+        turnComplete: false,
+      });
+    }, wait);
+  };
+
+  const scheduleLocationContextRef = useRef(scheduleLocationContext);
+  scheduleLocationContextRef.current = scheduleLocationContext;
+
+  // Local voice activity from the mic worklet. Reacts faster than the server's VAD round trip.
+  const handleVoiceActivity = (active: boolean) => {
+    frameSchedulerRef.current?.setUserSpeaking(active);
+    const player = playerRef.current;
+    if (!player) return;
+    if (getSettings().bargeInMode === 'duck') {
+      if (active) player.duck();
+      else player.unduck();
+    } else if (active && player.isPlaying) {
+      player.flush();
+      // Chunks of the old answer may still be in flight; drop them until the turn ends
+      discardingTurnRef.current = true;
+      transcriptRef.current?.completeTurn();
+      setTurnState('interrupted');
+    }
+  };
+
+  const toggleBargeInMode = () => {
+    updateSettings({ bargeInMode: bargeInMode === 'stop' ? 'duck' : 'stop' });
+  };
+
+  const handleConnectionLost = (err?: unknown) => {
+    sessionRef.current = null;
+    if (!isActiveRef.current) return;
+    // A half-finished turn won't be completed by the new connection
+    transcriptRef.current?.completeTurn();
+    supervisorRef.current?.schedule(err);
+  };
+
+  // Opens a live connection, resuming the previous server-side session when we hold a handle.
+  // Camera, mic and audio contexts are owned by startSession and survive reconnects.
+  const openLiveSession = async () => {
+    const connectionId = ++connectionIdRef.current;
+    const isCurrent = () => connectionIdRef.current === connectionId;
+    const settings = getSettings();
+
+    const session = await getBackend().connectLive(
+      {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } },
+        },
+        systemInstruction: buildSystemInstruction(settings),
+        tools: liveToolsConfig(),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        realtimeInputConfig: {
+          activityHandling: settings.bargeInMode === 'duck'
+            ? ActivityHandling.NO_INTERRUPTION
+            : ActivityHandling.START_OF_ACTIVITY_INTERRUPTS,
+        },
+        sessionResumption: { handle: resumptionHandleRef.current ?? undefined },
+        // Long walks easily exceed the context window; let the server slide it instead of ending the session
+        contextWindowCompression: { slidingWindow: {} },
+      },
+      {
+        onmessage: (message: LiveServerMessage) => {
+          if (isCurrent()) handleMessage(message);
+        },
+        onerror: (e: ErrorEvent) => {
+          if (isCurrent()) handleConnectionLost(e);
+        },
+        onclose: () => {
+          if (isCurrent()) handleConnectionLost();
+        }
+      }
+    );
+
+    if (!isCurrent()) {
+      session.close();
+      return;
+    }
+    const previous = sessionRef.current;
+    sessionRef.current = session;
+    setupSettingsRef.current = settings;
+    previous?.close();
+    scheduleLocationContext();
+  };
+
+  // Frame loop: the scheduler picks the pace (base vs burst) and drops near-duplicate frames
+  const scheduleNextFrame = () => {
+    const scheduler = frameSchedulerRef.current;
+    if (!scheduler) return;
+    frameTimerRef.current = window.setTimeout(() => {
+      if (frameSchedulerRef.current !== scheduler) return;
+      const video = videoRef.current;
+      const decision = video && sessionRef.current ? scheduler.evaluate(video) : null;
+      if (decision?.send) {
+        const maxWidth = isLowDataActive() && !scheduler.isPrioritized ? LOW_DATA_PROFILE.maxFrameWidth : undefined;
+        const base64Data = captureFrame(video, canvasRef.current, decision.quality, maxWidth);
+        if (base64Data && sessionRef.current) {
+          sessionRef.current.sendRealtimeInput({
+            media: { data: base64Data, mimeType: 'image/jpeg' }
+          });
+          scheduler.recordSent(estimateBase64Bytes(base64Data));
+          recorderRef.current?.frame(base64Data);
+        }
+      }
+      setFrameStats(scheduler.getStats());
+      scheduleNextFrame();
+    }, scheduler.intervalMs);
+  };
 
   const startSession = async () => {
     setError(null);
+    // Which step failed decides the error shown
+    let connecting = false;
     try {
       onStatusChange(SessionStatus.CONNECTING);
       
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: true, 
-        video: { facingMode: 'environment', width: { ideal: 640 }, height: { ideal: 480 } } 
-      });
+      const source = sourceKind === 'file' && sourceFile
+        ? await openFileSource(sourceFile)
+        : sourceKind === 'pattern' ? openPatternSource() : await openCameraSource();
+      inputSourceRef.current = source;
+      setSourceMedia(source.media ?? null);
+      const stream = source.stream;
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
@@ -151,96 +508,86 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
         await videoRef.current.play();
       }
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      audioContextInputRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextOutputRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      setFrameStats(null);
+      setHistoryFailed(false);
+      const transcriptSession = createSession('LIVE');
+      transcriptRef.current = new TranscriptAssembler(turn => {
+        if (turn.type === 'model') lastAnswerRef.current = turn.text;
+        appendTurn(transcriptSession, turn).catch(() => setHistoryFailed(true));
+      });
+      recorderRef.current = startRecorder('LIVE');
+      startUsageSession();
+
+      audioContextOutputRef.current = createAudioContext({ sampleRate: LIVE_OUTPUT_SAMPLE_RATE });
+      spatialRef.current = new SpatialRenderer(audioContextOutputRef.current, getSettings().spatialAudio);
+      playerRef.current = new PcmPlayer(audioContextOutputRef.current, LIVE_OUTPUT_SAMPLE_RATE, spatialRef.current.input);
       
       playSoundCue('connecting');
 
-      const outputNode = audioContextOutputRef.current.createGain();
-      outputNode.connect(audioContextOutputRef.current.destination);
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            // Using 'Kore' which is a pleasant feminine voice
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: 'You are Echo-Vision, a real-time visual assistant for the visually impaired. Analyze the video feed and describe obstacles, text, and important changes concisely. Speak directly in English. IMPORTANT: NEVER use Markdown formatting like asterisks (**) in your spoken responses. Use plain text only.',
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
+      supervisorRef.current = new ReconnectSupervisor(openLiveSession, {
+        onRetry: (attempt) => {
+          setIsReconnecting(true);
+          onStatusChange(SessionStatus.RECONNECTING);
+          if (attempt === 1) {
+            playSoundCue('connecting');
+            announce(t('live.connectionLost'));
+          }
+        },
+        onRecovered: () => {
+          setIsReconnecting(false);
+          onStatusChange(SessionStatus.ACTIVE);
+          playSoundCue('active');
+          announce(t('live.backOnline'));
+        },
+        onGiveUp: () => {
+          playSoundCue('error');
+          announce(t('live.gaveUp'));
+          stopSession(true);
+          setError({ title: t('live.connectionLostTitle'), detail: t('live.connectionLostDetail') });
+          onStatusChange(SessionStatus.ERROR);
         },
-        callbacks: {
-          onopen: () => {
-            setIsActive(true);
-            onStatusChange(SessionStatus.ACTIVE);
-            playSoundCue('active');
-            
-            if (audioContextInputRef.current) {
-              const source = audioContextInputRef.current.createMediaStreamSource(stream);
-              const scriptProcessor = audioContextInputRef.current.createScriptProcessor(4096, 1, 1);
-              scriptProcessor.onaudioprocess = (e) => {
-                const inputData = e.inputBuffer.getChannelData(0);
-                const int16 = new Int16Array(inputData.length);
-                for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-                sessionPromise.then(session => {
-                  if (session) session.sendRealtimeInput({ 
-                    media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } 
-                  });
-                });
-              };
-              source.connect(scriptProcessor);
-              scriptProcessor.connect(audioContextInputRef.current.destination);
-            }
-
-            frameIntervalRef.current = window.setInterval(() => {
-              if (canvasRef.current && videoRef.current && videoRef.current.videoWidth > 0) {
-                const ctx = canvasRef.current.getContext('2d');
-                if (ctx) {
-                  canvasRef.current.width = videoRef.current.videoWidth;
-                  canvasRef.current.height = videoRef.current.videoHeight;
-                  ctx.drawImage(videoRef.current, 0, 0);
-                  const base64Data = canvasRef.current.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
-                  sessionPromise.then(session => {
-                    if (session) session.sendRealtimeInput({
-                      media: { data: base64Data, mimeType: 'image/jpeg' }
-                    });
-                  });
-                }
-              }
-            }, 1000 / FRAME_RATE);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.outputTranscription) {
-              setLastMessage(message.serverContent.outputTranscription.text);
-            }
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData && audioContextOutputRef.current) {
-              const ctx = audioContextOutputRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputNode);
-              source.onended = () => sourcesRef.current.delete(source);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-          },
-          onerror: () => {
-            playSoundCue('error');
-            stopSession(true);
-          },
-          onclose: () => stopSession()
-        }
       });
-      sessionRef.current = await sessionPromise;
+
+      isActiveRef.current = true;
+      unsubscribeLocationRef.current = subscribeLocation(() => scheduleLocationContextRef.current());
+      connecting = true;
+      await openLiveSession();
+      connecting = false;
+
+      setIsActive(true);
+      onStatusChange(SessionStatus.ACTIVE);
+      playSoundCue('active');
+
+      // Capture keeps running through reconnects; chunks are dropped while no session is open.
+      // The test pattern and silent video files have no audio track, so nothing is sent.
+      if (stream.getAudioTracks().length > 0) micCaptureRef.current = await startMicCapture(stream, {
+        chunkMs: AUDIO_CHUNK_MS,
+        gateSilence: GATE_SILENCE,
+        onChunk: (pcm) => {
+          if (!sessionRef.current) return;
+          const data = encodeBase64(new Uint8Array(pcm.buffer));
+          sessionRef.current.sendRealtimeInput({ media: { data, mimeType: pcmMimeType(LIVE_INPUT_SAMPLE_RATE) } });
+          recorderRef.current?.micAudio(data);
+        },
+        onVoiceActivity: (active) => {
+          handleVoiceActivity(active);
+          // With gating the stream pauses between utterances; tell the server so it can flush its buffer
+          if (!active && GATE_SILENCE) sessionRef.current?.sendRealtimeInput({ audioStreamEnd: true });
+        },
+      });
+
+      const { frameRate, jpegQuality } = getSettings();
+      frameSchedulerRef.current = new FrameScheduler({ baseFps: frameRate, baseQuality: jpegQuality });
+      applyDataProfile(isLowDataActive());
+      scheduleNextFrame();
     } catch (err: any) {
+      stopSession(true);
       playSoundCue('error');
-      setError({ title: "Access Denied", detail: err.message || "Please enable permissions." });
+      setError(connecting
+        ? { title: t('live.connectFailedTitle'), detail: err.message || t('live.connectionLostDetail') }
+        : sourceKind === 'camera'
+        ? { title: t('live.accessDeniedTitle'), detail: err.message || t('live.accessDeniedDetail') }
+        : { title: t('live.sourceFailedTitle'), detail: err.message || t('live.sourceFailedDetail') });
       onStatusChange(SessionStatus.ERROR);
     }
   };
@@ -259,10 +606,10 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-12 duration-1000">
             <div className="space-y-2">
               <h2 className="text-4xl font-extrabold text-white tracking-tight">
-                Hi, I'm <span className="bg-gradient-to-r from-indigo-400 to-cyan-400 bg-clip-text text-transparent">Echo</span>
+                {t('live.greeting')} <span className="bg-gradient-to-r from-indigo-400 to-cyan-400 bg-clip-text text-transparent">Echo</span>
               </h2>
               <p className="text-slate-400 text-base font-medium leading-relaxed max-w-sm mx-auto">
-                Point your camera and tap below. I'll describe the world around you in real-time.
+                {t('live.intro')}
               </p>
             </div>
             
@@ -270,33 +617,105 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
               <div className="group flex items-center gap-4 p-5 rounded-3xl bg-slate-900/50 border border-white/5 backdrop-blur-sm transition-all hover:bg-slate-800/50">
                 <div className="w-12 h-12 rounded-2xl bg-indigo-500/10 flex items-center justify-center text-2xl group-hover:scale-110 transition-transform">👁️</div>
                 <div>
-                  <p className="text-sm font-bold text-slate-100 uppercase tracking-wider">Object Awareness</p>
-                  <p className="text-xs text-slate-500">Know what's in front of you instantly.</p>
+                  <p className="text-sm font-bold text-slate-100 uppercase tracking-wider">{t('live.awarenessTitle')}</p>
+                  <p className="text-xs text-slate-500">{t('live.awarenessDetail')}</p>
                 </div>
               </div>
               <div className="group flex items-center gap-4 p-5 rounded-3xl bg-slate-900/50 border border-white/5 backdrop-blur-sm transition-all hover:bg-slate-800/50">
                 <div className="w-12 h-12 rounded-2xl bg-fuchsia-500/10 flex items-center justify-center text-2xl group-hover:scale-110 transition-transform">🚶</div>
                 <div>
-                  <p className="text-sm font-bold text-slate-100 uppercase tracking-wider">Safe Navigation</p>
-                  <p className="text-xs text-slate-500">Detect obstacles and changing paths.</p>
+                  <p className="text-sm font-bold text-slate-100 uppercase tracking-wider">{t('live.navigationTitle')}</p>
+                  <p className="text-xs text-slate-500">{t('live.navigationDetail')}</p>
                 </div>
               </div>
             </div>
+
+            <fieldset className="text-left space-y-3">
+              <legend className="mb-3 text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">{t('live.sourceTitle')}</legend>
+              <div className="grid grid-cols-3 gap-2">
+                {INPUT_SOURCES.map(kind => (
+                  <label
+                    key={kind}
+                    className={`flex items-center justify-center gap-2 p-3 rounded-2xl border text-xs font-bold cursor-pointer ${
+                      sourceKind === kind ? 'bg-indigo-600/20 border-indigo-500/50 text-white' : 'bg-slate-900/50 border-white/5 text-slate-400'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="live-source"
+                      value={kind}
+                      checked={sourceKind === kind}
+                      onChange={() => setSourceKind(kind)}
+                      className="sr-only"
+                    />
+                    {t(`live.source.${kind}`)}
+                  </label>
+                ))}
+              </div>
+              {sourceKind === 'file' && (
+                <label className="flex flex-col gap-2 text-xs text-slate-400">
+                  {sourceFile ? t('live.sourceFileChosen', { name: sourceFile.name }) : t('live.sourceFileHint')}
+                  <input
+                    type="file"
+                    accept="video/*"
+                    onChange={(e) => setSourceFile(e.target.files?.[0] ?? null)}
+                    className="text-xs text-slate-300 file:mr-3 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-white/10 file:text-white"
+                  />
+                </label>
+              )}
+            </fieldset>
           </div>
         )}
 
         {isActive && (
            <div className="w-full min-h-[160px] bg-slate-900/80 backdrop-blur-3xl rounded-[40px] p-8 border border-white/10 flex items-center justify-center shadow-2xl animate-in zoom-in-95 duration-500 relative overflow-hidden">
-             <div className="absolute top-0 left-0 w-1 h-full bg-indigo-500 animate-pulse" />
+             <div className={`absolute top-0 left-0 w-1 h-full ${turnState === 'speaking' ? 'bg-indigo-500 animate-pulse' : 'bg-slate-600'}`} />
              <p className="text-2xl font-semibold text-white/95 leading-tight tracking-tight">
-               {lastMessage || "Looking at your surroundings..."}
+               {isReconnecting ? t('live.reconnectingText') : lastMessage || t('live.looking')}
              </p>
+             {(turnState === 'complete' || turnState === 'interrupted') && !isReconnecting && (
+               <span className="absolute bottom-3 right-6 text-[9px] font-black uppercase tracking-[0.3em] text-slate-500">
+                 {turnState === 'complete' ? t('live.endOfAnswer') : t('live.interrupted')}
+               </span>
+             )}
            </div>
         )}
 
+        {isActive && frameStats && (
+          <p className="text-[9px] font-black uppercase tracking-[0.3em] text-slate-500 -mt-6">
+            {t('live.frameStats', {
+              sent: frameStats.framesSent,
+              captured: frameStats.framesCaptured,
+              kb: (frameStats.bytesSent / 1024).toFixed(0),
+            })}
+            {lowData && ` · ${t('live.lowData')}`}
+          </p>
+        )}
+
+        {isActive && historyFailed && (
+          <p role="alert" className="text-[9px] font-black uppercase tracking-[0.3em] text-rose-300 -mt-6">
+            {t('history.saveFailed')}
+          </p>
+        )}
+
+        {isActive && sourceMedia && <PlaybackControls media={sourceMedia} />}
+
+        {isActive && (
+          <button
+            onClick={toggleBargeInMode}
+            aria-label={t('live.interruptLabel', {
+              behavior: bargeInMode === 'stop' ? t('live.interruptStopBehavior') : t('live.interruptDuckBehavior'),
+            })}
+            className="-mt-6 px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-[0.3em] text-slate-400 hover:text-white"
+          >
+            {t('live.interruptButton', { mode: bargeInMode === 'stop' ? t('live.interruptStop') : t('live.interruptDuck') })}
+          </button>
+        )}
+
         <div className="relative group">
           <button
-            onClick={isActive ? stopSession : startSession}
+            onClick={isActive ? () => stopSession() : startSession}
+            disabled={!isActive && sourceKind === 'file' && !sourceFile}
             className={`relative w-56 h-56 rounded-full flex flex-col items-center justify-center transition-all duration-700 shadow-2xl active:scale-90 ${
               isActive 
                 ? 'bg-rose-500 border-[12px] border-rose-400/20' 
@@ -318,7 +737,7 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
                     />
                   ))}
                 </div>
-                <span className="text-[10px] font-black uppercase tracking-[0.3em] opacity-80">Stop Assistant</span>
+                <span className="text-[10px] font-black uppercase tracking-[0.3em] opacity-80">{t('live.stop')}</span>
               </div>
             ) : (
               <div className="flex flex-col items-center gap-3 text-white">
@@ -328,7 +747,7 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                   </svg>
                 </div>
-                <span className="text-xs font-black uppercase tracking-[0.4em]">Initialize</span>
+                <span className="text-xs font-black uppercase tracking-[0.4em]">{t('live.start')}</span>
               </div>
             )}
           </button>
@@ -351,7 +770,7 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
               onClick={() => setError(null)}
               className="px-4 py-2 bg-rose-500/20 hover:bg-rose-500/40 rounded-xl text-[10px] uppercase font-black transition-colors"
             >
-              Retry
+              {t('common.retry')}
             </button>
           </div>
         )}
@@ -360,7 +779,7 @@ const EchoVision: React.FC<EchoVisionProps> = ({ onStatusChange }) => {
       {!isActive && (
         <div className="absolute bottom-24 left-0 right-0 text-center pointer-events-none opacity-20">
           <p className="text-[9px] font-black uppercase tracking-[0.5em] text-white">
-            Ready to assist • 100% Privacy
+            {t('live.footer')}
           </p>
         </div>
       )}
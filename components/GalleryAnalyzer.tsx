@@ -1,54 +1,379 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { SessionStatus } from '../types.ts';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Type } from '@google/genai';
+import { Scene, SessionStatus, TranscriptSession } from '../types.ts';
+import { createSession, appendTurn } from '../services/transcriptStore.ts';
+import { vibrate } from '../utils/haptics.ts';
+import { blobToBase64, captureStill } from '../utils/frameCapture.ts';
+import { extractAudioTrack, extractKeyframes, formatTimestamp } from '../utils/videoFrames.ts';
+import { isTypingTarget, keyLabel } from '../utils/keyboard.ts';
+import { SCENE_SCHEMA, hazardsToSpeech, parseScene, sortHazards } from '../utils/scene.ts';
+import { playDirectionalCue, playSoundCue } from '../utils/soundCues.ts';
+import { speak } from '../utils/speech.ts';
+import { Settings, getSettings, useSettings } from '../services/settings.ts';
+import { translate, useI18n } from '../i18n/index.ts';
+import { MediaChat, startMediaChat } from '../services/mediaChat.ts';
+import { describeLocation, subscribeLocation } from '../services/location.ts';
+import { getBackend } from '../services/backend.ts';
+import { screenHazard } from '../services/hazardAlerts.ts';
+import SceneList from './SceneList.tsx';
 
 interface GalleryAnalyzerProps {
   onStatusChange: (status: SessionStatus) => void;
 }
 
+const MB = 1024 * 1024;
+// Larger videos are turned into keyframes locally instead of being uploaded whole
 const MAX_FILE_SIZE_MB = 10;
+const MAX_VIDEO_SIZE_MB = 1024;
+// Decoding the audio track needs the whole file in memory
+const MAX_AUDIO_DECODE_MB = 200;
+const MAX_ITEMS = 6;
+
+interface MediaItem {
+  id: number;
+  url: string;
+  type: 'image' | 'video';
+  // Stable name the model and the user refer to, e.g. "image 2"
+  label: string;
+}
+
+// Spoken requests to move through earlier answers are handled locally, not answered
+type GalleryCommand = 'ask' | 'previous' | 'next' | 'repeat';
+
+// A point in a video that an answer refers to
+interface Moment {
+  item: string;
+  seconds: number;
+}
+
+interface Exchange {
+  question: string;
+  answer: string;
+  // BCP-47 tag when the answer isn't in the UI language
+  language?: string;
+  moments: Moment[];
+  // Hazards and objects, when the question was about what is visible
+  scene?: Scene;
+}
+
+const ANSWER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    question: { type: Type.STRING, description: "Verbatim transcription of the user's spoken question." },
+    command: {
+      type: Type.STRING,
+      enum: ['ask', 'previous', 'next', 'repeat'],
+      description: 'ask for a question about the media; previous, next or repeat when the user only asks to go back to the earlier answer, forward to the next one, or hear the current one again.',
+    },
+    answer: { type: Type.STRING, description: 'The answer for the user, plain text. Empty unless command is ask.' },
+    language: { type: Type.STRING, description: 'BCP-47 tag of the language the answer is written in, e.g. "fr-FR".' },
+    moments: {
+      type: Type.ARRAY,
+      description: 'Moments in videos that the answer mentions, in the order mentioned.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          item: { type: Type.STRING, description: 'Label of the video, e.g. "video 2".' },
+          seconds: { type: Type.NUMBER, description: 'Time from the start of the video in seconds.' },
+        },
+        required: ['item', 'seconds'],
+      },
+    },
+    scene: SCENE_SCHEMA,
+  },
+  required: ['question', 'command'],
+};
+
+// A typed question is quoted in the prompt; a spoken one arrives as audio for the model to transcribe
+const buildPrompt = ({ verbosity, language, matchSpokenLanguage }: Settings, location: string | null, typedQuestion?: string) => [
+  typedQuestion
+    ? translate(language, 'prompt.gallery.typed', { question: typedQuestion, detail: translate(language, `prompt.detail.${verbosity}`) })
+    : translate(language, 'prompt.gallery', { detail: translate(language, `prompt.detail.${verbosity}`) }),
+  translate(language, 'prompt.gallery.labels'),
+  translate(language, 'prompt.gallery.moments'),
+  translate(language, 'prompt.gallery.scene'),
+  translate(language, 'prompt.gallery.followUp'),
+  matchSpokenLanguage
+    ? translate(language, 'prompt.gallery.matchLanguage')
+    : translate(language, 'prompt.gallery.language', { language: translate(language, 'language.name') }),
+  location ? translate(language, 'prompt.gallery.location', { context: location }) : '',
+].filter(Boolean).join(' ');
 
 const GalleryAnalyzer: React.FC<GalleryAnalyzerProps> = ({ onStatusChange }) => {
-  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
-  const [mediaType, setMediaType] = useState<'image' | 'video' | null>(null);
-  const [result, setResult] = useState<string>('');
+  const t = useI18n();
+  const { recordMode, pushToTalkKey } = useSettings();
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [focusedItem, setFocusedItem] = useState(0);
+  const [itemAnnouncement, setItemAnnouncement] = useState('');
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  // Item id -> percent done, for large videos still being turned into keyframes
+  const [preparing, setPreparing] = useState<Record<number, number>>({});
+  const [seekRequest, setSeekRequest] = useState<{ id: number; seconds: number } | null>(null);
+  const [exchanges, setExchanges] = useState<Exchange[]>([]);
+  const [viewIndex, setViewIndex] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [typedQuestion, setTypedQuestion] = useState('');
+  // Read out by screen readers: listening, analyzing, then the answer
+  const [statusAnnouncement, setStatusAnnouncement] = useState('');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const shownVideoRef = useRef<HTMLVideoElement>(null);
+  const prepareQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const preparationsRef = useRef(new Set<AbortController>());
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const nextItemIdRef = useRef(0);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  // Set while the user wants to record; the mic may still be opening
+  const wantRecordingRef = useRef(false);
   const audioChunksRef = useRef<Blob[]>([]);
+  const transcriptSessionRef = useRef<TranscriptSession | null>(null);
+  const chatRef = useRef<MediaChat | null>(null);
+  // Navigation by voice arrives asynchronously; read the latest values from here
+  const exchangesRef = useRef(exchanges);
+  exchangesRef.current = exchanges;
+  const viewIndexRef = useRef(viewIndex);
+  viewIndexRef.current = viewIndex;
 
-  useEffect(() => {
-    return () => {
-      if (mediaUrl) URL.revokeObjectURL(mediaUrl);
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsCameraOn(false);
+  }, []);
+
+  useEffect(() => () => {
+    preparationsRef.current.forEach(controller => controller.abort());
+    chatRef.current?.end();
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.url));
+    stopCamera();
+  }, [stopCamera]);
+
+  // Keeps position and heading fresh for questions while Media mode is open (only if sharing is on)
+  useEffect(() => subscribeLocation(() => {}), []);
+
+  const endChat = () => {
+    chatRef.current?.end();
+    chatRef.current = null;
+    setExchanges([]);
+    setViewIndex(0);
+  };
+
+  const removeMedia = () => {
+    preparationsRef.current.forEach(controller => controller.abort());
+    setPreparing({});
+    endChat();
+    stopCamera();
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.url));
+    itemsRef.current = [];
+    setItems([]);
+    setFocusedItem(0);
+    setError(null);
+    // Allows picking the same file again
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const readExchange = useCallback((index: number) => {
+    const exchange = exchangesRef.current[index];
+    if (!exchange) return;
+    setViewIndex(index);
+    const position = t('gallery.position', { current: index + 1, total: exchangesRef.current.length });
+    speak(position + ' ' + (exchange.question ? t('gallery.youAsked', { question: exchange.question }) + ' ' : ''), { interrupt: true });
+    const hazards = exchange.scene ? hazardsToSpeech(exchange.scene) : '';
+    if (hazards) speak(hazards);
+    speak(exchange.answer, { lang: exchange.language });
+  }, [t]);
+
+  const showPrevious = useCallback(() => {
+    const index = viewIndexRef.current;
+    if (index > 0) readExchange(index - 1);
+    else speak(exchangesRef.current.length ? t('gallery.first') : t('gallery.noAnswers'), { interrupt: true });
+  }, [readExchange, t]);
+
+  const showNext = useCallback(() => {
+    const index = viewIndexRef.current;
+    if (index + 1 < exchangesRef.current.length) readExchange(index + 1);
+    else speak(exchangesRef.current.length ? t('gallery.last') : t('gallery.noAnswers'), { interrupt: true });
+  }, [readExchange, t]);
+
+  const repeatCurrent = useCallback(() => {
+    if (exchangesRef.current.length) readExchange(viewIndexRef.current);
+    else speak(t('gallery.noAnswers'), { interrupt: true });
+  }, [readExchange, t]);
+
+  const focusItem = (index: number) => {
+    const item = itemsRef.current[index];
+    if (!item) return;
+    setFocusedItem(index);
+    setItemAnnouncement(t('gallery.itemPosition', { label: item.label, current: index + 1, total: itemsRef.current.length }));
+  };
+
+  // New items join the current conversation; the first ones start it
+  const addItems = (blobs: Blob[]) => {
+    setError(null);
+    const room = MAX_ITEMS - itemsRef.current.length;
+    const sizeLimit = (blob: Blob) => (blob.type.startsWith('video') ? MAX_VIDEO_SIZE_MB : MAX_FILE_SIZE_MB);
+    const tooLarge = blobs.filter(blob => blob.size > sizeLimit(blob) * MB);
+    const accepted = blobs.filter(blob => !tooLarge.includes(blob)).slice(0, Math.max(room, 0));
+    if (tooLarge.length) setError(t('gallery.fileTooLarge', { max: sizeLimit(tooLarge[0]) }));
+    else if (accepted.length < blobs.length) setError(t('gallery.tooMany', { max: MAX_ITEMS }));
+    if (!accepted.length) return [];
+
+    const isFirst = !chatRef.current;
+    if (isFirst) {
+      transcriptSessionRef.current = createSession('GALLERY');
+      // Uploads start now so they are usually done by the time the first question is recorded
+      chatRef.current = startMediaChat(getBackend(), {
+        responseMimeType: 'application/json',
+        responseSchema: ANSWER_SCHEMA,
+      });
+    }
+    const large: { item: MediaItem; blob: Blob }[] = [];
+    const added = accepted.map((blob, i): MediaItem => {
+      const type = blob.type.startsWith('video') ? 'video' : 'image';
+      const label = t(`gallery.label.${type}`, { number: itemsRef.current.length + i + 1 });
+      const item: MediaItem = { id: nextItemIdRef.current++, url: URL.createObjectURL(blob), type, label };
+      if (blob.size > MAX_FILE_SIZE_MB * MB) large.push({ item, blob });
+      else chatRef.current!.add(blob, label);
+      return item;
+    });
+    const next = [...itemsRef.current, ...added];
+    itemsRef.current = next;
+    setItems(next);
+    focusItem(next.length - added.length);
+    if (isFirst && !isCameraOn) speak(t('gallery.added', { labels: added.map(item => item.label).join(', ') }) + ' ' + t('gallery.ready'));
+    large.forEach(({ item, blob }) => prepareLargeVideo(item, blob));
+    return added;
+  };
+
+  const prepareLargeVideo = (item: MediaItem, blob: Blob) => {
+    const chat = chatRef.current!;
+    const controller = new AbortController();
+    preparationsRef.current.add(controller);
+    setPreparing(prev => ({ ...prev, [item.id]: 0 }));
+    speak(t('gallery.preparingStart', { label: item.label }));
+    const setProgress = (fraction: number) => {
+      const percent = Math.round(fraction * 100);
+      setPreparing(prev => (item.id in prev && prev[item.id] !== percent ? { ...prev, [item.id]: percent } : prev));
     };
-  }, [mediaUrl]);
+    // One video at a time: decoding is heavy on phones
+    prepareQueueRef.current = prepareQueueRef.current.then(async () => {
+      try {
+        const { frames } = await extractKeyframes(blob, {
+          intervalSeconds: getSettings().videoFrameInterval,
+          onProgress: setProgress,
+          signal: controller.signal,
+        });
+        const audio = blob.size <= MAX_AUDIO_DECODE_MB * MB ? await extractAudioTrack(blob) : null;
+        if (controller.signal.aborted) return;
+        chat.addSequence(frames, audio, item.label);
+        speak(t('gallery.videoReady', { label: item.label, count: frames.length }));
+      } catch (e) {
+        if (!controller.signal.aborted) setError(t('gallery.videoFailed', { label: item.label }));
+      } finally {
+        preparationsRef.current.delete(controller);
+        setPreparing(prev => {
+          const { [item.id]: _, ...rest } = prev;
+          return rest;
+        });
+      }
+    });
+  };
+
+  const jumpTo = (moment: Moment) => {
+    const index = itemsRef.current.findIndex(item => item.label.toLowerCase() === moment.item.toLowerCase());
+    const item = itemsRef.current[index];
+    if (!item || item.type !== 'video') return;
+    setFocusedItem(index);
+    setSeekRequest({ id: item.id, seconds: moment.seconds });
+    setItemAnnouncement(t('gallery.jumped', { label: item.label, time: formatTimestamp(moment.seconds) }));
+  };
+
+  useEffect(() => {
+    const video = shownVideoRef.current;
+    if (!seekRequest || !video || items[focusedItem]?.id !== seekRequest.id) return;
+    const apply = () => { video.currentTime = seekRequest.seconds; };
+    if (video.readyState >= 1) apply();
+    else video.addEventListener('loadedmetadata', apply, { once: true });
+    setSeekRequest(null);
+  }, [seekRequest, focusedItem, items]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addItems(Array.from(e.target.files ?? []));
+    // Allows picking the same file again
+    e.target.value = '';
+  };
+
+  const openCamera = async () => {
     setError(null);
-    const file = e.target.files?.[0];
-    if (!file) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.setAttribute('playsinline', 'true');
+        videoRef.current.muted = true;
+        await videoRef.current.play();
+      }
+      setIsCameraOn(true);
+      speak(t('gallery.cameraReady'), { interrupt: true });
+    } catch (err: any) {
+      setError(err.message || t('common.cameraDenied'));
+    }
+  };
 
-    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
-      setError(`File too large (max ${MAX_FILE_SIZE_MB}MB).`);
+  const takePhoto = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    const still = await captureStill(track, videoRef.current, canvasRef.current);
+    if (!still) {
+      speak(t('gallery.captureFailed'), { interrupt: true });
       return;
     }
+    const blob = await (await fetch(`data:${still.mimeType};base64,${still.data}`)).blob();
+    const [item] = addItems([blob]);
+    if (!item) return;
+    vibrate([50]);
+    speak(t('gallery.photoAdded', { label: item.label }), { interrupt: true });
+  };
 
-    const url = URL.createObjectURL(file);
-    setMediaUrl(url);
-    setMediaType(file.type.startsWith('video') ? 'video' : 'image');
-    setResult('');
-    
-    const utterance = new SpeechSynthesisUtterance("Ready. Hold the button to ask a question.");
-    utterance.lang = 'en-US';
-    window.speechSynthesis.speak(utterance);
+  const finishCapture = () => {
+    stopCamera();
+    if (itemsRef.current.length) speak(t('gallery.ready'), { interrupt: true });
+  };
+
+  const handleCarouselKeyDown = (e: React.KeyboardEvent) => {
+    const last = items.length - 1;
+    const targets: Record<string, number> = {
+      ArrowLeft: Math.max(focusedItem - 1, 0),
+      ArrowRight: Math.min(focusedItem + 1, last),
+      Home: 0,
+      End: last,
+    };
+    if (!(e.key in targets)) return;
+    // Arrow keys elsewhere move through answers
+    e.preventDefault();
+    e.stopPropagation();
+    focusItem(targets[e.key]);
   };
 
   const startRecording = async () => {
+    if (wantRecordingRef.current) return;
+    wantRecordingRef.current = true;
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Released before the mic opened
+      if (!wantRecordingRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       const recorder = new MediaRecorder(stream);
       mediaRecorderRef.current = recorder;
       audioChunksRef.current = [];
@@ -59,83 +384,216 @@ const GalleryAnalyzer: React.FC<GalleryAnalyzerProps> = ({ onStatusChange }) =>
 
       recorder.onstop = () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        processMultimodal(audioBlob);
+        askQuestion(audioBlob);
         stream.getTracks().forEach(track => track.stop());
       };
 
       recorder.start();
       setIsRecording(true);
-      window.navigator.vibrate?.(50);
+      setStatusAnnouncement(t('gallery.listening'));
+      vibrate([50]);
     } catch (err) {
-      setError("Microphone access denied.");
+      wantRecordingRef.current = false;
+      setError(t('gallery.micDenied'));
     }
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-    }
+    if (!wantRecordingRef.current) return;
+    wantRecordingRef.current = false;
+    if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+    setIsRecording(false);
   };
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  };
+  const toggleRecording = () => (wantRecordingRef.current ? stopRecording() : startRecording());
 
-  const processMultimodal = async (audioBlob: Blob) => {
-    if (!mediaUrl || !fileInputRef.current?.files?.[0]) return;
+  // A recorded question, or the text of a typed one
+  const askQuestion = async (input: Blob | string) => {
+    const chat = chatRef.current;
+    if (!chat) return;
 
     setIsProcessing(true);
     onStatusChange(SessionStatus.ANALYZING);
-    setResult('');
+    setStatusAnnouncement(t('gallery.analyzing'));
     setError(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const mediaFile = fileInputRef.current.files[0];
-      
-      const [mediaBase64, audioBase64] = await Promise.all([
-        blobToBase64(mediaFile),
-        blobToBase64(audioBlob)
-      ]);
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            { inlineData: { data: mediaBase64, mimeType: mediaFile.type } },
-            { inlineData: { data: audioBase64, mimeType: 'audio/webm' } },
-            { text: "Analyze the content and answer the question concisely for a visually impaired user. Plain text only, no markdown." }
-          ]
+      // Settings are read per question so changes apply to the next answer
+      const settings = getSettings();
+      // Null unless the user turned on location sharing
+      const location = await describeLocation(settings.language);
+      const responseText = await chat.send(typeof input === 'string'
+        ? [{ text: buildPrompt(settings, location, input) }]
+        : [
+          { inlineData: { data: await blobToBase64(input), mimeType: 'audio/webm' } },
+          { text: buildPrompt(settings, location) },
+        ]);
+      // The media was removed or replaced while we waited
+      if (chatRef.current !== chat) return;
+
+      let question = '';
+      let command: GalleryCommand = 'ask';
+      let text = t('gallery.noAnswer');
+      let answerLanguage: string | undefined;
+      let moments: Moment[] = [];
+      let scene: Scene | null = null;
+      try {
+        const parsed = JSON.parse(responseText || '{}');
+        if (!parsed || typeof parsed !== 'object') throw new Error('Unexpected answer format');
+        question = typeof input === 'string' ? input : parsed.question || '';
+        if (['previous', 'next', 'repeat'].includes(parsed.command)) command = parsed.command;
+        text = parsed.answer || text;
+        if (settings.matchSpokenLanguage && typeof parsed.language === 'string') answerLanguage = parsed.language;
+        if (Array.isArray(parsed.moments)) {
+          moments = parsed.moments.filter((m: any) => m && typeof m.item === 'string' && Number.isFinite(m.seconds));
         }
-      });
+        scene = parseScene(parsed.scene);
+      } catch (e) {
+        text = responseText || text;
+      }
+
+      if (command === 'previous') return showPrevious();
+      if (command === 'next') return showNext();
+      if (command === 'repeat') return repeatCurrent();
 
-      const text = response.text || "I couldn't process that.";
-      setResult(text);
+      const next = [...exchangesRef.current, { question, answer: text, language: answerLanguage, moments, scene: scene ?? undefined }];
+      exchangesRef.current = next;
+      setExchanges(next);
+      setViewIndex(next.length - 1);
+
+      const hazards = scene ? hazardsToSpeech(scene) : '';
+      const session = transcriptSessionRef.current;
+      if (session) {
+        const now = Date.now();
+        const saveFailed = () => setError(t('history.saveFailed'));
+        if (question) appendTurn(session, { type: 'user', text: question, timestamp: now }).catch(saveFailed);
+        appendTurn(session, { type: 'model', text: [hazards, text].filter(Boolean).join(' '), timestamp: now }).catch(saveFailed);
+      }
       
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = 'en-US';
-      window.speechSynthesis.speak(utterance);
+      setStatusAnnouncement([hazards, text].filter(Boolean).join(' '));
+      // Every hazard is logged; the alarm only sounds for ones the user wasn't just warned about
+      const alerts = scene ? scene.hazards.filter(hazard => screenHazard(hazard, 'GALLERY') === 'alerted') : [];
+      if (alerts.length > 0) playSoundCue('alarm');
+      // Hazards come before the answer, whatever was asked
+      if (hazards) speak(hazards, { interrupt: true });
+      // The browser's speech can't be panned, so a ping marks where the worst hazard is
+      const worst = scene ? sortHazards(scene.hazards)[0] : undefined;
+      if (worst?.clock) playDirectionalCue(worst.clock);
+      speak(text, { interrupt: !hazards, lang: answerLanguage });
 
     } catch (err: any) {
-      setError("Analysis failed. Please try again.");
-      setResult("");
+      if (chatRef.current === chat) {
+        setError(t('gallery.failed'));
+        setStatusAnnouncement('');
+      }
     } finally {
       setIsProcessing(false);
       onStatusChange(SessionStatus.IDLE);
     }
   };
 
+  const submitTypedQuestion = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = typedQuestion.trim();
+    if (!question || isProcessing) return;
+    setTypedQuestion('');
+    askQuestion(question);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!exchanges.length || isTypingTarget(e.target)) return;
+    const actions: Record<string, () => void> = {
+      ArrowLeft: showPrevious, p: showPrevious,
+      ArrowRight: showNext, n: showNext,
+      r: repeatCurrent,
+    };
+    const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  const current = exchanges[viewIndex];
+  const shownItem = items[focusedItem];
+  // Questions wait until every video is ready, so answers can cover all items
+  const preparingItem = items.find(item => item.id in preparing);
+  const canAsk = items.length > 0 && !isCameraOn && !isProcessing && !preparingItem;
+
+  // Push-to-talk works from anywhere in Media mode except text fields
+  const pushToTalkRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  pushToTalkRef.current = (e) => {
+    if (e.code !== pushToTalkKey || isTypingTarget(e.target)) return;
+    if (e.type === 'keyup') {
+      if (recordMode === 'hold') stopRecording();
+      return;
+    }
+    if (!canAsk && !wantRecordingRef.current) return;
+    e.preventDefault();
+    if (e.repeat) return;
+    if (recordMode === 'toggle') toggleRecording();
+    else startRecording();
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => pushToTalkRef.current(e);
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+    };
+  }, []);
+
+  // The mic button itself: pointer and Enter/Space hold in hold mode, plain clicks in toggle mode
+  const micHandlers = recordMode === 'toggle'
+    ? { onClick: toggleRecording }
+    : {
+      onMouseDown: startRecording,
+      onMouseUp: stopRecording,
+      onMouseLeave: stopRecording,
+      onTouchStart: (e: React.TouchEvent) => { e.preventDefault(); startRecording(); },
+      onTouchEnd: (e: React.TouchEvent) => { e.preventDefault(); stopRecording(); },
+      onKeyDown: (e: React.KeyboardEvent) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        if (!e.repeat) startRecording();
+      },
+      onKeyUp: (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') stopRecording();
+      },
+    };
+
   return (
-    <div className="h-full flex flex-col p-6 gap-6 animate-in fade-in duration-700 bg-slate-950 pb-32">
+    <div onKeyDown={handleKeyDown} className="h-full flex flex-col p-6 gap-6 animate-in fade-in duration-700 bg-slate-950 pb-32">
       {/* Media Preview Area */}
       <div className="flex-1 flex flex-col items-center justify-center border-2 border-slate-800 rounded-[48px] bg-slate-900/40 overflow-hidden relative group transition-all duration-500 hover:border-indigo-500/30">
-        {!mediaUrl ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-cover ${isCameraOn ? '' : 'hidden'}`}
+        />
+        <canvas ref={canvasRef} className="hidden" />
+
+        {isCameraOn ? (
+          <div className="absolute bottom-6 inset-x-6 flex gap-3">
+            <button
+              onClick={takePhoto}
+              disabled={items.length >= MAX_ITEMS}
+              className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em] hover:bg-indigo-500 disabled:opacity-40"
+            >
+              {t('gallery.takePhoto')}
+            </button>
+            <button
+              onClick={finishCapture}
+              className="flex-1 py-4 bg-slate-900/80 border border-white/10 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em]"
+            >
+              {t('gallery.doneCapturing', { count: items.length })}
+            </button>
+          </div>
+        ) : !shownItem ? (
           <div className="text-center space-y-8 px-6">
             <div className="w-24 h-24 bg-indigo-500/10 rounded-[32px] flex items-center justify-center mx-auto text-indigo-400 border border-white/5 shadow-inner">
               <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -143,40 +601,105 @@ const GalleryAnalyzer: React.FC<GalleryAnalyzerProps> = ({ onStatusChange }) =>
               </svg>
             </div>
             <div className="space-y-2">
-              <p className="text-white font-bold text-2xl tracking-tight">Media Assistant</p>
-              <p className="text-slate-500 text-xs font-black uppercase tracking-widest leading-relaxed">
-                Analyze images or videos<br/>up to {MAX_FILE_SIZE_MB}MB
+              <p className="text-white font-bold text-2xl tracking-tight">{t('gallery.title')}</p>
+              <p className="text-slate-500 text-xs font-black uppercase tracking-widest leading-relaxed whitespace-pre-line">
+                {t('gallery.subtitle', { count: MAX_ITEMS, max: MAX_FILE_SIZE_MB, videoMax: MAX_VIDEO_SIZE_MB })}
               </p>
             </div>
-            <button 
-              onClick={() => fileInputRef.current?.click()}
-              className="px-10 py-5 bg-indigo-600 text-white rounded-2xl font-black text-sm uppercase tracking-[0.2em] hover:bg-indigo-500 transition-all shadow-xl shadow-indigo-600/20 active:scale-95"
-            >
-              Select File
-            </button>
+            <div className="flex flex-col gap-3">
+              <button 
+                onClick={() => fileInputRef.current?.click()}
+                className="px-10 py-5 bg-indigo-600 text-white rounded-2xl font-black text-sm uppercase tracking-[0.2em] hover:bg-indigo-500 transition-all shadow-xl shadow-indigo-600/20 active:scale-95"
+              >
+                {t('gallery.select')}
+              </button>
+              <button
+                onClick={openCamera}
+                className="px-10 py-4 bg-white/5 border border-white/10 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em] hover:bg-white/10"
+              >
+                {t('gallery.camera')}
+              </button>
+            </div>
           </div>
         ) : (
-          <div className="w-full h-full flex flex-col items-center relative bg-slate-950">
-            {mediaType === 'image' ? (
-              <img src={mediaUrl} alt="Preview" className="w-full h-full object-contain" />
-            ) : (
-              <video src={mediaUrl} controls autoPlay muted playsInline className="w-full h-full object-contain" />
-            )}
+          <div
+            role="region"
+            aria-roledescription={t('gallery.carousel')}
+            aria-label={t('gallery.items')}
+            onKeyDown={handleCarouselKeyDown}
+            className="w-full h-full flex flex-col items-center relative bg-slate-950"
+          >
+            <div
+              key={shownItem.id}
+              role="group"
+              aria-roledescription={t('gallery.slide')}
+              aria-label={t('gallery.itemPosition', { label: shownItem.label, current: focusedItem + 1, total: items.length })}
+              className="w-full h-full"
+            >
+              {shownItem.type === 'image' ? (
+                <img src={shownItem.url} alt={shownItem.label} className="w-full h-full object-contain" />
+              ) : (
+                <video ref={shownVideoRef} src={shownItem.url} controls autoPlay muted playsInline aria-label={shownItem.label} className="w-full h-full object-contain" />
+              )}
+            </div>
+            <span aria-hidden="true" className="absolute top-6 left-6 px-4 py-2 bg-slate-900/80 backdrop-blur-lg rounded-full text-[10px] font-black uppercase tracking-widest text-white">
+              {shownItem.label}
+            </span>
             <button 
-              onClick={() => { setMediaUrl(null); setResult(''); setError(null); }}
+              onClick={removeMedia}
               className="absolute top-6 right-6 p-4 bg-slate-900/80 backdrop-blur-lg rounded-full text-white/50 hover:text-rose-400 transition-colors shadow-2xl z-10"
-              aria-label="Remove media"
+              aria-label={t('gallery.remove')}
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
               </svg>
             </button>
+            <div className="absolute bottom-6 inset-x-6 flex items-center justify-between gap-3">
+              <button
+                onClick={() => focusItem(focusedItem - 1)}
+                disabled={focusedItem === 0}
+                aria-label={t('gallery.previousItem')}
+                className="p-4 bg-slate-900/80 backdrop-blur-lg rounded-full text-white disabled:opacity-30"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={items.length >= MAX_ITEMS}
+                  className="px-4 py-3 bg-slate-900/80 backdrop-blur-lg rounded-2xl text-[10px] font-black uppercase tracking-widest text-white disabled:opacity-30"
+                >
+                  {t('gallery.addFiles')}
+                </button>
+                <button
+                  onClick={openCamera}
+                  disabled={items.length >= MAX_ITEMS}
+                  className="px-4 py-3 bg-slate-900/80 backdrop-blur-lg rounded-2xl text-[10px] font-black uppercase tracking-widest text-white disabled:opacity-30"
+                >
+                  {t('gallery.addPhoto')}
+                </button>
+              </div>
+              <button
+                onClick={() => focusItem(focusedItem + 1)}
+                disabled={focusedItem === items.length - 1}
+                aria-label={t('gallery.nextItem')}
+                className="p-4 bg-slate-900/80 backdrop-blur-lg rounded-full text-white disabled:opacity-30"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            </div>
+            <p aria-live="polite" className="sr-only">{itemAnnouncement}</p>
           </div>
         )}
         <input 
           ref={fileInputRef}
           type="file" 
           accept="image/*,video/*" 
+          multiple
           onChange={handleFileUpload} 
           className="hidden" 
         />
@@ -184,7 +707,7 @@ const GalleryAnalyzer: React.FC<GalleryAnalyzerProps> = ({ onStatusChange }) =>
 
       {/* Interaction Area */}
       <div className="flex flex-col items-center gap-6">
-        {mediaUrl && (
+        {items.length > 0 && !isCameraOn && (
           <div className="w-full flex flex-col items-center gap-6">
             {isProcessing ? (
               <div className="flex flex-col items-center gap-6 py-2">
@@ -202,23 +725,31 @@ const GalleryAnalyzer: React.FC<GalleryAnalyzerProps> = ({ onStatusChange }) =>
                   ))}
                 </div>
               </div>
+            ) : preparingItem ? (
+              <label className="w-full flex flex-col items-center gap-2 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em]">
+                {t('gallery.preparing', { label: preparingItem.label, percent: preparing[preparingItem.id] })}
+                <progress max={100} value={preparing[preparingItem.id]} className="w-full max-w-xs accent-indigo-500" />
+              </label>
             ) : (
-              <p className="text-slate-500 text-[10px] font-black uppercase tracking-[0.3em]">
-                {isRecording ? 'Listening...' : 'Hold Mic to ask Question'}
+              <p className="text-slate-500 text-[10px] font-black uppercase tracking-[0.3em] text-center">
+                {isRecording
+                  ? t('gallery.listening')
+                  : recordMode === 'toggle'
+                    ? t('gallery.tapToAsk', { key: keyLabel(pushToTalkKey) })
+                    : t('gallery.holdToAsk', { key: keyLabel(pushToTalkKey) })}
               </p>
             )}
             
             <button
-              onMouseDown={startRecording}
-              onMouseUp={stopRecording}
-              onMouseLeave={stopRecording}
-              onTouchStart={(e) => { e.preventDefault(); startRecording(); }}
-              onTouchEnd={(e) => { e.preventDefault(); stopRecording(); }}
-              disabled={isProcessing}
+              {...micHandlers}
+              disabled={!canAsk && !isRecording}
+              aria-label={recordMode === 'toggle' ? t('gallery.micToggle') : t('gallery.micButton')}
+              aria-pressed={recordMode === 'toggle' ? isRecording : undefined}
+              aria-keyshortcuts={keyLabel(pushToTalkKey)}
               className={`relative w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 shadow-2xl ${
                 isRecording 
                   ? 'bg-rose-500 scale-110 shadow-rose-500/40' 
-                  : isProcessing 
+                  : isProcessing || preparingItem
                     ? 'bg-slate-800 opacity-40 grayscale' 
                     : 'bg-indigo-600 hover:scale-105 active:scale-95 shadow-indigo-600/40'
               }`}
@@ -234,23 +765,89 @@ const GalleryAnalyzer: React.FC<GalleryAnalyzerProps> = ({ onStatusChange }) =>
                 <div className="absolute inset-[-12px] rounded-full border-4 border-rose-500/20 animate-ping" />
               )}
             </button>
+
+            <form onSubmit={submitTypedQuestion} className="w-full flex gap-3">
+              <label htmlFor="gallery-question" className="sr-only">{t('gallery.typeLabel')}</label>
+              <input
+                id="gallery-question"
+                type="text"
+                value={typedQuestion}
+                onChange={(e) => setTypedQuestion(e.target.value)}
+                placeholder={t('gallery.typePlaceholder')}
+                autoComplete="off"
+                className="flex-1 min-w-0 px-5 py-4 rounded-2xl bg-slate-900 border border-white/10 text-white placeholder-slate-600"
+              />
+              <button
+                type="submit"
+                disabled={!canAsk || !typedQuestion.trim()}
+                className="px-5 py-4 rounded-2xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-[0.2em] hover:bg-indigo-500 disabled:opacity-40"
+              >
+                {t('gallery.ask')}
+              </button>
+            </form>
           </div>
         )}
 
+        <p role="status" aria-live="polite" className="sr-only">{statusAnnouncement}</p>
+
         {error && (
-          <div className="w-full p-5 bg-rose-500/10 border border-rose-500/20 text-rose-300 rounded-[24px] text-center text-xs font-bold animate-in slide-in-from-bottom-2">
+          <div role="alert" className="w-full p-5 bg-rose-500/10 border border-rose-500/20 text-rose-300 rounded-[24px] text-center text-xs font-bold animate-in slide-in-from-bottom-2">
             {error}
           </div>
         )}
 
-        {result && (
-          <div className="w-full p-8 bg-slate-900 border border-white/5 rounded-[40px] text-lg leading-tight animate-in slide-in-from-bottom-8 shadow-2xl overflow-y-auto max-h-56 text-slate-100 font-medium tracking-tight">
-            <div className="mb-3 flex items-center gap-2">
-              <div className="w-1 h-4 bg-indigo-500 rounded-full" />
-              <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">Response</span>
+        {current && (
+          <section
+            aria-label={t('gallery.exchanges')}
+            className="w-full p-8 bg-slate-900 border border-white/5 rounded-[40px] text-lg leading-tight animate-in slide-in-from-bottom-8 shadow-2xl text-slate-100 font-medium tracking-tight"
+          >
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <div className="w-1 h-4 bg-indigo-500 rounded-full" />
+                <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">{t('gallery.response')}</span>
+              </div>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                {t('gallery.position', { current: viewIndex + 1, total: exchanges.length })}
+              </span>
             </div>
-            {result}
-          </div>
+            <div className="overflow-y-auto max-h-60 space-y-2">
+              {current.question && <p className="text-sm text-slate-400">{t('gallery.youAsked', { question: current.question })}</p>}
+              <p lang={current.language}>{current.answer}</p>
+              {current.scene && <SceneList scene={current.scene} />}
+            </div>
+            {current.moments.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {current.moments.map((moment, i) => (
+                  <button
+                    key={`${moment.item}-${moment.seconds}-${i}`}
+                    onClick={() => jumpTo(moment)}
+                    className="px-3 py-2 rounded-xl bg-indigo-600/20 border border-indigo-500/40 text-xs font-bold text-indigo-200 hover:bg-indigo-600/40"
+                  >
+                    {t('gallery.jumpTo', { label: moment.item, time: formatTimestamp(moment.seconds) })}
+                  </button>
+                ))}
+              </div>
+            )}
+            {exchanges.length > 1 && (
+              <div className="mt-4 grid grid-cols-3 gap-3">
+                {[
+                  { label: t('gallery.previous'), key: 'P', onClick: showPrevious, disabled: viewIndex === 0 },
+                  { label: t('gallery.repeat'), key: 'R', onClick: repeatCurrent, disabled: false },
+                  { label: t('gallery.next'), key: 'N', onClick: showNext, disabled: viewIndex === exchanges.length - 1 },
+                ].map(control => (
+                  <button
+                    key={control.key}
+                    onClick={control.onClick}
+                    disabled={control.disabled}
+                    aria-keyshortcuts={control.key}
+                    className="py-3 rounded-2xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-[0.2em] text-slate-200 hover:bg-white/10 disabled:opacity-40"
+                  >
+                    {control.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
         )}
       </div>
     </div>
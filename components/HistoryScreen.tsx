@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TranscriptSession, ExtractedDocument } from '../types.ts';
+import { listSessions, deleteSession, deleteTurn } from '../services/transcriptStore.ts';
+import { speak } from '../utils/speech.ts';
+import { useI18n, MODE_LABELS, formatDateTime } from '../i18n/index.ts';
+
+interface HistoryScreenProps {
+  onClose: () => void;
+  onOpenDocument: (document: ExtractedDocument) => void;
+}
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ onClose, onOpenDocument }) => {
+  const t = useI18n();
+  const [sessions, setSessions] = useState<TranscriptSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    listSessions()
+      .then(setSessions)
+      .catch(() => setError(t('history.unavailable')))
+      .finally(() => setIsLoading(false));
+
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.speechSynthesis.cancel();
+    };
+  }, [onClose]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return sessions.map(session => ({ session, indices: session.turns.map((_, i) => i) }));
+    return sessions
+      .map(session => ({
+        session,
+        indices: session.turns
+          .map((turn, i) => (turn.text.toLowerCase().includes(q) ? i : -1))
+          .filter(i => i >= 0),
+      }))
+      .filter(entry => entry.indices.length > 0);
+  }, [sessions, query]);
+
+  useEffect(() => {
+    if (!query.trim()) return;
+    const count = filtered.reduce((sum, entry) => sum + entry.indices.length, 0);
+    setAnnouncement(count === 1 ? t('history.matchCountOne') : t('history.matchCount', { count }));
+  }, [filtered, query]);
+
+  const replay = (text: string) => {
+    speak(text, { interrupt: true });
+  };
+
+  const handleDeleteTurn = async (session: TranscriptSession, index: number) => {
+    try {
+      const updated = await deleteTurn(session, index);
+      setSessions(prev => updated.turns.length === 0
+        ? prev.filter(s => s.id !== session.id)
+        : prev.map(s => (s.id === session.id ? updated : s)));
+      setAnnouncement(t('history.messageDeleted'));
+    } catch (e) {
+      setAnnouncement(t('history.messageDeleteFailed'));
+    }
+  };
+
+  const handleDeleteSession = async (session: TranscriptSession) => {
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      setAnnouncement(t('history.conversationDeleted'));
+    } catch (e) {
+      setAnnouncement(t('history.conversationDeleteFailed'));
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="history-title"
+      className="fixed inset-0 z-[60] bg-slate-950/95 backdrop-blur-2xl flex flex-col animate-in fade-in duration-300"
+    >
+      <div className="px-6 py-5 flex items-center justify-between border-b border-white/5 shrink-0">
+        <h2 id="history-title" ref={headingRef} tabIndex={-1} className="text-xl font-bold tracking-tight text-white">
+          {t('history.title')}
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-300 hover:text-white"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      <div className="px-6 py-4 shrink-0">
+        <label htmlFor="history-search" className="sr-only">{t('history.searchLabel')}</label>
+        <input
+          id="history-search"
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('history.searchPlaceholder')}
+          className="w-full px-5 py-4 rounded-2xl bg-slate-900 border border-white/10 text-white placeholder-slate-600"
+        />
+      </div>
+
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
+      <div className="flex-1 overflow-y-auto px-6 pb-32 space-y-6">
+        {isLoading && <p className="text-slate-500 text-sm">{t('history.loading')}</p>}
+        {error && <p className="text-rose-300 text-sm font-bold">{error}</p>}
+        {!isLoading && !error && filtered.length === 0 && (
+          <p className="text-slate-500 text-sm">{query ? t('history.noMatches') : t('history.empty')}</p>
+        )}
+
+        {filtered.map(({ session, indices }) => (
+          <section key={session.id} aria-labelledby={`session-${session.id}`} className="rounded-[32px] bg-slate-900/60 border border-white/5 p-5">
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <h3 id={`session-${session.id}`} className="text-sm font-bold text-slate-200">
+                {t(MODE_LABELS[session.mode])} · {formatDateTime(session.startedAt)}
+              </h3>
+              {session.document && (
+                <button
+                  onClick={() => onOpenDocument(session.document!)}
+                  aria-label={t('history.readAgainLabel', { title: session.document.title || t('history.untitledDocument'), time: formatDateTime(session.startedAt) })}
+                  className="text-[10px] font-black uppercase tracking-widest text-indigo-300 hover:text-white"
+                >
+                  {t('history.readAgain')}
+                </button>
+              )}
+              <button
+                onClick={() => handleDeleteSession(session)}
+                aria-label={t('history.deleteAllLabel', { time: formatDateTime(session.startedAt) })}
+                className="text-[10px] font-black uppercase tracking-widest text-rose-400/80 hover:text-rose-300"
+              >
+                {t('history.deleteAll')}
+              </button>
+            </div>
+            <ul className="space-y-3">
+              {indices.map(index => {
+                const turn = session.turns[index];
+                const speaker = turn.type === 'user' ? t('history.you') : t('history.echo');
+                return (
+                  <li key={`${turn.timestamp}-${index}`} className="flex flex-col gap-2">
+                    <p className={turn.type === 'user' ? 'text-slate-400' : 'text-white'}>
+                      <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mr-2">{speaker}</span>
+                      {turn.text}
+                    </p>
+                    <div className="flex gap-3">
+                      {turn.type === 'model' && (
+                        <button
+                          onClick={() => replay(turn.text)}
+                          aria-label={t('history.replayLabel', { text: turn.text.slice(0, 60) })}
+                          className="text-[10px] font-black uppercase tracking-widest text-indigo-300 hover:text-white"
+                        >
+                          {t('history.replay')}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDeleteTurn(session, index)}
+                        aria-label={t(turn.type === 'user' ? 'history.deleteMessageLabel' : 'history.deleteAnswerLabel', { text: turn.text.slice(0, 60) })}
+                        className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-300"
+                      >
+                        {t('history.delete')}
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryScreen;
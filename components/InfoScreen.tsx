@@ -1 +1,218 @@
-// This file has been removed as per the user's request. Onboarding information is now in EchoVision.tsx.
\ No newline at end of file
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { markOnboardingComplete } from '../services/onboarding.ts';
+import { PermissionKind, PermissionStatus, queryPermission, requestPermission } from '../services/permissions.ts';
+import { speak as speakText } from '../utils/speech.ts';
+import { useI18n, MessageKey } from '../i18n/index.ts';
+
+interface InfoScreenProps {
+  onClose: () => void;
+  // First run opens straight into the spoken tutorial
+  startWithTutorial?: boolean;
+}
+
+const TUTORIAL_STEPS: MessageKey[] = [
+  'info.tutorial1', 'info.tutorial2', 'info.tutorial3', 'info.tutorial4',
+  'info.tutorial5', 'info.tutorial6', 'info.tutorial7', 'info.tutorial8',
+];
+
+const CONTROLS: { name: MessageKey; detail: MessageKey }[] = [
+  { name: 'info.control.vision', detail: 'info.control.visionDetail' },
+  { name: 'info.control.mic', detail: 'info.control.micDetail' },
+  { name: 'info.control.search', detail: 'info.control.searchDetail' },
+  { name: 'info.control.capture', detail: 'info.control.captureDetail' },
+  { name: 'info.control.history', detail: 'info.control.historyDetail' },
+  { name: 'info.control.settings', detail: 'info.control.settingsDetail' },
+  { name: 'info.control.help', detail: 'info.control.helpDetail' },
+  { name: 'info.control.escape', detail: 'info.control.escapeDetail' },
+];
+
+const PERMISSIONS: { kind: PermissionKind; label: MessageKey; usage: MessageKey }[] = [
+  { kind: 'camera', label: 'info.permission.camera', usage: 'info.permission.cameraUsage' },
+  { kind: 'microphone', label: 'info.permission.microphone', usage: 'info.permission.microphoneUsage' },
+  { kind: 'geolocation', label: 'info.permission.geolocation', usage: 'info.permission.geolocationUsage' },
+];
+
+const STATUS_LABELS: Record<PermissionStatus, MessageKey> = {
+  granted: 'info.permissionStatus.granted',
+  denied: 'info.permissionStatus.denied',
+  prompt: 'info.permissionStatus.prompt',
+  unknown: 'info.permissionStatus.unknown',
+};
+
+const speak = (text: string) => { speakText(text, { interrupt: true }); };
+
+const InfoScreen: React.FC<InfoScreenProps> = ({ onClose, startWithTutorial = false }) => {
+  const t = useI18n();
+  const [tutorialStep, setTutorialStep] = useState<number | null>(startWithTutorial ? 0 : null);
+  const [permissions, setPermissions] = useState<Record<PermissionKind, PermissionStatus>>({
+    camera: 'unknown',
+    microphone: 'unknown',
+    geolocation: 'unknown',
+  });
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  const refreshPermissions = useCallback(async () => {
+    const entries = await Promise.all(PERMISSIONS.map(async p => [p.kind, await queryPermission(p.kind)] as const));
+    setPermissions(Object.fromEntries(entries) as Record<PermissionKind, PermissionStatus>);
+  }, []);
+
+  const finish = useCallback(() => {
+    window.speechSynthesis.cancel();
+    markOnboardingComplete();
+    onClose();
+  }, [onClose]);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    refreshPermissions();
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') finish(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.speechSynthesis.cancel();
+    };
+  }, [refreshPermissions, finish]);
+
+  useEffect(() => {
+    if (tutorialStep !== null) speak(t(TUTORIAL_STEPS[tutorialStep]));
+  }, [tutorialStep, t]);
+
+  const nextStep = () => {
+    if (tutorialStep === null) return;
+    if (tutorialStep >= TUTORIAL_STEPS.length - 1) {
+      window.speechSynthesis.cancel();
+      markOnboardingComplete();
+      setTutorialStep(null);
+    } else {
+      setTutorialStep(tutorialStep + 1);
+    }
+  };
+
+  const skipTutorial = () => {
+    window.speechSynthesis.cancel();
+    markOnboardingComplete();
+    setTutorialStep(null);
+  };
+
+  const handleRequest = async (kind: PermissionKind) => {
+    const status = await requestPermission(kind);
+    setPermissions(prev => ({ ...prev, [kind]: status }));
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="info-title"
+      className="fixed inset-0 z-[60] bg-slate-950/95 backdrop-blur-2xl flex flex-col animate-in fade-in duration-300"
+    >
+      <div className="px-6 py-5 flex items-center justify-between border-b border-white/5 shrink-0">
+        <h2 id="info-title" ref={headingRef} tabIndex={-1} className="text-xl font-bold tracking-tight text-white">
+          {t('info.title')}
+        </h2>
+        <button
+          onClick={finish}
+          className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-300 hover:text-white"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 pb-32 space-y-8">
+        <section aria-labelledby="tutorial-title" className="rounded-[32px] bg-slate-900/60 border border-white/5 p-6 space-y-4">
+          <h3 id="tutorial-title" className="text-sm font-black uppercase tracking-widest text-indigo-400">{t('info.tutorialTitle')}</h3>
+          {tutorialStep === null ? (
+            <button
+              onClick={() => setTutorialStep(0)}
+              className="px-6 py-4 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em] hover:bg-indigo-500"
+            >
+              {t('info.startTutorial')}
+            </button>
+          ) : (
+            <>
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                {t('info.step', { current: tutorialStep + 1, total: TUTORIAL_STEPS.length })}
+              </p>
+              <p aria-live="polite" className="text-lg text-white leading-snug">{t(TUTORIAL_STEPS[tutorialStep])}</p>
+              <div className="flex gap-3">
+                <button
+                  onClick={nextStep}
+                  className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em] hover:bg-indigo-500"
+                >
+                  {tutorialStep === TUTORIAL_STEPS.length - 1 ? t('info.finish') : t('info.next')}
+                </button>
+                <button
+                  onClick={() => speak(t(TUTORIAL_STEPS[tutorialStep]))}
+                  className="flex-1 py-4 bg-white/5 border border-white/10 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em]"
+                >
+                  {t('info.repeat')}
+                </button>
+                <button
+                  onClick={skipTutorial}
+                  className="flex-1 py-4 bg-white/5 border border-white/10 text-slate-300 rounded-2xl font-black text-xs uppercase tracking-[0.2em]"
+                >
+                  {t('info.skip')}
+                </button>
+              </div>
+            </>
+          )}
+        </section>
+
+        <section aria-labelledby="controls-title" className="space-y-3">
+          <h3 id="controls-title" className="text-sm font-black uppercase tracking-widest text-indigo-400">{t('info.controlsTitle')}</h3>
+          <ul className="space-y-2">
+            {CONTROLS.map(control => (
+              <li key={control.name} className="p-4 rounded-2xl bg-slate-900/50 border border-white/5">
+                <p className="text-sm font-bold text-slate-100">{t(control.name)}</p>
+                <p className="text-xs text-slate-400">{t(control.detail)}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section aria-labelledby="permissions-title" className="space-y-3">
+          <h3 id="permissions-title" className="text-sm font-black uppercase tracking-widest text-indigo-400">{t('info.permissionsTitle')}</h3>
+          <ul className="space-y-2">
+            {PERMISSIONS.map(p => (
+              <li key={p.kind} className="p-4 rounded-2xl bg-slate-900/50 border border-white/5 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-bold text-slate-100">
+                    {t(p.label)}: <span className={permissions[p.kind] === 'granted' ? 'text-emerald-400' : permissions[p.kind] === 'denied' ? 'text-rose-400' : 'text-amber-300'}>
+                      {t(STATUS_LABELS[permissions[p.kind]])}
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-400">{t(p.usage)}</p>
+                </div>
+                {permissions[p.kind] !== 'granted' && (
+                  <button
+                    onClick={() => handleRequest(p.kind)}
+                    aria-label={t('info.allowLabel', { permission: t(p.label) })}
+                    className="shrink-0 px-4 py-2 rounded-xl bg-indigo-600/80 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500"
+                  >
+                    {t('info.allow')}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-500">{t('info.permissionsNote')}</p>
+        </section>
+
+        <section aria-labelledby="privacy-title" className="space-y-3">
+          <h3 id="privacy-title" className="text-sm font-black uppercase tracking-widest text-indigo-400">{t('info.privacyTitle')}</h3>
+          <ul className="space-y-2 text-sm text-slate-300 list-disc pl-5">
+            <li>{t('info.privacyLive')}</li>
+            <li>{t('info.privacyGallery')}</li>
+            <li>{t('info.privacySearch')}</li>
+            <li>{t('info.privacyReader')}</li>
+            <li>{t('info.privacyHistory')}</li>
+            <li>{t('info.privacyLocation')}</li>
+            <li>{t('info.privacyRecording')}</li>
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default InfoScreen;
@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { formatTimestamp } from '../utils/videoFrames.ts';
+import { useI18n } from '../i18n/index.ts';
+
+interface PlaybackControlsProps {
+  media: HTMLVideoElement;
+}
+
+const buttonClass = 'px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-[0.3em] text-slate-300 hover:text-white';
+
+// Play, pause, seek and loop for a video file used as the live input
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ media }) => {
+  const t = useI18n();
+  const [isPaused, setIsPaused] = useState(media.paused);
+  const [time, setTime] = useState(media.currentTime);
+  const [duration, setDuration] = useState(Number.isFinite(media.duration) ? media.duration : 0);
+  const [loop, setLoop] = useState(media.loop);
+
+  useEffect(() => {
+    const sync = () => {
+      setIsPaused(media.paused);
+      setTime(media.currentTime);
+      setDuration(Number.isFinite(media.duration) ? media.duration : 0);
+    };
+    const events = ['play', 'pause', 'ended', 'timeupdate', 'durationchange', 'seeked'];
+    events.forEach(event => media.addEventListener(event, sync));
+    return () => events.forEach(event => media.removeEventListener(event, sync));
+  }, [media]);
+
+  const togglePlay = () => {
+    if (media.paused) media.play().catch(() => {});
+    else media.pause();
+  };
+
+  const toggleLoop = (enabled: boolean) => {
+    media.loop = enabled;
+    setLoop(enabled);
+  };
+
+  return (
+    <div role="group" aria-label={t('live.playbackGroup')} className="-mt-6 w-full flex flex-col gap-3">
+      <div className="flex items-center gap-3">
+        <button onClick={togglePlay} className={buttonClass}>
+          {isPaused ? t('live.playbackPlay') : t('live.playbackPause')}
+        </button>
+        <label className="flex-1 flex items-center gap-3 text-[9px] font-black tracking-[0.2em] text-slate-500">
+          <span className="sr-only">{t('live.playbackPosition')}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={Math.min(time, duration)}
+            disabled={!duration}
+            aria-valuetext={t('live.playbackPositionValue', { time: formatTimestamp(time), duration: formatTimestamp(duration) })}
+            onChange={(e) => { media.currentTime = parseFloat(e.target.value); }}
+            className="flex-1 accent-indigo-500"
+          />
+          <span aria-hidden="true">{formatTimestamp(time)} / {formatTimestamp(duration)}</span>
+        </label>
+      </div>
+      <label className="flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-[0.3em] text-slate-400">
+        <input type="checkbox" checked={loop} onChange={(e) => toggleLoop(e.target.checked)} className="w-4 h-4 accent-indigo-500" />
+        {t('live.playbackLoop')}
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Recording, RecordingEvent, AUDIO_TRACK_RATES, buildAudioTrack, loadRecordingEvents,
+} from '../services/sessionRecorder.ts';
+import { createAudioContext, decodeAudioData } from '../utils/audio.ts';
+import { formatTimestamp } from '../utils/videoFrames.ts';
+import { useI18n } from '../i18n/index.ts';
+
+interface RecordingPlayerProps {
+  recording: Recording;
+  title: string;
+}
+
+interface Line {
+  kind: 'input' | 'output';
+  time: number;
+  text: string;
+}
+
+const buttonClass = 'px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-200 hover:text-white disabled:opacity-40';
+
+// Transcription arrives in fragments; consecutive fragments from the same speaker make one line
+const toLines = (events: RecordingEvent[]) => {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+  events.forEach(event => {
+    if (event.kind === 'input' || event.kind === 'output') {
+      if (current?.kind === event.kind) current.text += event.data ?? '';
+      else lines.push(current = { kind: event.kind, time: event.time, text: event.data ?? '' });
+    } else if (event.kind === 'turnComplete' || event.kind === 'interrupted') {
+      current = null;
+    }
+  });
+  return lines;
+};
+
+// Last item at or before `time`; items are sorted by time
+const latestIndex = <T extends { time: number }>(items: T[], time: number) => {
+  let index = -1;
+  for (let i = 0; i < items.length && items[i].time <= time; i++) index = i;
+  return index;
+};
+
+// Replays a recording with the frames, both audio tracks and the transcript kept in step
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ recording, title }) => {
+  const t = useI18n();
+  const [events, setEvents] = useState<RecordingEvent[] | null>(null);
+  const [error, setError] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Seconds from the start
+  const [position, setPosition] = useState(0);
+  const contextRef = useRef<AudioContext | null>(null);
+  const buffersRef = useRef<AudioBuffer[]>([]);
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  // Context time that corresponds to position 0 while playing
+  const startedAtRef = useRef(0);
+  const frameRequestRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRecordingEvents(recording.id)
+      .then(loaded => {
+        if (cancelled) return;
+        const sorted = loaded.sort((a, b) => a.time - b.time || a.seq - b.seq);
+        const ctx = createAudioContext();
+        contextRef.current = ctx;
+        buffersRef.current = (['mic', 'model'] as const)
+          .map(kind => ({ kind, pcm: buildAudioTrack(sorted, kind) }))
+          .filter(track => track.pcm.length > 0)
+          .map(track => decodeAudioData(track.pcm, ctx, AUDIO_TRACK_RATES[track.kind], 1));
+        setEvents(sorted);
+      })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => {
+      cancelled = true;
+      stopSources();
+      if (frameRequestRef.current !== null) cancelAnimationFrame(frameRequestRef.current);
+      contextRef.current?.close().catch(() => {});
+      contextRef.current = null;
+    };
+  }, [recording.id]);
+
+  const frames = useMemo(() => (events ?? []).filter(event => event.kind === 'frame'), [events]);
+  const lines = useMemo(() => toLines(events ?? []), [events]);
+  const duration = useMemo(() => Math.max(
+    recording.durationMs / 1000,
+    ...(events ?? []).map(event => event.time / 1000),
+    ...buffersRef.current.map(buffer => buffer.duration),
+  ), [events, recording.durationMs]);
+
+  const stopSources = () => {
+    sourcesRef.current.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+    });
+    sourcesRef.current = [];
+  };
+
+  const tick = () => {
+    const ctx = contextRef.current;
+    if (!ctx) return;
+    const next = ctx.currentTime - startedAtRef.current;
+    if (next >= duration) {
+      pause(duration);
+      return;
+    }
+    setPosition(next);
+    frameRequestRef.current = requestAnimationFrame(tick);
+  };
+
+  const play = async (from = position >= duration ? 0 : position) => {
+    const ctx = contextRef.current;
+    if (!ctx) return;
+    await ctx.resume();
+    stopSources();
+    sourcesRef.current = buffersRef.current
+      .filter(buffer => from < buffer.duration)
+      .map(buffer => {
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        source.start(0, from);
+        return source;
+      });
+    startedAtRef.current = ctx.currentTime - from;
+    setPosition(from);
+    setIsPlaying(true);
+    if (frameRequestRef.current !== null) cancelAnimationFrame(frameRequestRef.current);
+    frameRequestRef.current = requestAnimationFrame(tick);
+  };
+
+  const pause = (at?: number) => {
+    const ctx = contextRef.current;
+    stopSources();
+    if (frameRequestRef.current !== null) cancelAnimationFrame(frameRequestRef.current);
+    frameRequestRef.current = null;
+    setIsPlaying(false);
+    if (at !== undefined) setPosition(at);
+    else if (ctx) setPosition(Math.min(duration, ctx.currentTime - startedAtRef.current));
+  };
+
+  const seek = (to: number) => {
+    if (isPlaying) play(to);
+    else setPosition(to);
+  };
+
+  if (error) return <p className="text-rose-300 text-sm font-bold">{t('recordings.loadFailed')}</p>;
+  if (!events) return <p className="text-slate-500 text-sm">{t('recordings.loading')}</p>;
+
+  const frame = frames[latestIndex(frames, position * 1000)];
+  const currentLine = latestIndex(lines, position * 1000);
+
+  return (
+    <div className="space-y-4">
+      <div className="aspect-video rounded-2xl bg-black overflow-hidden border border-white/5 flex items-center justify-center">
+        {frame ? (
+          <img
+            src={`data:image/jpeg;base64,${frame.data}`}
+            alt={t('recordings.frameAlt', { time: formatTimestamp(frame.time / 1000) })}
+            className="w-full h-full object-contain"
+          />
+        ) : (
+          <p className="text-xs text-slate-500">{t('recordings.noFrame')}</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => (isPlaying ? pause() : play())}
+          aria-label={isPlaying ? t('recordings.pauseLabel', { title }) : t('recordings.playLabel', { title })}
+          className={buttonClass}
+        >
+          {isPlaying ? t('recordings.pause') : t('recordings.play')}
+        </button>
+        <label className="flex-1 flex flex-col gap-1 text-xs font-bold text-slate-400">
+          <span className="sr-only">{t('recordings.position')}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={position}
+            aria-valuetext={t('recordings.positionValue', { time: formatTimestamp(position), duration: formatTimestamp(duration) })}
+            onChange={(e) => seek(parseFloat(e.target.value))}
+            className="accent-indigo-500"
+          />
+          <span aria-hidden="true">{formatTimestamp(position)} / {formatTimestamp(duration)}</span>
+        </label>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('recordings.noTranscript')}</p>
+      ) : (
+        <ol className="space-y-2 max-h-60 overflow-y-auto">
+          {lines.map((line, i) => (
+            <li key={i} className={i > currentLine ? 'text-slate-600' : i === currentLine ? 'text-white' : 'text-slate-400'}>
+              <button onClick={() => seek(line.time / 1000)} className="text-left">
+                <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mr-2">
+                  {formatTimestamp(line.time / 1000)} · {line.kind === 'input' ? t('history.you') : t('history.echo')}
+                </span>
+                {line.text}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RecordingPlayer;
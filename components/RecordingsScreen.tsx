@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Recording, listRecordings, deleteRecording, deleteAllRecordings, exportRecording,
+} from '../services/sessionRecorder.ts';
+import { formatTimestamp } from '../utils/videoFrames.ts';
+import RecordingPlayer from './RecordingPlayer.tsx';
+import { useI18n, MODE_LABELS, formatDateTime } from '../i18n/index.ts';
+
+interface RecordingsScreenProps {
+  onClose: () => void;
+}
+
+// Stored as base64, which is a third larger than the media itself
+const formatSize = (bytes: number) => (bytes * 0.75 / (1024 * 1024)).toFixed(1);
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const actionClass = 'text-[10px] font-black uppercase tracking-widest';
+
+// Lists session recordings, plays one back, exports or deletes them
+const RecordingsScreen: React.FC<RecordingsScreenProps> = ({ onClose }) => {
+  const t = useI18n();
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [playing, setPlaying] = useState<Recording | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  const titleOf = (recording: Recording) => `${t(MODE_LABELS[recording.mode])} · ${formatDateTime(recording.startedAt)}`;
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    listRecordings()
+      .then(setRecordings)
+      .catch(() => setError(t('recordings.unavailable')))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || e.defaultPrevented) return;
+      e.preventDefault();
+      onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const handleExport = async (recording: Recording) => {
+    setExportingId(recording.id);
+    setAnnouncement(t('recordings.exporting'));
+    try {
+      const archive = await exportRecording(recording);
+      const stamp = new Date(recording.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      download(archive, `echo-vision-${stamp}.zip`);
+      setAnnouncement(t('recordings.exported'));
+    } catch (e) {
+      setAnnouncement(t('recordings.exportFailed'));
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleDelete = async (recording: Recording) => {
+    try {
+      await deleteRecording(recording.id);
+      setRecordings(prev => prev.filter(r => r.id !== recording.id));
+      if (playing?.id === recording.id) setPlaying(null);
+      setAnnouncement(t('recordings.deleted'));
+    } catch (e) {
+      setAnnouncement(t('recordings.deleteFailed'));
+    }
+  };
+
+  const handleDeleteAll = async () => {
+    try {
+      await deleteAllRecordings();
+      setRecordings([]);
+      setPlaying(null);
+      setAnnouncement(t('recordings.allDeleted'));
+    } catch (e) {
+      setAnnouncement(t('recordings.deleteFailed'));
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="recordings-title"
+      className="fixed inset-0 z-[70] bg-slate-950/95 backdrop-blur-2xl flex flex-col animate-in fade-in duration-300"
+    >
+      <div className="px-6 py-5 flex items-center justify-between border-b border-white/5 shrink-0">
+        <h2 id="recordings-title" ref={headingRef} tabIndex={-1} className="text-xl font-bold tracking-tight text-white">
+          {t('recordings.title')}
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-300 hover:text-white"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 pb-32 space-y-6">
+        {isLoading && <p className="text-slate-500 text-sm">{t('recordings.loading')}</p>}
+        {error && <p className="text-rose-300 text-sm font-bold">{error}</p>}
+        {!isLoading && !error && recordings.length === 0 && (
+          <p className="text-slate-500 text-sm">{t('recordings.empty')}</p>
+        )}
+
+        {recordings.length > 0 && (
+          <button
+            onClick={handleDeleteAll}
+            className="w-full py-4 rounded-2xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-rose-300 hover:text-rose-200"
+          >
+            {t('recordings.deleteAll')}
+          </button>
+        )}
+
+        {recordings.map(recording => {
+          const title = titleOf(recording);
+          return (
+            <section key={recording.id} aria-labelledby={`recording-${recording.id}`} className="rounded-[32px] bg-slate-900/60 border border-white/5 p-5 space-y-4">
+              <div className="space-y-1">
+                <h3 id={`recording-${recording.id}`} className="text-sm font-bold text-slate-200">{title}</h3>
+                <p className="text-xs text-slate-400">
+                  {t('recordings.details', { duration: formatTimestamp(recording.durationMs / 1000), size: formatSize(recording.bytes) })}
+                </p>
+                {!!recording.droppedEvents && <p className="text-xs text-rose-300">{t('recordings.incomplete')}</p>}
+              </div>
+              <div className="flex gap-4">
+                <button
+                  onClick={() => setPlaying(playing?.id === recording.id ? null : recording)}
+                  aria-expanded={playing?.id === recording.id}
+                  aria-label={t(playing?.id === recording.id ? 'recordings.closePlayerLabel' : 'recordings.openPlayerLabel', { title })}
+                  className={`${actionClass} text-indigo-300 hover:text-white`}
+                >
+                  {playing?.id === recording.id ? t('recordings.closePlayer') : t('recordings.openPlayer')}
+                </button>
+                <button
+                  onClick={() => handleExport(recording)}
+                  disabled={exportingId !== null}
+                  aria-label={t('recordings.exportLabel', { title })}
+                  className={`${actionClass} text-indigo-300 hover:text-white disabled:opacity-40`}
+                >
+                  {exportingId === recording.id ? t('recordings.exporting') : t('recordings.export')}
+                </button>
+                <button
+                  onClick={() => handleDelete(recording)}
+                  aria-label={t('recordings.deleteLabel', { title })}
+                  className={`${actionClass} text-rose-400/80 hover:text-rose-300`}
+                >
+                  {t('recordings.delete')}
+                </button>
+              </div>
+              {playing?.id === recording.id && <RecordingPlayer recording={recording} title={title} />}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingsScreen;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { HazardSeverity, Scene } from '../types.ts';
+import { describeSceneObject, sortHazards } from '../utils/scene.ts';
+import { useI18n } from '../i18n/index.ts';
+
+interface SceneListProps {
+  scene: Scene;
+}
+
+const SEVERITY_CLASSES: Record<HazardSeverity, string> = {
+  high: 'bg-rose-600/30 border-rose-500/60 text-rose-100',
+  medium: 'bg-amber-600/20 border-amber-500/50 text-amber-100',
+  low: 'bg-white/5 border-white/10 text-slate-200',
+};
+
+const headingClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+// Hazards in the order they are spoken, then the other objects
+const SceneList: React.FC<SceneListProps> = ({ scene }) => {
+  const t = useI18n();
+  const hazards = sortHazards(scene.hazards);
+
+  return (
+    <div className="mt-3 space-y-3 text-sm">
+      {hazards.length > 0 && (
+        <div className="space-y-2">
+          <h4 className={headingClass}>{t('scene.hazards')}</h4>
+          <ul className="space-y-2">
+            {hazards.map((hazard, i) => (
+              <li key={`${hazard.name}-${i}`} className={`px-3 py-2 rounded-xl border ${SEVERITY_CLASSES[hazard.severity]}`}>
+                <span className="font-black uppercase text-[10px] tracking-widest mr-2">{t(`scene.severity.${hazard.severity}`)}</span>
+                {describeSceneObject(hazard)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {scene.objects.length > 0 && (
+        <div className="space-y-2">
+          <h4 className={headingClass}>{t('scene.objects')}</h4>
+          <ul className="space-y-1 text-slate-300">
+            {scene.objects.map((object, i) => (
+              <li key={`${object.name}-${i}`}>{describeSceneObject(object)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneList;
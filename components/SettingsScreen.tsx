@@ -0,0 +1,662 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { HazardSensitivity, Language, LowDataMode, RecordMode, SpeechRate, Verbosity, VoiceName } from '../types.ts';
+import {
+  Settings, useSettings, updateSettings, resetSettings, VOICES, LANGUAGES,
+  MIN_FRAME_RATE, MAX_FRAME_RATE, MIN_JPEG_QUALITY, MAX_JPEG_QUALITY, MIN_VIDEO_FRAME_INTERVAL, MAX_VIDEO_FRAME_INTERVAL,
+  MIN_RECORDING_RETENTION_DAYS, MAX_RECORDING_RETENTION_DAYS,
+} from '../services/settings.ts';
+import { BargeInMode } from '../utils/audio.ts';
+import { isHapticsSupported, vibrate, directionPattern } from '../utils/haptics.ts';
+import { speak } from '../utils/speech.ts';
+import { RESERVED_KEY_CODES, keyLabel } from '../utils/keyboard.ts';
+import { requestLocationAccess } from '../services/location.ts';
+import { SpatialMode } from '../utils/spatialAudio.ts';
+import SpatialAudioScreen from './SpatialAudioScreen.tsx';
+import RecordingsScreen from './RecordingsScreen.tsx';
+import { pruneRecordings } from '../services/sessionRecorder.ts';
+import { HazardLogEntry, useHazardLog, clearHazardLog } from '../services/hazardAlerts.ts';
+import { describeSceneObject } from '../utils/scene.ts';
+import { Usage, useUsage, getUsageHistory, clearUsageHistory, isMeteredConnection } from '../services/usageMeter.ts';
+import { useI18n, translate } from '../i18n/index.ts';
+
+interface SettingsScreenProps {
+  onClose: () => void;
+}
+
+const SPEECH_RATES: SpeechRate[] = ['slow', 'normal', 'fast'];
+const VERBOSITIES: Verbosity[] = ['brief', 'normal', 'detailed'];
+const BARGE_IN_MODES: BargeInMode[] = ['stop', 'duck'];
+const RECORD_MODES: RecordMode[] = ['hold', 'toggle'];
+const LOW_DATA_MODES: LowDataMode[] = ['off', 'auto', 'on'];
+const HAZARD_SENSITIVITIES: HazardSensitivity[] = ['low', 'medium', 'high'];
+// Alerts listed in Settings; the log itself keeps more
+const HAZARD_LOG_SHOWN = 10;
+const DATA_BUDGETS_MB = [0, 50, 100, 250, 500, 1000, 2000];
+const TOKEN_BUDGETS = [0, 100000, 250000, 500000, 1000000, 5000000];
+// Days before today listed under the totals
+const PAST_DAYS_SHOWN = 6;
+const RETENTION_DAYS = [1, 3, 7, 14, 30].filter(days => days >= MIN_RECORDING_RETENTION_DAYS && days <= MAX_RECORDING_RETENTION_DAYS);
+
+// Budgets from elsewhere (another tab, an older list) still show up as the selected option
+const withCurrent = (values: number[], current: number) =>
+  values.includes(current) ? values : [...values, current].sort((a, b) => a - b);
+
+const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+const minutes = (seconds: number) => (seconds / 60).toFixed(1);
+
+const sectionTitle = 'text-sm font-black uppercase tracking-widest text-indigo-400';
+const card = 'p-4 rounded-2xl bg-slate-900/50 border border-white/5 space-y-4';
+const optionClass = (selected: boolean) =>
+  `flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${selected ? 'bg-indigo-600/20 border-indigo-500/50' : 'bg-white/5 border-white/10'}`;
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
+  const settings = useSettings();
+  const usage = useUsage();
+  const hazardLog = useHazardLog();
+  const t = useI18n();
+  const pastDays = getUsageHistory().slice(0, -1).slice(-PAST_DAYS_SHOWN).reverse();
+  const [announcement, setAnnouncement] = useState('');
+  const [isCapturingKey, setIsCapturingKey] = useState(false);
+  const [locationDenied, setLocationDenied] = useState(false);
+  const [showSpatial, setShowSpatial] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const spatialButtonRef = useRef<HTMLButtonElement>(null);
+  const recordingsButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    // The screens opened on top handle Escape themselves
+    if (showSpatial || showRecordings) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape' && !e.defaultPrevented) onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose, showSpatial, showRecordings]);
+
+  const closeSpatial = useCallback(() => {
+    setShowSpatial(false);
+    spatialButtonRef.current?.focus();
+  }, []);
+
+  const closeRecordings = useCallback(() => {
+    setShowRecordings(false);
+    recordingsButtonRef.current?.focus();
+  }, []);
+
+  // A shorter period applies straight away rather than at the next recorded session
+  const changeRetention = (days: number) => {
+    update({ recordingRetentionDays: days }, t('settings.retentionChanged', { days }));
+    pruneRecordings(days).catch(() => {});
+  };
+
+  const clearHazards = () => {
+    clearHazardLog();
+    setAnnouncement(t('settings.hazardLogCleared'));
+  };
+
+  const resetUsage = () => {
+    clearUsageHistory();
+    setAnnouncement(t('settings.usageResetDone'));
+  };
+
+  const renderUsage = (usage: Usage) => (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+      <dt className="text-slate-400">{t('settings.usageData')}</dt>
+      <dd className="text-slate-100">
+        {t('settings.usageDataValue', { sent: megabytes(usage.bytesSent), received: megabytes(usage.bytesReceived) })}
+      </dd>
+      <dt className="text-slate-400">{t('settings.usageFrames')}</dt>
+      <dd className="text-slate-100">{usage.framesSent}</dd>
+      <dt className="text-slate-400">{t('settings.usageAudio')}</dt>
+      <dd className="text-slate-100">
+        {t('settings.usageAudioValue', { sent: minutes(usage.audioSecondsSent), received: minutes(usage.audioSecondsReceived) })}
+      </dd>
+      <dt className="text-slate-400">{t('settings.usageTokens')}</dt>
+      <dd className="text-slate-100">{usage.tokens}</dd>
+    </dl>
+  );
+
+  const update = (changes: Partial<Settings>, message: string) => {
+    updateSettings(changes);
+    setAnnouncement(message);
+  };
+
+  const captureKey = (e: React.KeyboardEvent) => {
+    if (!isCapturingKey || e.key === 'Tab') return;
+    // Stops Escape from also closing the dialog
+    e.preventDefault();
+    setIsCapturingKey(false);
+    if (e.code === 'Escape') return;
+    if (RESERVED_KEY_CODES.includes(e.code)) {
+      setAnnouncement(t('settings.keyReserved', { key: keyLabel(e.code) }));
+      return;
+    }
+    update({ pushToTalkKey: e.code }, t('settings.keyChanged', { key: keyLabel(e.code) }));
+  };
+
+  // Turning sharing on asks for the permission first, from the same tap
+  const toggleShareLocation = async (enabled: boolean) => {
+    setLocationDenied(false);
+    if (!enabled) {
+      update({ shareLocation: false }, t('settings.shareLocationOff'));
+      return;
+    }
+    if (await requestLocationAccess() === 'denied') {
+      setLocationDenied(true);
+      setAnnouncement(t('settings.locationDenied'));
+      return;
+    }
+    update({ shareLocation: true }, t('settings.shareLocationOn'));
+  };
+
+  const reset = () => {
+    resetSettings();
+    setAnnouncement(t('settings.resetDone'));
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="settings-title"
+      className="fixed inset-0 z-[60] bg-slate-950/95 backdrop-blur-2xl flex flex-col animate-in fade-in duration-300"
+    >
+      <div className="px-6 py-5 flex items-center justify-between border-b border-white/5 shrink-0">
+        <h2 id="settings-title" ref={headingRef} tabIndex={-1} className="text-xl font-bold tracking-tight text-white">
+          {t('settings.title')}
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-300 hover:text-white"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 pb-32 space-y-8">
+        <section aria-labelledby="settings-speech-title" className="space-y-3">
+          <h3 id="settings-speech-title" className={sectionTitle}>{t('settings.speechTitle')}</h3>
+          <div className={card}>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.voice')}
+              <select
+                value={settings.voice}
+                onChange={(e) => update({ voice: e.target.value as VoiceName }, t('settings.voiceChanged', { voice: e.target.value }))}
+                className="px-4 py-3 rounded-xl bg-slate-900 border border-white/10 text-white"
+              >
+                {VOICES.map(voice => (
+                  <option key={voice} value={voice}>{voice} ({t(`settings.voice.${voice}`)})</option>
+                ))}
+              </select>
+            </label>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-bold text-slate-100 mb-2">{t('settings.rate')}</legend>
+              <div className="flex gap-2">
+                {SPEECH_RATES.map(rate => (
+                  <label key={rate} className={`flex-1 justify-center ${optionClass(settings.speechRate === rate)}`}>
+                    <input
+                      type="radio"
+                      name="speech-rate"
+                      value={rate}
+                      checked={settings.speechRate === rate}
+                      onChange={() => update({ speechRate: rate }, t('settings.rateChanged', { rate: t(`settings.rate.${rate}`) }))}
+                      className="accent-indigo-500"
+                    />
+                    <span className="text-sm text-white">{t(`settings.rate.${rate}`)}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-bold text-slate-100 mb-2">{t('settings.verbosity')}</legend>
+              {VERBOSITIES.map(level => (
+                <label key={level} className={optionClass(settings.verbosity === level)}>
+                  <input
+                    type="radio"
+                    name="verbosity"
+                    value={level}
+                    checked={settings.verbosity === level}
+                    onChange={() => update({ verbosity: level }, t('settings.verbosityChanged', { level: t(`settings.verbosity.${level}`) }))}
+                    className="mt-1 accent-indigo-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-white">{t(`settings.verbosity.${level}`)}</span>
+                    <span className="block text-xs text-slate-400">{t(`settings.verbosityDetail.${level}`)}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.language')}
+              <select
+                value={settings.language}
+                onChange={(e) => {
+                  const language = e.target.value as Language;
+                  // Announced in the new language, which is what the screen switches to
+                  update({ language }, translate(language, 'settings.languageChanged', { language: LANGUAGES[language].label }));
+                }}
+                className="px-4 py-3 rounded-xl bg-slate-900 border border-white/10 text-white"
+              >
+                {(Object.keys(LANGUAGES) as Language[]).map(code => (
+                  <option key={code} value={code} lang={code}>{LANGUAGES[code].label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-start justify-between gap-4">
+              <span>
+                <span className="block text-sm font-bold text-slate-100">{t('settings.matchLanguage')}</span>
+                <span className="block text-xs text-slate-400">{t('settings.matchLanguageDetail')}</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={settings.matchSpokenLanguage}
+                onChange={(e) => update(
+                  { matchSpokenLanguage: e.target.checked },
+                  e.target.checked ? t('settings.matchLanguageOn') : t('settings.matchLanguageOff', { language: t('language.name') })
+                )}
+                className="w-6 h-6 shrink-0 accent-indigo-500"
+              />
+            </label>
+
+            <button
+              onClick={() => speak(t('settings.testSpeechText'), { interrupt: true })}
+              className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white"
+            >
+              {t('settings.testSpeech')}
+            </button>
+            <p className="text-xs text-slate-400">{t('settings.applyNote')}</p>
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-interrupt-title" className="space-y-3">
+          <h3 id="settings-interrupt-title" className={sectionTitle}>{t('settings.interruptTitle')}</h3>
+          <fieldset className={card}>
+            <legend className="sr-only">{t('settings.interruptLegend')}</legend>
+            {BARGE_IN_MODES.map(mode => (
+              <label key={mode} className={optionClass(settings.bargeInMode === mode)}>
+                <input
+                  type="radio"
+                  name="barge-in"
+                  value={mode}
+                  checked={settings.bargeInMode === mode}
+                  onChange={() => update({ bargeInMode: mode }, t('settings.bargeInChanged', { behavior: t(`settings.bargeIn.${mode}`) }))}
+                  className="mt-1 accent-indigo-500"
+                />
+                <span>
+                  <span className="block text-sm text-white">{t(`settings.bargeIn.${mode}`)}</span>
+                  <span className="block text-xs text-slate-400">{t(`settings.bargeInDetail.${mode}`)}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+        </section>
+
+        <section aria-labelledby="settings-ask-title" className="space-y-3">
+          <h3 id="settings-ask-title" className={sectionTitle}>{t('settings.askTitle')}</h3>
+          <div className={card}>
+            <fieldset className="space-y-2">
+              <legend className="sr-only">{t('settings.askTitle')}</legend>
+              {RECORD_MODES.map(mode => (
+                <label key={mode} className={optionClass(settings.recordMode === mode)}>
+                  <input
+                    type="radio"
+                    name="record-mode"
+                    value={mode}
+                    checked={settings.recordMode === mode}
+                    onChange={() => update({ recordMode: mode }, t('settings.recordModeChanged', { mode: t(`settings.recordMode.${mode}`) }))}
+                    className="mt-1 accent-indigo-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-white">{t(`settings.recordMode.${mode}`)}</span>
+                    <span className="block text-xs text-slate-400">{t(`settings.recordModeDetail.${mode}`)}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+            <button
+              onClick={() => setIsCapturingKey(true)}
+              onKeyDown={captureKey}
+              onBlur={() => setIsCapturingKey(false)}
+              aria-pressed={isCapturingKey}
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-sm font-bold text-white text-left"
+            >
+              {isCapturingKey ? t('settings.pushToTalkPress') : t('settings.pushToTalkKey', { key: keyLabel(settings.pushToTalkKey) })}
+            </button>
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-camera-title" className="space-y-3">
+          <h3 id="settings-camera-title" className={sectionTitle}>{t('settings.cameraTitle')}</h3>
+          <div className={card}>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.frameRate', { value: settings.frameRate })}
+              <input
+                type="range"
+                min={MIN_FRAME_RATE}
+                max={MAX_FRAME_RATE}
+                step={0.5}
+                value={settings.frameRate}
+                aria-valuetext={t('settings.frameRateValue', { value: settings.frameRate })}
+                onChange={(e) => update({ frameRate: parseFloat(e.target.value) }, '')}
+                className="accent-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.quality', { value: Math.round(settings.jpegQuality * 100) })}
+              <input
+                type="range"
+                min={MIN_JPEG_QUALITY}
+                max={MAX_JPEG_QUALITY}
+                step={0.1}
+                value={settings.jpegQuality}
+                aria-valuetext={t('settings.percent', { value: Math.round(settings.jpegQuality * 100) })}
+                onChange={(e) => update({ jpegQuality: parseFloat(e.target.value) }, '')}
+                className="accent-indigo-500"
+              />
+            </label>
+            <p className="text-xs text-slate-400">{t('settings.cameraNote')}</p>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.videoInterval', { value: settings.videoFrameInterval })}
+              <input
+                type="range"
+                min={MIN_VIDEO_FRAME_INTERVAL}
+                max={MAX_VIDEO_FRAME_INTERVAL}
+                step={1}
+                value={settings.videoFrameInterval}
+                aria-valuetext={t('settings.seconds', { value: settings.videoFrameInterval })}
+                onChange={(e) => update({ videoFrameInterval: parseFloat(e.target.value) }, '')}
+                className="accent-indigo-500"
+              />
+            </label>
+            <p className="text-xs text-slate-400">{t('settings.videoIntervalNote')}</p>
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-haptics-title" className="space-y-3">
+          <h3 id="settings-haptics-title" className={sectionTitle}>{t('settings.vibrationTitle')}</h3>
+          {isHapticsSupported() ? (
+            <div className={card}>
+              <label className="flex items-center justify-between gap-4 text-sm font-bold text-slate-100">
+                {t('settings.vibrationEnabled')}
+                <input
+                  type="checkbox"
+                  checked={settings.haptics.enabled}
+                  onChange={(e) => update(
+                    { haptics: { ...settings.haptics, enabled: e.target.checked } },
+                    e.target.checked ? t('settings.vibrationOn') : t('settings.vibrationOff')
+                  )}
+                  className="w-6 h-6 accent-indigo-500"
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+                {t('settings.strength')}
+                <input
+                  type="range"
+                  min={0.2}
+                  max={1}
+                  step={0.2}
+                  value={settings.haptics.intensity}
+                  disabled={!settings.haptics.enabled}
+                  aria-valuetext={t('settings.percent', { value: Math.round(settings.haptics.intensity * 100) })}
+                  onChange={(e) => update({ haptics: { ...settings.haptics, intensity: parseFloat(e.target.value) } }, '')}
+                  className="accent-indigo-500 disabled:opacity-40"
+                />
+              </label>
+              <button
+                onClick={() => vibrate(directionPattern(3), settings.haptics)}
+                disabled={!settings.haptics.enabled}
+                className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white disabled:opacity-40"
+              >
+                {t('settings.testVibration')}
+              </button>
+              <p className="text-xs text-slate-400">{t('settings.vibrationHelp')}</p>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">{t('settings.vibrationUnsupported')}</p>
+          )}
+        </section>
+
+        <section aria-labelledby="settings-spatial-title" className="space-y-3">
+          <h3 id="settings-spatial-title" className={sectionTitle}>{t('settings.spatialTitle')}</h3>
+          <div className={card}>
+            <p className="text-sm font-bold text-slate-100">
+              {settings.spatialAudio.enabled
+                ? t('settings.spatialOn', { mode: t(`spatial.mode.${settings.spatialAudio.mode as SpatialMode}`) })
+                : t('settings.spatialOff')}
+            </p>
+            <p className="text-xs text-slate-400">{t('settings.spatialDetail')}</p>
+            <button
+              ref={spatialButtonRef}
+              onClick={() => setShowSpatial(true)}
+              className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white"
+            >
+              {t('settings.spatialSetup')}
+            </button>
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-hazard-title" className="space-y-3">
+          <h3 id="settings-hazard-title" className={sectionTitle}>{t('settings.hazardTitle')}</h3>
+          <fieldset className={card}>
+            <legend className="float-left w-full text-sm font-bold text-slate-100">{t('settings.hazardSensitivityLegend')}</legend>
+            {HAZARD_SENSITIVITIES.map(level => (
+              <label key={level} className={optionClass(settings.hazardSensitivity === level)}>
+                <input
+                  type="radio"
+                  name="hazard-sensitivity"
+                  value={level}
+                  checked={settings.hazardSensitivity === level}
+                  onChange={() => update(
+                    { hazardSensitivity: level },
+                    t('settings.hazardSensitivityChanged', { level: t(`settings.hazardSensitivity.${level}`) })
+                  )}
+                  className="mt-1 accent-indigo-500"
+                />
+                <span>
+                  <span className="block text-sm text-white">{t(`settings.hazardSensitivity.${level}`)}</span>
+                  <span className="block text-xs text-slate-400">{t(`settings.hazardSensitivityDetail.${level}`)}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <div className={card}>
+            <h4 className="text-sm font-bold text-slate-100">{t('settings.hazardLog')}</h4>
+            {hazardLog.length === 0 ? (
+              <p className="text-xs text-slate-400">{t('settings.hazardLogEmpty')}</p>
+            ) : (
+              <ul className="text-xs text-slate-400 space-y-1">
+                {hazardLog.slice(0, HAZARD_LOG_SHOWN).map((entry: HazardLogEntry) => (
+                  <li key={`${entry.time}-${entry.hazard.name}`}>
+                    {t('settings.hazardLogEntry', {
+                      time: new Date(entry.time).toLocaleString(),
+                      description: describeSceneObject(entry.hazard),
+                      outcome: t(`settings.hazardOutcome.${entry.outcome}`),
+                    })}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={clearHazards}
+              disabled={hazardLog.length === 0}
+              className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white disabled:opacity-40"
+            >
+              {t('settings.hazardLogClear')}
+            </button>
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-location-title" className="space-y-3">
+          <h3 id="settings-location-title" className={sectionTitle}>{t('settings.locationTitle')}</h3>
+          <div className={card}>
+            <label className="flex items-start justify-between gap-4">
+              <span>
+                <span className="block text-sm font-bold text-slate-100">{t('settings.shareLocation')}</span>
+                <span className="block text-xs text-slate-400">{t('settings.shareLocationDetail')}</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={settings.shareLocation}
+                onChange={(e) => toggleShareLocation(e.target.checked)}
+                className="w-6 h-6 shrink-0 accent-indigo-500"
+              />
+            </label>
+            {locationDenied && <p className="text-xs text-rose-300">{t('settings.locationDenied')}</p>}
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-recording-title" className="space-y-3">
+          <h3 id="settings-recording-title" className={sectionTitle}>{t('settings.recordingTitle')}</h3>
+          <div className={card}>
+            <label className="flex items-start justify-between gap-4">
+              <span>
+                <span className="block text-sm font-bold text-slate-100">{t('settings.recordSessions')}</span>
+                <span className="block text-xs text-slate-400">{t('settings.recordSessionsDetail')}</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={settings.recordSessions}
+                onChange={(e) => update(
+                  { recordSessions: e.target.checked },
+                  e.target.checked ? t('settings.recordSessionsOn') : t('settings.recordSessionsOff')
+                )}
+                className="w-6 h-6 shrink-0 accent-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.retention')}
+              <select
+                value={settings.recordingRetentionDays}
+                onChange={(e) => changeRetention(parseInt(e.target.value, 10))}
+                className="px-4 py-3 rounded-xl bg-slate-900 border border-white/10 text-white"
+              >
+                {RETENTION_DAYS.map(days => (
+                  <option key={days} value={days}>
+                    {days === 1 ? t('settings.retentionOneDay') : t('settings.retentionDays', { days })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              ref={recordingsButtonRef}
+              onClick={() => setShowRecordings(true)}
+              className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white"
+            >
+              {t('settings.openRecordings')}
+            </button>
+          </div>
+        </section>
+
+        <section aria-labelledby="settings-usage-title" className="space-y-3">
+          <h3 id="settings-usage-title" className={sectionTitle}>{t('settings.usageTitle')}</h3>
+          <div className={card}>
+            <h4 className="text-sm font-bold text-slate-100">{t('settings.usageToday')}</h4>
+            {renderUsage(usage.today)}
+            <h4 className="text-sm font-bold text-slate-100">
+              {usage.sessionActive ? t('settings.usageSession') : t('settings.usageLastSession')}
+            </h4>
+            {usage.session ? renderUsage(usage.session) : <p className="text-xs text-slate-400">{t('settings.usageNoSession')}</p>}
+            {pastDays.length > 0 && (
+              <>
+                <h4 className="text-sm font-bold text-slate-100">{t('settings.usagePastDays')}</h4>
+                <ul className="text-xs text-slate-400 space-y-1">
+                  {pastDays.map(({ day, usage: total }) => (
+                    <li key={day}>
+                      {t('settings.usagePastDay', { day, megabytes: megabytes(total.bytesSent + total.bytesReceived), tokens: total.tokens })}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            <button
+              onClick={resetUsage}
+              className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white"
+            >
+              {t('settings.usageReset')}
+            </button>
+          </div>
+          <div className={card}>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.dataBudget')}
+              <select
+                value={settings.dataBudgetMb}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  update({ dataBudgetMb: value }, t('settings.dataBudgetChanged', {
+                    value: value ? t('settings.dataBudgetValue', { value }) : t('settings.budgetNone'),
+                  }));
+                }}
+                className="px-4 py-3 rounded-xl bg-slate-900 border border-white/10 text-white"
+              >
+                {withCurrent(DATA_BUDGETS_MB, settings.dataBudgetMb).map(value => (
+                  <option key={value} value={value}>{value ? t('settings.dataBudgetValue', { value }) : t('settings.budgetNone')}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('settings.tokenBudget')}
+              <select
+                value={settings.tokenBudget}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  update({ tokenBudget: value }, t('settings.tokenBudgetChanged', {
+                    value: value ? t('settings.tokenBudgetValue', { value }) : t('settings.budgetNone'),
+                  }));
+                }}
+                className="px-4 py-3 rounded-xl bg-slate-900 border border-white/10 text-white"
+              >
+                {withCurrent(TOKEN_BUDGETS, settings.tokenBudget).map(value => (
+                  <option key={value} value={value}>{value ? t('settings.tokenBudgetValue', { value }) : t('settings.budgetNone')}</option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-slate-400">{t('settings.budgetNote')}</p>
+          </div>
+          <fieldset className={card}>
+            <legend className="float-left w-full text-sm font-bold text-slate-100">{t('settings.lowDataLegend')}</legend>
+            {LOW_DATA_MODES.map(mode => (
+              <label key={mode} className={optionClass(settings.lowData === mode)}>
+                <input
+                  type="radio"
+                  name="low-data"
+                  value={mode}
+                  checked={settings.lowData === mode}
+                  onChange={() => update({ lowData: mode }, t('settings.lowDataChanged', { mode: t(`settings.lowData.${mode}`) }))}
+                  className="mt-1 accent-indigo-500"
+                />
+                <span>
+                  <span className="block text-sm text-white">{t(`settings.lowData.${mode}`)}</span>
+                  <span className="block text-xs text-slate-400">{t(`settings.lowDataDetail.${mode}`)}</span>
+                </span>
+              </label>
+            ))}
+            {settings.lowData === 'auto' && isMeteredConnection() && (
+              <p className="text-xs text-amber-300">{t('settings.lowDataMetered')}</p>
+            )}
+          </fieldset>
+        </section>
+
+        <button
+          onClick={reset}
+          className="w-full py-4 rounded-2xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-rose-300 hover:text-rose-200"
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+
+      {showSpatial && <SpatialAudioScreen onClose={closeSpatial} />}
+      {showRecordings && <RecordingsScreen onClose={closeRecordings} />}
+    </div>
+  );
+};
+
+export default SettingsScreen;
@@ -1 +1,309 @@
-// Ce fichier a été supprimé car l'option Aide a été remplacée par l'onglet Info.
\ No newline at end of file
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Type } from '@google/genai';
+import { SessionStatus } from '../types.ts';
+import { playSoundCue, playDirectionalCue } from '../utils/soundCues.ts';
+import { captureFrame } from '../utils/frameCapture.ts';
+import { speak as speakText } from '../utils/speech.ts';
+import { vibrate, directionPattern, proximityPattern } from '../utils/haptics.ts';
+import { getBackend } from '../services/backend.ts';
+import { t, useI18n } from '../i18n/index.ts';
+
+interface SmartSearchProps {
+  onStatusChange: (status: SessionStatus) => void;
+  // When set (e.g. from a voice command in Vision mode) the search starts right away
+  initialTarget?: string;
+}
+
+interface SearchObservation {
+  found: boolean;
+  clockPosition?: number;
+  distanceMeters?: number;
+  centered?: boolean;
+}
+
+const SEARCH_INTERVAL_MS = 1200;
+const JPEG_QUALITY = 0.5;
+// Consecutive misses before we announce the target was lost (after having seen it)
+const LOST_AFTER_MISSES = 2;
+// Consecutive misses before we say we cannot find it (never seen), repeated at this cadence
+const NOT_FOUND_AFTER_MISSES = 6;
+// Consecutive failed requests before the search gives up; the wait between them doubles each time
+const MAX_FAILURES = 4;
+
+const OBSERVATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    found: { type: Type.BOOLEAN, description: 'Whether the target object is visible in the frame.' },
+    clockPosition: { type: Type.INTEGER, description: 'Clock-face direction of the target from the camera, 12 is straight ahead, 3 is right, 9 is left.' },
+    distanceMeters: { type: Type.NUMBER, description: 'Estimated distance from the camera to the target in meters.' },
+    centered: { type: Type.BOOLEAN, description: 'True when the target is in the middle third of the frame.' },
+  },
+  required: ['found'],
+};
+
+const describeDistance = (meters?: number) => {
+  if (meters === undefined || Number.isNaN(meters)) return '';
+  if (meters < 0.6) return t('search.distanceReach');
+  if (meters < 1.2) return t('search.distanceArm');
+  if (meters < 3) return t('search.distanceSteps');
+  return t('search.distanceFar');
+};
+
+// Lower is closer to "centered and near": clock deviation from 12 dominates, distance breaks ties.
+const guidanceScore = (obs: SearchObservation) => {
+  const hour = obs.clockPosition ?? 12;
+  const deviation = Math.min(Math.abs(hour % 12), 12 - Math.abs(hour % 12));
+  return deviation + Math.min(obs.distanceMeters ?? 2, 5) * 0.5;
+};
+
+const isClockHour = (hour: unknown): hour is number =>
+  typeof hour === 'number' && Number.isInteger(hour) && hour >= 1 && hour <= 12;
+
+const SmartSearch: React.FC<SmartSearchProps> = ({ onStatusChange, initialTarget }) => {
+  useI18n();
+  const [target, setTarget] = useState(initialTarget ?? '');
+  const [isSearching, setIsSearching] = useState(false);
+  const [lastCue, setLastCue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const loopTimeoutRef = useRef<number | null>(null);
+  const searchingRef = useRef(false);
+  const lastScoreRef = useRef<number | null>(null);
+  const missesRef = useRef(0);
+  const failuresRef = useRef(0);
+  const everFoundRef = useRef(false);
+  // Bumped on every start/stop so a start that resolves late can tell it was superseded
+  const runIdRef = useRef(0);
+
+  const speak = useCallback((text: string) => {
+    setLastCue(text);
+    speakText(text, { interrupt: true });
+  }, []);
+
+  const stopSearch = useCallback((announce = true) => {
+    runIdRef.current += 1;
+    searchingRef.current = false;
+    setIsSearching(false);
+    onStatusChange(SessionStatus.IDLE);
+    if (loopTimeoutRef.current) {
+      window.clearTimeout(loopTimeoutRef.current);
+      loopTimeoutRef.current = null;
+    }
+    const stream = videoRef.current?.srcObject as MediaStream;
+    stream?.getTracks().forEach(track => track.stop());
+    if (videoRef.current) videoRef.current.srcObject = null;
+    if (announce) playSoundCue('stop');
+  }, [onStatusChange]);
+
+  useEffect(() => () => stopSearch(false), [stopSearch]);
+
+  useEffect(() => {
+    if (initialTarget) beginSearch(initialTarget.trim());
+  }, [initialTarget]);
+
+  const handleObservation = (obs: SearchObservation, name: string) => {
+    // Out-of-range directions from the model are dropped rather than signalled
+    if (obs.clockPosition !== undefined && !isClockHour(obs.clockPosition)) obs = { ...obs, clockPosition: undefined };
+    if (!obs.found) {
+      missesRef.current += 1;
+      if (everFoundRef.current && missesRef.current === LOST_AFTER_MISSES) {
+        playSoundCue('lost');
+        speak(t('search.lost', { name }));
+        lastScoreRef.current = null;
+      } else if (!everFoundRef.current && missesRef.current % NOT_FOUND_AFTER_MISSES === 0) {
+        speak(t('search.notFound', { name }));
+      }
+      return;
+    }
+
+    const wasLost = everFoundRef.current && missesRef.current >= LOST_AFTER_MISSES;
+    missesRef.current = 0;
+    everFoundRef.current = true;
+    const distance = describeDistance(obs.distanceMeters);
+
+    if (obs.centered) {
+      playSoundCue('found');
+      speak(distance ? t('search.foundDistance', { name, distance }) : t('search.found', { name }));
+      stopSearch(false);
+      return;
+    }
+
+    const score = guidanceScore(obs);
+    const previous = lastScoreRef.current;
+    lastScoreRef.current = score;
+    const trend = t(wasLost ? 'search.trendAgain' : previous === null ? 'search.trendSee' : score < previous ? 'search.trendWarmer' : score > previous ? 'search.trendColder' : 'search.trendSteady');
+    const parts = [trend];
+    if (obs.clockPosition !== undefined) {
+      parts.push(t('search.clock', { hour: obs.clockPosition }));
+      vibrate(directionPattern(obs.clockPosition));
+      playDirectionalCue(obs.clockPosition);
+    } else if (obs.distanceMeters !== undefined) {
+      vibrate(proximityPattern(obs.distanceMeters));
+    }
+    if (distance) parts.push(distance);
+    speak(parts.join(', ') + '.');
+  };
+
+  const runSearchStep = async (name: string) => {
+    if (!searchingRef.current) return;
+    let delay = SEARCH_INTERVAL_MS;
+    const frame = captureFrame(videoRef.current, canvasRef.current, JPEG_QUALITY);
+    if (frame) {
+      try {
+        const text = await getBackend().generate(
+          [
+            { inlineData: { data: frame, mimeType: 'image/jpeg' } },
+            { text: t('prompt.search', { name }) }
+          ],
+          {
+            responseMimeType: 'application/json',
+            responseSchema: OBSERVATION_SCHEMA,
+          }
+        );
+        if (!searchingRef.current) return;
+        failuresRef.current = 0;
+        handleObservation(JSON.parse(text || '{"found": false}'), name);
+      } catch (err) {
+        if (!searchingRef.current) return;
+        // A failed request says nothing about the target, so it is not a miss. Back off, then give up out loud.
+        failuresRef.current += 1;
+        if (failuresRef.current >= MAX_FAILURES) {
+          stopSearch(false);
+          playSoundCue('error');
+          speak(t('search.failed', { name }));
+          onStatusChange(SessionStatus.ERROR);
+          return;
+        }
+        delay = SEARCH_INTERVAL_MS * 2 ** failuresRef.current;
+      }
+    }
+    if (searchingRef.current) {
+      loopTimeoutRef.current = window.setTimeout(() => runSearchStep(name), delay);
+    }
+  };
+
+  const startSearch = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    beginSearch(target.trim());
+  };
+
+  const beginSearch = async (name: string) => {
+    if (!name) {
+      speak(t('search.needTarget'));
+      return;
+    }
+    setError(null);
+    const runId = ++runIdRef.current;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 640 }, height: { ideal: 480 } }
+      });
+      if (runIdRef.current !== runId) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.setAttribute('playsinline', 'true');
+        videoRef.current.muted = true;
+        await videoRef.current.play();
+      }
+
+      missesRef.current = 0;
+      failuresRef.current = 0;
+      everFoundRef.current = false;
+      lastScoreRef.current = null;
+      searchingRef.current = true;
+      setIsSearching(true);
+      onStatusChange(SessionStatus.SEARCHING);
+      playSoundCue('active');
+      speak(t('search.looking', { name }));
+
+      loopTimeoutRef.current = window.setTimeout(() => runSearchStep(name), SEARCH_INTERVAL_MS);
+    } catch (err: any) {
+      playSoundCue('error');
+      setError(err.message || t('common.cameraDenied'));
+      onStatusChange(SessionStatus.ERROR);
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center bg-slate-950 overflow-hidden relative">
+      <div className={`fixed inset-0 transition-all duration-1000 pointer-events-none ${isSearching ? 'opacity-40 scale-100 blur-sm' : 'opacity-0 scale-110 blur-xl'}`}>
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        <div className="absolute inset-0 bg-gradient-to-b from-slate-950 via-slate-950/20 to-slate-950" />
+        <canvas ref={canvasRef} className="hidden" />
+      </div>
+
+      <div className="z-20 flex flex-col items-center gap-8 w-full px-10 text-center max-w-xl pb-32">
+        {!isSearching && (
+          <div className="space-y-2 animate-in fade-in slide-in-from-bottom-12 duration-1000">
+            <h2 className="text-4xl font-extrabold text-white tracking-tight">
+              {t('search.title')} <span className="bg-gradient-to-r from-indigo-400 to-cyan-400 bg-clip-text text-transparent">{t('search.titleObject')}</span>
+            </h2>
+            <p className="text-slate-400 text-base font-medium leading-relaxed max-w-sm mx-auto">
+              {t('search.intro')}
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={startSearch} className="w-full flex flex-col gap-4">
+          <label htmlFor="search-target" className="sr-only">{t('search.inputLabel')}</label>
+          <input
+            id="search-target"
+            type="text"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            disabled={isSearching}
+            placeholder={t('search.placeholder')}
+            autoComplete="off"
+            className="w-full px-6 py-5 rounded-3xl bg-slate-900/80 border border-white/10 text-lg text-white placeholder-slate-600 disabled:opacity-50"
+          />
+        </form>
+
+        {isSearching && (
+          <div
+            role="status"
+            aria-live="polite"
+            className="w-full min-h-[120px] bg-slate-900/80 backdrop-blur-3xl rounded-[40px] p-8 border border-white/10 flex items-center justify-center shadow-2xl animate-in zoom-in-95 duration-500 relative overflow-hidden"
+          >
+            <div className="absolute top-0 left-0 w-1 h-full bg-cyan-400 animate-pulse" />
+            <p className="text-2xl font-semibold text-white/95 leading-tight tracking-tight">
+              {lastCue || t('search.scanning')}
+            </p>
+          </div>
+        )}
+
+        <button
+          onClick={() => (isSearching ? stopSearch() : startSearch())}
+          className={`relative w-44 h-44 rounded-full flex flex-col items-center justify-center transition-all duration-700 shadow-2xl active:scale-90 text-white ${
+            isSearching
+              ? 'bg-rose-500 border-[12px] border-rose-400/20'
+              : 'bg-indigo-600 border-[12px] border-indigo-500/20 hover:bg-indigo-500 hover:shadow-indigo-500/40'
+          }`}
+        >
+          <svg className="w-10 h-10 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <span className="text-[10px] font-black uppercase tracking-[0.3em]">
+            {isSearching ? t('search.stop') : t('search.start')}
+          </span>
+        </button>
+
+        {!isSearching && lastCue && (
+          <p role="status" className="text-slate-400 text-sm font-medium">{lastCue}</p>
+        )}
+
+        {error && (
+          <div className="p-6 bg-rose-500/10 border border-rose-500/20 rounded-3xl text-rose-200 text-sm font-bold animate-in slide-in-from-bottom-4">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SmartSearch;
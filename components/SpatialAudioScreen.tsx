@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useSettings, updateSettings } from '../services/settings.ts';
+import { SpatialAudioSettings, SpatialMode, isHrtfSupported } from '../utils/spatialAudio.ts';
+import { playDirectionalCue } from '../utils/soundCues.ts';
+import { createAudioContext } from '../utils/audio.ts';
+import { useI18n } from '../i18n/index.ts';
+
+interface SpatialAudioScreenProps {
+  onClose: () => void;
+}
+
+const SPATIAL_MODES: SpatialMode[] = ['hrtf', 'stereo'];
+// Clockwise from straight ahead, the order of the sweep
+const CLOCK_HOURS = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const SWEEP_STEP_MS = 450;
+// The side check plays from the right ear; hearing it on the left means the sides are swapped
+const CHECK_HOUR = 3;
+
+const sectionTitle = 'text-sm font-black uppercase tracking-widest text-indigo-400';
+const card = 'p-4 rounded-2xl bg-slate-900/50 border border-white/5 space-y-4';
+const buttonClass = 'px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-200 hover:text-white disabled:opacity-40';
+const optionClass = (selected: boolean) =>
+  `flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${selected ? 'bg-indigo-600/20 border-indigo-500/50' : 'bg-white/5 border-white/10'}`;
+
+// Calibration and test for spatial audio: turn it on, pick the panning style, make sure left and
+// right aren't swapped, and try every clock direction.
+const SpatialAudioScreen: React.FC<SpatialAudioScreenProps> = ({ onClose }) => {
+  const { spatialAudio } = useSettings();
+  const t = useI18n();
+  const [announcement, setAnnouncement] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [hrtfAvailable, setHrtfAvailable] = useState(true);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const sweepTimersRef = useRef<number[]>([]);
+
+  const audioContext = () => {
+    if (!contextRef.current) contextRef.current = createAudioContext();
+    return contextRef.current;
+  };
+
+  const stopSweep = () => {
+    sweepTimersRef.current.forEach(timer => window.clearTimeout(timer));
+    sweepTimersRef.current = [];
+  };
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    setHrtfAvailable(isHrtfSupported(audioContext()));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || e.defaultPrevented) return;
+      e.preventDefault();
+      onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      stopSweep();
+      contextRef.current?.close().catch(() => {});
+      contextRef.current = null;
+    };
+  }, [onClose]);
+
+  const update = (changes: Partial<SpatialAudioSettings>, message: string) => {
+    updateSettings({ spatialAudio: { ...spatialAudio, ...changes } });
+    setAnnouncement(message);
+  };
+
+  const play = (hour: number) => {
+    playDirectionalCue(hour, audioContext());
+    setAnnouncement(t('spatial.playing', { hour }));
+  };
+
+  const sweep = () => {
+    stopSweep();
+    setAnnouncement(t('spatial.sweeping'));
+    sweepTimersRef.current = CLOCK_HOURS.map((hour, i) =>
+      window.setTimeout(() => playDirectionalCue(hour, audioContext()), i * SWEEP_STEP_MS)
+    );
+  };
+
+  const startSideCheck = () => {
+    stopSweep();
+    playDirectionalCue(CHECK_HOUR, audioContext());
+    setIsChecking(true);
+    setAnnouncement(t('spatial.checkQuestion'));
+  };
+
+  const answerSideCheck = (heardOnRight: boolean) => {
+    setIsChecking(false);
+    if (heardOnRight) setAnnouncement(t('spatial.checkOk'));
+    else update({ swapSides: !spatialAudio.swapSides }, t('spatial.checkSwapped'));
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="spatial-title"
+      className="fixed inset-0 z-[70] bg-slate-950/95 backdrop-blur-2xl flex flex-col animate-in fade-in duration-300"
+    >
+      <div className="px-6 py-5 flex items-center justify-between border-b border-white/5 shrink-0">
+        <h2 id="spatial-title" ref={headingRef} tabIndex={-1} className="text-xl font-bold tracking-tight text-white">
+          {t('spatial.title')}
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-xs font-black uppercase tracking-widest text-slate-300 hover:text-white"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 pb-32 space-y-8">
+        <p className="text-sm text-slate-300">{t('spatial.intro')}</p>
+
+        <div className={card}>
+          <label className="flex items-start justify-between gap-4">
+            <span>
+              <span className="block text-sm font-bold text-slate-100">{t('spatial.enabled')}</span>
+              <span className="block text-xs text-slate-400">{t('spatial.enabledDetail')}</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={spatialAudio.enabled}
+              onChange={(e) => update({ enabled: e.target.checked }, e.target.checked ? t('spatial.on') : t('spatial.off'))}
+              className="w-6 h-6 shrink-0 accent-indigo-500"
+            />
+          </label>
+        </div>
+
+        <section aria-labelledby="spatial-mode-title" className="space-y-3">
+          <h3 id="spatial-mode-title" className={sectionTitle}>{t('spatial.modeTitle')}</h3>
+          <fieldset className={card} disabled={!spatialAudio.enabled}>
+            <legend className="sr-only">{t('spatial.modeTitle')}</legend>
+            {SPATIAL_MODES.map(mode => (
+              <label key={mode} className={optionClass(spatialAudio.mode === mode)}>
+                <input
+                  type="radio"
+                  name="spatial-mode"
+                  value={mode}
+                  checked={spatialAudio.mode === mode}
+                  onChange={() => update({ mode }, t('spatial.modeChanged', { mode: t(`spatial.mode.${mode}`) }))}
+                  className="mt-1 accent-indigo-500"
+                />
+                <span>
+                  <span className="block text-sm text-white">{t(`spatial.mode.${mode}`)}</span>
+                  <span className="block text-xs text-slate-400">{t(`spatial.modeDetail.${mode}`)}</span>
+                </span>
+              </label>
+            ))}
+            {!hrtfAvailable && <p className="text-xs text-amber-300">{t('spatial.hrtfUnavailable')}</p>}
+          </fieldset>
+        </section>
+
+        <section aria-labelledby="spatial-calibrate-title" className="space-y-3">
+          <h3 id="spatial-calibrate-title" className={sectionTitle}>{t('spatial.calibrateTitle')}</h3>
+          <div className={card}>
+            <p className="text-xs text-slate-400">{t('spatial.checkIntro')}</p>
+            {isChecking ? (
+              <div className="space-y-3">
+                <p className="text-sm font-bold text-white">{t('spatial.checkQuestion')}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <button onClick={() => answerSideCheck(false)} className={buttonClass}>{t('spatial.left')}</button>
+                  <button onClick={() => answerSideCheck(true)} className={buttonClass}>{t('spatial.right')}</button>
+                </div>
+              </div>
+            ) : (
+              <button onClick={startSideCheck} disabled={!spatialAudio.enabled} className={`w-full ${buttonClass}`}>
+                {t('spatial.checkStart')}
+              </button>
+            )}
+            <label className="flex items-center justify-between gap-4 text-sm font-bold text-slate-100">
+              {t('spatial.swapSides')}
+              <input
+                type="checkbox"
+                checked={spatialAudio.swapSides}
+                disabled={!spatialAudio.enabled}
+                onChange={(e) => update({ swapSides: e.target.checked }, e.target.checked ? t('spatial.swapOn') : t('spatial.swapOff'))}
+                className="w-6 h-6 accent-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm font-bold text-slate-100">
+              {t('spatial.width')}
+              <input
+                type="range"
+                min={0.2}
+                max={1}
+                step={0.2}
+                value={spatialAudio.width}
+                disabled={!spatialAudio.enabled}
+                aria-valuetext={t('settings.percent', { value: Math.round(spatialAudio.width * 100) })}
+                onChange={(e) => update({ width: parseFloat(e.target.value) }, '')}
+                className="accent-indigo-500 disabled:opacity-40"
+              />
+            </label>
+          </div>
+        </section>
+
+        <section aria-labelledby="spatial-test-title" className="space-y-3">
+          <h3 id="spatial-test-title" className={sectionTitle}>{t('spatial.testTitle')}</h3>
+          <div className={card}>
+            <div role="group" aria-label={t('spatial.clockGroup')} className="grid grid-cols-4 gap-2">
+              {CLOCK_HOURS.map(hour => (
+                <button key={hour} onClick={() => play(hour)} disabled={!spatialAudio.enabled} className={buttonClass}>
+                  {t('spatial.hour', { hour })}
+                </button>
+              ))}
+            </div>
+            <button onClick={sweep} disabled={!spatialAudio.enabled} className={`w-full ${buttonClass}`}>
+              {t('spatial.sweep')}
+            </button>
+            {!spatialAudio.enabled && <p className="text-xs text-slate-500">{t('spatial.enableToTest')}</p>}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SpatialAudioScreen;
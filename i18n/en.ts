@@ -0,0 +1,521 @@
+// Source catalog. Other languages are typed against it, so a missing or misspelled key fails the type check.
+// Placeholders are written {name} and filled in by t().
+export const en = {
+  'language.name': 'English',
+
+  'common.close': 'Close',
+  'common.retry': 'Retry',
+  'common.cameraDenied': 'Camera access denied.',
+
+  'status.IDLE': 'Idle',
+  'status.CONNECTING': 'Connecting',
+  'status.RECONNECTING': 'Reconnecting',
+  'status.ACTIVE': 'Active',
+  'status.ERROR': 'Error',
+  'status.ANALYZING': 'Analyzing',
+  'status.SEARCHING': 'Searching',
+
+  'mode.LIVE': 'Vision',
+  'mode.GALLERY': 'Media',
+  'mode.SEARCH': 'Find',
+  'mode.READ': 'Read',
+
+  'app.history': 'Conversation History',
+  'app.settings': 'Settings',
+  'app.help': 'Help and Info',
+  'app.modes': 'Modes',
+
+  'live.greeting': "Hi, I'm",
+  'live.intro': "Point your camera and tap below. I'll describe the world around you in real-time.",
+  'live.awarenessTitle': 'Object Awareness',
+  'live.awarenessDetail': "Know what's in front of you instantly.",
+  'live.navigationTitle': 'Safe Navigation',
+  'live.navigationDetail': 'Detect obstacles and changing paths.',
+  'live.reconnectingText': 'Reconnecting...',
+  'live.looking': 'Looking at your surroundings...',
+  'live.endOfAnswer': 'End of answer',
+  'live.interrupted': 'Interrupted',
+  'live.frameStats': '{sent}/{captured} frames sent • {kb} KB',
+  'live.lowData': 'Low data',
+  'live.interruptLabel': 'When I talk over Echo: {behavior}. Tap to change.',
+  'live.interruptStopBehavior': 'stop speaking',
+  'live.interruptDuckBehavior': 'lower its volume',
+  'live.interruptButton': 'Interrupt: {mode}',
+  'live.interruptStop': 'Stop',
+  'live.interruptDuck': 'Duck',
+  'live.stop': 'Stop Assistant',
+  'live.start': 'Initialize',
+  'live.footer': 'Ready to assist • 100% Privacy',
+  'live.connectionLost': 'Connection lost. Reconnecting.',
+  'live.backOnline': 'Back online.',
+  'live.gaveUp': 'I could not reconnect. The assistant has stopped.',
+  'live.connectionLostTitle': 'Connection Lost',
+  'live.connectionLostDetail': 'Check your network and try again.',
+  'live.connectFailedTitle': 'Could Not Connect',
+  'live.accessDeniedTitle': 'Access Denied',
+  'live.accessDeniedDetail': 'Please enable permissions.',
+  'live.sourceFailedTitle': 'Input Unavailable',
+  'live.sourceFailedDetail': 'Could not start the chosen input.',
+  'live.sourceTitle': 'Input',
+  'live.source.camera': 'Camera',
+  'live.source.file': 'Video file',
+  'live.source.pattern': 'Test pattern',
+  'live.sourceFileHint': 'Choose a video to use instead of the camera. Its sound is used instead of the microphone.',
+  'live.sourceFileChosen': 'Using {name}',
+  'live.playbackGroup': 'Video playback',
+  'live.playbackPlay': 'Play',
+  'live.playbackPause': 'Pause',
+  'live.playbackPosition': 'Video position',
+  'live.playbackPositionValue': '{time} of {duration}',
+  'live.playbackLoop': 'Loop',
+
+  'prompt.live': 'You are Echo-Vision, a real-time visual assistant for the visually impaired. Analyze the video feed and describe obstacles, text, and important changes concisely. IMPORTANT: NEVER use Markdown formatting like asterisks (**) in your spoken responses. Use plain text only.',
+  'prompt.live.directions': "Give directions as clock positions around the user, such as \"at 3 o'clock\" for straight to the right, and distances in meters or steps.",
+  'prompt.live.tools': 'Use the provided tools when the user asks you to repeat yourself, change how you speak, change the camera rate, stop, switch modes, find an object or says where they are.',
+  'prompt.live.hazards': 'When you see something that could hurt the user right now, such as stairs or a drop, approaching traffic or an obstacle in their path, call report_hazard at once, before describing anything else.',
+  'prompt.language': 'Speak directly in {language}.',
+  'prompt.matchLanguage': 'Always reply in the language the user speaks to you in. Until they speak, use {language}.',
+  'prompt.verbosity.brief': 'Keep every answer to one short sentence.',
+  'prompt.verbosity.detailed': 'Give thorough, detailed descriptions.',
+  'prompt.rate.slow': 'Speak slowly and clearly.',
+  'prompt.rate.fast': 'Speak quickly.',
+  'prompt.location': 'Context update, do not reply to it: {context}',
+  'prompt.gallery': 'Transcribe the spoken question, then analyze the content and answer the question {detail} for a visually impaired user. Plain text only, no markdown.',
+  'prompt.gallery.typed': 'The user typed this question: "{question}". Analyze the content and answer it {detail} for a visually impaired user. Plain text only, no markdown.',
+  'prompt.gallery.language': 'Write the answer in {language}.',
+  'prompt.gallery.matchLanguage': 'Write the answer in the language the question was asked in, and report that language.',
+  'prompt.gallery.labels': 'Each image or video is introduced by its label, such as "image 1". Refer to items by these labels, especially when comparing them.',
+  'prompt.gallery.moments': 'Large videos are sent as keyframes, each preceded by its label and timestamp, followed by the audio track when available. When the answer refers to a moment in a video, give its timestamp as m:ss, for example "at 0:42", and list it in moments.',
+  'prompt.gallery.scene': 'When the question is about what can be seen, also fill scene: every hazard to someone walking with its severity, and the main objects, each with its clock-face direction from the camera, its estimated distance and any readable text. Mention the most serious hazards in the answer too.',
+  'prompt.gallery.followUp': 'Earlier questions and answers in this conversation are about the same media; use them to understand follow-up questions.',
+  'prompt.gallery.location': "The user's current location, which may help if the media was taken here: {context}",
+  'prompt.detail.brief': 'in one short sentence',
+  'prompt.detail.normal': 'concisely',
+  'prompt.detail.detailed': 'in thorough detail',
+  'prompt.search': 'Locate "{name}" in this camera frame for a visually impaired user holding the phone. Report whether it is visible, its clock-face direction relative to the camera, its distance, and whether it is centered.',
+  'prompt.reader': 'Extract all readable text from this document photo for a visually impaired user. Preserve the structure as headings, paragraphs, lists and tables, in reading order. Transcribe exactly; do not summarize or translate. Plain text only, no markdown.',
+  'location.near': 'You are near {place}.',
+  'location.nearFacing': 'You are near {place}, facing {direction}.',
+  'location.at': 'You are at latitude {latitude}, longitude {longitude}.',
+  'location.atFacing': 'You are at latitude {latitude}, longitude {longitude}, facing {direction}.',
+  'location.facing': 'You are facing {direction}.',
+  'location.direction.n': 'north',
+  'location.direction.ne': 'north-east',
+  'location.direction.e': 'east',
+  'location.direction.se': 'south-east',
+  'location.direction.s': 'south',
+  'location.direction.sw': 'south-west',
+  'location.direction.w': 'west',
+  'location.direction.nw': 'north-west',
+  'scene.hazards': 'Hazards',
+  'scene.objects': 'Objects',
+  'scene.severity.high': 'Danger',
+  'scene.severity.medium': 'Caution',
+  'scene.severity.low': 'Note',
+  'scene.clock': "at {hour} o'clock",
+  'scene.distance': 'about {meters} meters away',
+  'scene.reads': 'reads "{text}"',
+  'hazard.warning': 'Warning: {description}.',
+
+  'gallery.fileTooLarge': 'File too large (max {max}MB).',
+  'gallery.ready': 'Ready. Hold the button to ask a question.',
+  'gallery.micDenied': 'Microphone access denied.',
+  'gallery.noAnswer': "I couldn't process that.",
+  'gallery.failed': 'Analysis failed. Please try again.',
+  'gallery.title': 'Media Assistant',
+  'gallery.subtitle': 'Ask about up to {count} photos or videos\nphotos up to {max}MB, videos up to {videoMax}MB',
+  'gallery.select': 'Select Files',
+  'gallery.preview': 'Preview',
+  'gallery.remove': 'Remove media',
+  'gallery.listening': 'Listening...',
+  'gallery.holdToAsk': 'Hold Mic or {key} to ask a Question',
+  'gallery.micButton': 'Hold to ask a question',
+  'gallery.tapToAsk': 'Tap Mic or press {key} to start and stop',
+  'gallery.micToggle': 'Record a question',
+  'gallery.analyzing': 'Analyzing...',
+  'gallery.typeLabel': 'Type a question',
+  'gallery.typePlaceholder': 'Or type a question',
+  'gallery.ask': 'Ask',
+  'gallery.response': 'Response',
+  'gallery.exchanges': 'Questions and answers',
+  'gallery.position': 'Answer {current} of {total}',
+  'gallery.youAsked': 'You asked: {question}',
+  'gallery.previous': 'Previous',
+  'gallery.next': 'Next',
+  'gallery.repeat': 'Repeat',
+  'gallery.first': 'This is the first answer.',
+  'gallery.last': 'This is the latest answer.',
+  'gallery.noAnswers': 'No answers yet. Hold the button to ask a question.',
+  'gallery.tooMany': 'Up to {max} items at a time.',
+  'gallery.label.image': 'image {number}',
+  'gallery.label.video': 'video {number}',
+  'gallery.added': 'Added {labels}.',
+  'gallery.camera': 'Take Photos',
+  'gallery.cameraReady': 'Point the camera at the first item and tap Take Photo. Tap Done when you have them all.',
+  'gallery.takePhoto': 'Take Photo',
+  'gallery.doneCapturing': 'Done ({count})',
+  'gallery.photoAdded': '{label} added.',
+  'gallery.captureFailed': "Couldn't take the photo. Try again.",
+  'gallery.addFiles': 'Add Files',
+  'gallery.addPhoto': 'Add Photo',
+  'gallery.carousel': 'carousel',
+  'gallery.slide': 'item',
+  'gallery.items': 'Selected media',
+  'gallery.itemPosition': '{label}, {current} of {total}',
+  'gallery.previousItem': 'Previous item',
+  'gallery.nextItem': 'Next item',
+  'gallery.preparingStart': "{label} is large, so I'm picking out keyframes. This can take a minute.",
+  'gallery.preparing': 'Preparing {label}... {percent}%',
+  'gallery.videoReady': '{label} is ready, {count} keyframes.',
+  'gallery.videoFailed': "Couldn't read {label}. Try a shorter clip.",
+  'gallery.jumpTo': 'Go to {time} in {label}',
+  'gallery.jumped': '{label} at {time}',
+
+  'search.distanceReach': 'within reach',
+  'search.distanceArm': "about an arm's length",
+  'search.distanceSteps': 'a couple of steps away',
+  'search.distanceFar': 'several steps away',
+  'search.lost': "I've lost track of the {name}. Pan back slowly.",
+  'search.notFound': "I can't find the {name} yet. Turn slowly or move the camera higher.",
+  'search.failed': "I can't reach the vision service, so I've stopped looking for the {name}.",
+  'search.found': 'Got it. The {name} is straight ahead.',
+  'search.foundDistance': 'Got it. The {name} is straight ahead, {distance}.',
+  'search.trendAgain': 'Found it again',
+  'search.trendSee': 'I see it',
+  'search.trendWarmer': 'Warmer',
+  'search.trendColder': 'Colder',
+  'search.trendSteady': 'Steady',
+  'search.clock': "{hour} o'clock",
+  'search.needTarget': 'Tell me what to look for first.',
+  'search.looking': 'Looking for {name}. Sweep the camera slowly.',
+  'search.title': 'Find my',
+  'search.titleObject': 'object',
+  'search.intro': "Name what you're looking for. I'll guide you with clock directions until it's right in front of you.",
+  'search.inputLabel': 'Object to find',
+  'search.placeholder': 'e.g. my blue mug',
+  'search.scanning': 'Scanning...',
+  'search.start': 'Start Search',
+  'search.stop': 'Stop Search',
+
+  'reader.headingPrefix': 'Heading.',
+  'reader.tablePrefix': 'Table.',
+  'reader.row': 'Row {number}',
+  'reader.space': 'space',
+  'reader.end': 'End of document.',
+  'reader.hold': 'Hold the document flat, about 30 centimeters away, then tap Capture.',
+  'reader.reading': 'Reading. Hold still.',
+  'reader.noText': "I couldn't find any text. Try again with more light, or move the camera closer.",
+  'reader.failed': 'Reading failed. Please try again.',
+  'reader.saveFailed': "This document couldn't be saved, so it won't be in your history.",
+  'reader.last': 'This is the last section.',
+  'reader.first': 'This is the first section.',
+  'reader.noNumbers': 'There are no numbers in this section.',
+  'reader.previous': 'Previous',
+  'reader.repeat': 'Repeat',
+  'reader.next': 'Next',
+  'reader.spell': 'Spell that',
+  'reader.numbers': 'Numbers only',
+  'reader.pause': 'Pause',
+  'reader.readOn': 'Read on',
+  'reader.title': 'Document Reader',
+  'reader.subtitle': 'Letters, prescriptions, menus\nread aloud section by section',
+  'reader.openCamera': 'Open Camera',
+  'reader.sections': 'Document sections',
+  'reader.capture': 'Capture',
+  'reader.section': 'Section {current} of {total}',
+  'reader.newCapture': 'New Capture',
+
+  'history.title': 'History',
+  'history.searchLabel': 'Search history',
+  'history.searchPlaceholder': 'Search past answers',
+  'history.loading': 'Loading...',
+  'history.unavailable': 'History is unavailable in this browser.',
+  'history.saveFailed': "This conversation couldn't be saved to your history.",
+  'history.noMatches': 'No matching messages.',
+  'history.empty': 'No conversations yet.',
+  'history.matchCountOne': '1 matching message.',
+  'history.matchCount': '{count} matching messages.',
+  'history.messageDeleted': 'Message deleted.',
+  'history.messageDeleteFailed': 'Could not delete that message.',
+  'history.conversationDeleted': 'Conversation deleted.',
+  'history.conversationDeleteFailed': 'Could not delete that conversation.',
+  'history.readAgain': 'Read again',
+  'history.readAgainLabel': 'Read again: {title} from {time}',
+  'history.untitledDocument': 'document',
+  'history.deleteAll': 'Delete all',
+  'history.deleteAllLabel': 'Delete conversation from {time}',
+  'history.you': 'You',
+  'history.echo': 'Echo',
+  'history.replay': 'Replay',
+  'history.replayLabel': 'Replay answer: {text}',
+  'history.delete': 'Delete',
+  'history.deleteMessageLabel': 'Delete your message: {text}',
+  'history.deleteAnswerLabel': 'Delete answer: {text}',
+
+  'settings.title': 'Settings',
+  'settings.speechTitle': 'Voice and Speech',
+  'settings.voice': "Echo's voice",
+  'settings.voiceChanged': 'Voice set to {voice}.',
+  'settings.voice.Kore': 'Firm, mid-range',
+  'settings.voice.Aoede': 'Breezy, higher',
+  'settings.voice.Leda': 'Youthful, higher',
+  'settings.voice.Zephyr': 'Bright, higher',
+  'settings.voice.Puck': 'Upbeat, mid-range',
+  'settings.voice.Charon': 'Informative, lower',
+  'settings.voice.Fenrir': 'Excitable, lower',
+  'settings.voice.Orus': 'Firm, lower',
+  'settings.rate': 'Speech rate',
+  'settings.rate.slow': 'Slow',
+  'settings.rate.normal': 'Normal',
+  'settings.rate.fast': 'Fast',
+  'settings.rateChanged': 'Speech rate {rate}.',
+  'settings.verbosity': 'Amount of detail',
+  'settings.verbosity.brief': 'Brief',
+  'settings.verbosity.normal': 'Normal',
+  'settings.verbosity.detailed': 'Detailed',
+  'settings.verbosityDetail.brief': 'One short sentence per answer.',
+  'settings.verbosityDetail.normal': 'Concise descriptions.',
+  'settings.verbosityDetail.detailed': 'Thorough descriptions.',
+  'settings.verbosityChanged': 'Detail level {level}.',
+  'settings.language': 'Language',
+  'settings.languageChanged': 'Language set to {language}.',
+  'settings.matchLanguage': 'Answer in the language I spoke',
+  'settings.matchLanguageDetail': 'Echo replies in whatever language you ask in. Menus and prompts stay in the language above.',
+  'settings.matchLanguageOn': 'Echo will answer in the language you speak.',
+  'settings.matchLanguageOff': 'Echo will always answer in {language}.',
+  'settings.testSpeech': 'Test speech',
+  'settings.testSpeechText': 'This is how spoken prompts will sound.',
+  'settings.applyNote': "Changes apply from Echo's next answer. A running Vision session switches over between answers.",
+  'settings.interruptTitle': 'Talking Over Echo',
+  'settings.interruptLegend': 'When I talk over Echo',
+  'settings.bargeIn.stop': 'Stop speaking',
+  'settings.bargeIn.duck': 'Lower volume',
+  'settings.bargeInDetail.stop': 'Echo stops as soon as you talk.',
+  'settings.bargeInDetail.duck': 'Echo keeps talking, quieter, while you speak.',
+  'settings.bargeInChanged': 'When you talk, Echo will: {behavior}.',
+  'settings.askTitle': 'Asking in Media Mode',
+  'settings.recordMode.hold': 'Hold to record',
+  'settings.recordModeDetail.hold': 'Records while the mic button or key is held down.',
+  'settings.recordMode.toggle': 'Tap to start and stop',
+  'settings.recordModeDetail.toggle': 'Tap once to start recording and again to send. Works well with switch access.',
+  'settings.recordModeChanged': 'Recording: {mode}.',
+  'settings.pushToTalkKey': 'Push-to-talk key: {key}',
+  'settings.pushToTalkPress': 'Press a key, or Escape to cancel',
+  'settings.keyChanged': 'Push-to-talk key set to {key}.',
+  'settings.keyReserved': '{key} is already used for navigation. Choose another key.',
+  'settings.cameraTitle': 'Camera',
+  'settings.frameRate': 'Frames per second: {value}',
+  'settings.frameRateValue': '{value} frames per second',
+  'settings.quality': 'Image quality: {value}%',
+  'settings.percent': '{value} percent',
+  'settings.cameraNote': 'Higher values react faster and read small text better, but use more data.',
+  'settings.videoInterval': 'Video keyframe every {value} s',
+  'settings.seconds': '{value} seconds',
+  'settings.videoIntervalNote': 'Media mode turns large videos into keyframes at this interval, plus one at every scene change.',
+  'settings.vibrationTitle': 'Vibration',
+  'settings.vibrationEnabled': 'Vibrate for directions and alerts',
+  'settings.vibrationOn': 'Vibration on.',
+  'settings.vibrationOff': 'Vibration off.',
+  'settings.strength': 'Strength',
+  'settings.testVibration': "Test: 3 o'clock",
+  'settings.vibrationHelp': 'Short pulses mean the right side, long pulses the left; more pulses means further from straight ahead. One long buzz is straight ahead. Fast pulses mean something is close.',
+  'settings.vibrationUnsupported': "This device doesn't support vibration. Sound cues are used instead.",
+  'settings.spatialTitle': 'Spatial audio',
+  'settings.spatialOn': 'On: {mode}',
+  'settings.spatialOff': 'Off',
+  'settings.spatialDetail': "With headphones, Echo's voice and a short ping come from the side it is talking about, so 3 o'clock sounds on your right.",
+  'settings.spatialSetup': 'Set up and test',
+  'settings.locationTitle': 'Location',
+  'settings.shareLocation': 'Share my location',
+  'settings.shareLocationDetail': 'Tells Echo where you are and which way you face, so Vision and Media answers can use it and you can ask "where am I?". While this is off, your location is never read or sent.',
+  'settings.shareLocationOn': 'Location sharing on.',
+  'settings.shareLocationOff': 'Location sharing off. Your location will not be sent.',
+  'settings.locationDenied': 'Location access was denied. Allow it in your browser settings to share your location.',
+  'spatial.title': 'Spatial audio',
+  'spatial.intro': "Put on headphones. Directions such as \"at 3 o'clock\" will then come from that side, with a short ping to mark them.",
+  'spatial.enabled': 'Use spatial audio',
+  'spatial.enabledDetail': 'Applies in Vision mode, to Find mode cues and to hazards in Media answers.',
+  'spatial.on': 'Spatial audio on.',
+  'spatial.off': 'Spatial audio off.',
+  'spatial.modeTitle': 'Style',
+  'spatial.mode.hrtf': '3D sound',
+  'spatial.mode.stereo': 'Left and right only',
+  'spatial.modeDetail.hrtf': 'Sounds seem to come from around your head, including ahead and behind.',
+  'spatial.modeDetail.stereo': 'Simple panning between your ears. Easier to tell apart for some people.',
+  'spatial.modeChanged': 'Style: {mode}.',
+  'spatial.hrtfUnavailable': "This browser doesn't support 3D sound, so left and right panning is used.",
+  'spatial.calibrateTitle': 'Calibrate',
+  'spatial.checkIntro': 'Check that your headphones are the right way round. A ping will play from the right.',
+  'spatial.checkStart': 'Play side check',
+  'spatial.checkQuestion': 'Which ear did the ping come from?',
+  'spatial.left': 'Left',
+  'spatial.right': 'Right',
+  'spatial.checkOk': 'Your headphones are set up correctly.',
+  'spatial.checkSwapped': 'Left and right have been swapped to match your headphones.',
+  'spatial.swapSides': 'Swap left and right',
+  'spatial.swapOn': 'Left and right swapped.',
+  'spatial.swapOff': 'Left and right normal.',
+  'spatial.width': 'How far to the side',
+  'spatial.testTitle': 'Test directions',
+  'spatial.clockGroup': 'Clock directions',
+  'spatial.hour': "{hour} o'clock",
+  'spatial.playing': "Playing {hour} o'clock.",
+  'spatial.sweep': 'Play all around',
+  'spatial.sweeping': "Playing every direction, clockwise from 12 o'clock.",
+  'spatial.enableToTest': 'Turn on spatial audio to test it.',
+  'settings.recordingTitle': 'Session recording',
+  'settings.recordSessions': 'Record Vision sessions',
+  'settings.recordSessionsDetail': 'Keeps a copy of what Echo saw, heard and said on this device, so you or a helper can replay it later. Nothing is uploaded unless you export it.',
+  'settings.recordSessionsOn': 'Session recording on. Vision sessions will be kept on this device.',
+  'settings.recordSessionsOff': 'Session recording off.',
+  'settings.retention': 'Keep recordings for',
+  'settings.retentionOneDay': '1 day',
+  'settings.retentionDays': '{days} days',
+  'settings.retentionChanged': 'Recordings are kept for {days} days.',
+  'settings.openRecordings': 'Recordings',
+  'recordings.title': 'Recordings',
+  'recordings.loading': 'Loading...',
+  'recordings.unavailable': 'Recordings are unavailable in this browser.',
+  'recordings.empty': 'No recordings yet.',
+  'recordings.details': '{duration} long, about {size} MB',
+  'recordings.incomplete': 'Incomplete: part of this session could not be saved.',
+  'recordings.openPlayer': 'Play',
+  'recordings.openPlayerLabel': 'Play recording from {title}',
+  'recordings.closePlayer': 'Hide player',
+  'recordings.closePlayerLabel': 'Hide player for {title}',
+  'recordings.export': 'Export',
+  'recordings.exportLabel': 'Export recording from {title}',
+  'recordings.exporting': 'Exporting...',
+  'recordings.exported': 'Recording exported.',
+  'recordings.exportFailed': 'Could not export that recording.',
+  'recordings.delete': 'Delete',
+  'recordings.deleteLabel': 'Delete recording from {title}',
+  'recordings.deleted': 'Recording deleted.',
+  'recordings.deleteFailed': 'Could not delete the recording.',
+  'recordings.deleteAll': 'Delete all recordings',
+  'recordings.allDeleted': 'All recordings deleted.',
+  'recordings.loadFailed': 'Could not load this recording.',
+  'recordings.noFrame': 'No camera frame yet.',
+  'recordings.frameAlt': 'Camera frame at {time}',
+  'recordings.play': 'Play',
+  'recordings.pause': 'Pause',
+  'recordings.playLabel': 'Play {title}',
+  'recordings.pauseLabel': 'Pause {title}',
+  'recordings.position': 'Position',
+  'recordings.positionValue': '{time} of {duration}',
+  'recordings.noTranscript': 'No speech was transcribed.',
+  'settings.usageTitle': 'Data usage',
+  'settings.usageToday': 'Today',
+  'settings.usageSession': 'This session',
+  'settings.usageLastSession': 'Last session',
+  'settings.usageNoSession': 'No Vision session yet.',
+  'settings.usageData': 'Data',
+  'settings.usageDataValue': '{sent} MB sent, {received} MB received',
+  'settings.usageFrames': 'Frames sent',
+  'settings.usageAudio': 'Audio',
+  'settings.usageAudioValue': '{sent} min sent, {received} min received',
+  'settings.usageTokens': 'Tokens',
+  'settings.usagePastDays': 'Earlier days',
+  'settings.usagePastDay': '{day}: {megabytes} MB, {tokens} tokens',
+  'settings.usageReset': 'Reset usage counters',
+  'settings.usageResetDone': 'Usage counters reset.',
+  'settings.dataBudget': 'Daily data budget',
+  'settings.tokenBudget': 'Daily token budget',
+  'settings.budgetNone': 'No budget',
+  'settings.dataBudgetValue': '{value} MB',
+  'settings.tokenBudgetValue': '{value} tokens',
+  'settings.dataBudgetChanged': 'Daily data budget: {value}.',
+  'settings.tokenBudgetChanged': 'Daily token budget: {value}.',
+  'settings.budgetNote': 'Echo tells you when you have used 80% of a budget and again when you reach it. Nothing is cut off.',
+  'settings.lowDataLegend': 'Low-data mode',
+  'settings.lowData.off': 'Off',
+  'settings.lowData.auto': 'On metered connections',
+  'settings.lowData.on': 'Always on',
+  'settings.lowDataDetail.off': 'Stream at the rate and quality set above.',
+  'settings.lowDataDetail.auto': 'Turns on when the browser reports Data Saver or a cellular connection.',
+  'settings.lowDataDetail.on': 'Fewer, smaller frames and less audio while nobody is speaking.',
+  'settings.lowDataChanged': 'Low-data mode: {mode}.',
+  'settings.lowDataMetered': 'Your connection is metered right now, so low-data mode is on.',
+  'settings.hazardTitle': 'Hazard alerts',
+  'settings.hazardSensitivityLegend': 'Alarm sensitivity',
+  'settings.hazardSensitivity.low': 'Low',
+  'settings.hazardSensitivity.medium': 'Medium',
+  'settings.hazardSensitivity.high': 'High',
+  'settings.hazardSensitivityDetail.low': 'Only the most urgent hazards sound the alarm.',
+  'settings.hazardSensitivityDetail.medium': 'Urgent and moderate hazards sound the alarm.',
+  'settings.hazardSensitivityDetail.high': 'Every hazard sounds the alarm, even minor ones.',
+  'settings.hazardSensitivityChanged': 'Alarm sensitivity: {level}.',
+  'settings.hazardLog': 'Recent alerts',
+  'settings.hazardLogEmpty': 'No hazards reported yet.',
+  'settings.hazardLogEntry': '{time}: {description} ({outcome})',
+  'settings.hazardOutcome.alerted': 'alarm',
+  'settings.hazardOutcome.duplicate': 'already warned',
+  'settings.hazardOutcome.ignored': 'below sensitivity',
+  'settings.hazardLogClear': 'Clear alert log',
+  'settings.hazardLogCleared': 'Alert log cleared.',
+  'usage.budget.data': 'your daily data budget',
+  'usage.budget.tokens': 'your daily token budget',
+  'usage.budgetNear': 'You have used {percent}% of {what}.',
+  'usage.budgetReached': 'You have reached {what}.',
+  'settings.reset': 'Restore Defaults',
+  'settings.resetDone': 'All settings restored to defaults.',
+
+  'info.title': 'Help and Info',
+  'info.tutorialTitle': 'Spoken Tutorial',
+  'info.startTutorial': 'Start Tutorial',
+  'info.step': 'Step {current} of {total}',
+  'info.next': 'Next',
+  'info.finish': 'Finish',
+  'info.repeat': 'Repeat',
+  'info.skip': 'Skip',
+  'info.tutorial1': "Welcome to Echo Vision. I'll walk you through the app. Use Next to continue, Repeat to hear a step again, or Skip to close the tutorial.",
+  'info.tutorial2': 'At the bottom of the screen there are four modes: Vision, Media, Find and Read. Vision is selected when the app opens.',
+  'info.tutorial3': "In Vision mode, tap the large button in the middle of the screen to start the assistant. Point your phone's camera ahead of you and I'll describe obstacles, text and changes around you. You can ask questions out loud at any time.",
+  'info.tutorial4': 'Tap the same button again to stop. A falling tone means the assistant has stopped; a low buzz means something went wrong.',
+  'info.tutorial5': 'In Media mode, select one or more photos or videos from your device, or take several photos in a row. Then press and hold the microphone button, ask your question, and release. I will read the answer aloud. You can ask follow-up questions and compare items by name, like image 1 and image 2.',
+  'info.tutorial6': "In Find mode, type the name of an object, like my keys, and start the search. I'll guide you with clock directions until it's in front of you, then play a bright chime.",
+  'info.tutorial7': 'In Read mode, hold a page, letter or label in front of the camera and press Capture. I will read it section by section. Use Next, Previous and Repeat to move around, Spell That to hear a word letter by letter, or Numbers Only for amounts and dates.',
+  'info.tutorial8': 'The clock button at the top opens your conversation history, the gear button opens settings for voice, speech rate, language and vibration, and the help button opens this screen again. That is the end of the tutorial.',
+  'info.controlsTitle': 'Gestures and Controls',
+  'info.control.vision': 'Vision button',
+  'info.control.visionDetail': 'Tap to start or stop the live assistant.',
+  'info.control.mic': 'Microphone button (Media)',
+  'info.control.micDetail': 'Press and hold to ask a question about the selected items, release to send. The push-to-talk key (M by default) works the same way, Settings can switch both to tap to start and stop, and you can also type a question.',
+  'info.control.search': 'Start Search (Find)',
+  'info.control.searchDetail': 'Begins guiding you to the object you typed. Tap again to stop.',
+  'info.control.capture': 'Capture button (Read)',
+  'info.control.captureDetail': 'Takes a sharp photo of a document and reads it aloud. Keys: N next, P previous, R repeat, S spell, D numbers, Space pause.',
+  'info.control.history': 'History button',
+  'info.control.historyDetail': 'Browse, replay, search or delete past answers, or read a saved document again.',
+  'info.control.settings': 'Settings button',
+  'info.control.settingsDetail': 'Voice, speech rate, detail level, language, camera and vibration.',
+  'info.control.help': 'Help button',
+  'info.control.helpDetail': 'Opens this screen and the tutorial.',
+  'info.control.escape': 'Escape key',
+  'info.control.escapeDetail': 'Closes any open overlay.',
+  'info.permissionsTitle': 'Permissions',
+  'info.permission.camera': 'Camera',
+  'info.permission.cameraUsage': 'Needed for Vision, Find and Read modes.',
+  'info.permission.microphone': 'Microphone',
+  'info.permission.microphoneUsage': 'Needed to ask questions by voice.',
+  'info.permission.geolocation': 'Location',
+  'info.permission.geolocationUsage': 'Optional. Used only while "Share my location" is on in Settings.',
+  'info.permissionStatus.granted': 'Allowed',
+  'info.permissionStatus.denied': 'Blocked',
+  'info.permissionStatus.prompt': 'Not asked yet',
+  'info.permissionStatus.unknown': 'Unknown',
+  'info.allow': 'Allow',
+  'info.allowLabel': 'Request {permission} permission',
+  'info.permissionsNote': "If a permission is blocked, the browser won't ask again. Re-enable it from your browser's site settings.",
+  'info.privacyTitle': 'Privacy',
+  'info.privacyLive': "While Vision mode is running, camera frames (about one or two per second) and your microphone audio are streamed to Google's Gemini model. Nothing is sent when it is stopped.",
+  'info.privacyGallery': 'In Media mode, each file or photo is uploaded when you add it and deleted when you remove it. Your recorded question is sent only when you ask.',
+  'info.privacySearch': 'In Find mode, camera frames and the name of the object are sent while the search is running.',
+  'info.privacyReader': 'In Read mode, one photo is sent each time you capture a page. The extracted text is saved in your history on this device.',
+  'info.privacyHistory': 'Conversation history is stored only on this device, and you can delete it at any time from the History screen.',
+  'info.privacyLocation': 'Your location is sent only while "Share my location" is on in Settings: to Vision mode when it changes, and with each Media question. Place names are looked up on this device.',
+  'info.privacyRecording': 'Session recordings exist only while "Record Vision sessions" is on. They stay on this device, are deleted after the period you choose, and leave it only when you export them.',
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, string>;
@@ -0,0 +1,518 @@
+import { Catalog } from './en.ts';
+
+export const es: Catalog = {
+  'language.name': 'español',
+
+  'common.close': 'Cerrar',
+  'common.retry': 'Reintentar',
+  'common.cameraDenied': 'Acceso a la cámara denegado.',
+
+  'status.IDLE': 'En espera',
+  'status.CONNECTING': 'Conectando',
+  'status.RECONNECTING': 'Reconectando',
+  'status.ACTIVE': 'Activo',
+  'status.ERROR': 'Error',
+  'status.ANALYZING': 'Analizando',
+  'status.SEARCHING': 'Buscando',
+
+  'mode.LIVE': 'Visión',
+  'mode.GALLERY': 'Medios',
+  'mode.SEARCH': 'Buscar',
+  'mode.READ': 'Leer',
+
+  'app.history': 'Historial de conversaciones',
+  'app.settings': 'Ajustes',
+  'app.help': 'Ayuda e información',
+  'app.modes': 'Modos',
+
+  'live.greeting': 'Hola, soy',
+  'live.intro': 'Apunta con la cámara y toca abajo. Te describiré el mundo a tu alrededor en tiempo real.',
+  'live.awarenessTitle': 'Reconocimiento de objetos',
+  'live.awarenessDetail': 'Sabe al instante qué tienes delante.',
+  'live.navigationTitle': 'Desplazamiento seguro',
+  'live.navigationDetail': 'Detecta obstáculos y cambios en el camino.',
+  'live.reconnectingText': 'Reconectando...',
+  'live.looking': 'Observando lo que te rodea...',
+  'live.endOfAnswer': 'Fin de la respuesta',
+  'live.interrupted': 'Interrumpido',
+  'live.frameStats': '{sent}/{captured} imágenes enviadas • {kb} KB',
+  'live.lowData': 'Pocos datos',
+  'live.interruptLabel': 'Cuando hablo encima de Echo: {behavior}. Toca para cambiar.',
+  'live.interruptStopBehavior': 'deja de hablar',
+  'live.interruptDuckBehavior': 'baja el volumen',
+  'live.interruptButton': 'Interrupción: {mode}',
+  'live.interruptStop': 'Parar',
+  'live.interruptDuck': 'Atenuar',
+  'live.stop': 'Detener asistente',
+  'live.start': 'Iniciar',
+  'live.footer': 'Listo para ayudar • 100 % privado',
+  'live.connectionLost': 'Conexión perdida. Reconectando.',
+  'live.backOnline': 'Conectado de nuevo.',
+  'live.gaveUp': 'No pude reconectar. El asistente se ha detenido.',
+  'live.connectionLostTitle': 'Conexión perdida',
+  'live.connectionLostDetail': 'Comprueba tu red e inténtalo de nuevo.',
+  'live.connectFailedTitle': 'No se pudo conectar',
+  'live.accessDeniedTitle': 'Acceso denegado',
+  'live.accessDeniedDetail': 'Activa los permisos.',
+  'live.sourceFailedTitle': 'Fuente no disponible',
+  'live.sourceFailedDetail': 'No se pudo iniciar la fuente elegida.',
+  'live.sourceTitle': 'Fuente',
+  'live.source.camera': 'Cámara',
+  'live.source.file': 'Archivo de vídeo',
+  'live.source.pattern': 'Patrón de prueba',
+  'live.sourceFileHint': 'Elige un vídeo para usarlo en lugar de la cámara. Su sonido sustituye al micrófono.',
+  'live.sourceFileChosen': 'Vídeo: {name}',
+  'live.playbackGroup': 'Reproducción del vídeo',
+  'live.playbackPlay': 'Reproducir',
+  'live.playbackPause': 'Pausa',
+  'live.playbackPosition': 'Posición del vídeo',
+  'live.playbackPositionValue': '{time} de {duration}',
+  'live.playbackLoop': 'En bucle',
+
+  'prompt.live': 'Eres Echo-Vision, un asistente visual en tiempo real para personas con discapacidad visual. Analiza el vídeo y describe de forma concisa los obstáculos, el texto y los cambios importantes. IMPORTANTE: NUNCA uses formato Markdown como asteriscos (**) en tus respuestas habladas. Usa solo texto plano.',
+  'prompt.live.directions': 'Indica las direcciones como posiciones de reloj alrededor del usuario, por ejemplo «a las 3» para justo a la derecha, y las distancias en metros o pasos.',
+  'prompt.live.tools': 'Usa las herramientas disponibles cuando el usuario te pida repetir, cambiar tu forma de hablar, cambiar la frecuencia de la cámara, parar, cambiar de modo, encontrar un objeto o decirle dónde está.',
+  'prompt.live.hazards': 'Cuando veas algo que pueda hacer daño al usuario ahora mismo, como escaleras o un desnivel, tráfico que se acerca o un obstáculo en su camino, llama a report_hazard de inmediato, antes de describir nada más.',
+  'prompt.language': 'Habla directamente en {language}.',
+  'prompt.matchLanguage': 'Responde siempre en el idioma en que te hable el usuario. Hasta que hable, usa el {language}.',
+  'prompt.verbosity.brief': 'Limita cada respuesta a una frase corta.',
+  'prompt.verbosity.detailed': 'Da descripciones completas y detalladas.',
+  'prompt.rate.slow': 'Habla despacio y con claridad.',
+  'prompt.rate.fast': 'Habla rápido.',
+  'prompt.location': 'Actualización de contexto, no respondas: {context}',
+  'prompt.gallery': 'Transcribe la pregunta hablada, luego analiza el contenido y responde a la pregunta {detail} para una persona con discapacidad visual. Solo texto plano, sin markdown.',
+  'prompt.gallery.typed': 'El usuario escribió esta pregunta: «{question}». Analiza el contenido y respóndela {detail} para una persona con discapacidad visual. Solo texto plano, sin markdown.',
+  'prompt.gallery.language': 'Escribe la respuesta en {language}.',
+  'prompt.gallery.matchLanguage': 'Escribe la respuesta en el idioma en que se hizo la pregunta, e indica ese idioma.',
+  'prompt.gallery.labels': 'Cada imagen o vídeo va precedido de su etiqueta, por ejemplo «imagen 1». Refiérete a los elementos con esas etiquetas, sobre todo al compararlos.',
+  'prompt.gallery.moments': 'Los vídeos grandes se envían como fotogramas clave, cada uno precedido de su etiqueta y su marca de tiempo, seguidos de la pista de audio si existe. Cuando la respuesta se refiera a un momento de un vídeo, da su marca de tiempo como m:ss, por ejemplo «en el 0:42», e inclúyelo en moments.',
+  'prompt.gallery.scene': 'Cuando la pregunta trate de lo que se ve, rellena también scene: cada peligro para alguien que camina con su gravedad, y los objetos principales, cada uno con su dirección en horas de reloj desde la cámara, su distancia estimada y cualquier texto legible. Menciona también en la respuesta los peligros más graves.',
+  'prompt.gallery.followUp': 'Las preguntas y respuestas anteriores de esta conversación tratan sobre el mismo archivo; úsalas para entender las preguntas de seguimiento.',
+  'prompt.gallery.location': 'Ubicación actual del usuario, útil si el contenido se tomó aquí: {context}',
+  'prompt.detail.brief': 'en una frase corta',
+  'prompt.detail.normal': 'de forma concisa',
+  'prompt.detail.detailed': 'con todo detalle',
+  'prompt.search': 'Localiza «{name}» en esta imagen de la cámara para una persona con discapacidad visual que sostiene el teléfono. Indica si es visible, su dirección según la esfera de un reloj respecto a la cámara, su distancia y si está centrado.',
+  'prompt.reader': 'Extrae todo el texto legible de esta foto de un documento para una persona con discapacidad visual. Conserva la estructura en títulos, párrafos, listas y tablas, en orden de lectura. Transcribe exactamente; no resumas ni traduzcas. Solo texto plano, sin markdown.',
+  'location.near': 'Estás cerca de {place}.',
+  'location.nearFacing': 'Estás cerca de {place}, mirando al {direction}.',
+  'location.at': 'Estás en la latitud {latitude}, longitud {longitude}.',
+  'location.atFacing': 'Estás en la latitud {latitude}, longitud {longitude}, mirando al {direction}.',
+  'location.facing': 'Estás mirando al {direction}.',
+  'location.direction.n': 'norte',
+  'location.direction.ne': 'noreste',
+  'location.direction.e': 'este',
+  'location.direction.se': 'sureste',
+  'location.direction.s': 'sur',
+  'location.direction.sw': 'suroeste',
+  'location.direction.w': 'oeste',
+  'location.direction.nw': 'noroeste',
+  'scene.hazards': 'Peligros',
+  'scene.objects': 'Objetos',
+  'scene.severity.high': 'Peligro',
+  'scene.severity.medium': 'Precaución',
+  'scene.severity.low': 'Aviso',
+  'scene.clock': 'en la posición {hour} del reloj',
+  'scene.distance': 'a unos {meters} metros',
+  'scene.reads': 'dice «{text}»',
+  'hazard.warning': 'Cuidado: {description}.',
+
+  'gallery.fileTooLarge': 'Archivo demasiado grande (máx. {max} MB).',
+  'gallery.ready': 'Listo. Mantén pulsado el botón para hacer una pregunta.',
+  'gallery.micDenied': 'Acceso al micrófono denegado.',
+  'gallery.noAnswer': 'No pude procesar eso.',
+  'gallery.failed': 'El análisis falló. Inténtalo de nuevo.',
+  'gallery.title': 'Asistente de medios',
+  'gallery.subtitle': 'Pregunta sobre hasta {count} fotos o vídeos\nfotos de hasta {max} MB, vídeos de hasta {videoMax} MB',
+  'gallery.select': 'Elegir archivos',
+  'gallery.preview': 'Vista previa',
+  'gallery.remove': 'Quitar archivo',
+  'gallery.listening': 'Escuchando...',
+  'gallery.holdToAsk': 'Mantén el micro o {key} para preguntar',
+  'gallery.micButton': 'Mantén pulsado para preguntar',
+  'gallery.tapToAsk': 'Toca el micro o pulsa {key} para empezar y terminar',
+  'gallery.micToggle': 'Grabar una pregunta',
+  'gallery.analyzing': 'Analizando...',
+  'gallery.typeLabel': 'Escribe una pregunta',
+  'gallery.typePlaceholder': 'O escribe una pregunta',
+  'gallery.ask': 'Preguntar',
+  'gallery.response': 'Respuesta',
+  'gallery.exchanges': 'Preguntas y respuestas',
+  'gallery.position': 'Respuesta {current} de {total}',
+  'gallery.youAsked': 'Preguntaste: {question}',
+  'gallery.previous': 'Anterior',
+  'gallery.next': 'Siguiente',
+  'gallery.repeat': 'Repetir',
+  'gallery.first': 'Esta es la primera respuesta.',
+  'gallery.last': 'Esta es la última respuesta.',
+  'gallery.noAnswers': 'Todavía no hay respuestas. Mantén pulsado el botón para hacer una pregunta.',
+  'gallery.tooMany': 'Hasta {max} elementos a la vez.',
+  'gallery.label.image': 'imagen {number}',
+  'gallery.label.video': 'vídeo {number}',
+  'gallery.added': 'Añadido: {labels}.',
+  'gallery.camera': 'Hacer fotos',
+  'gallery.cameraReady': 'Apunta la cámara al primer elemento y toca Hacer foto. Toca Listo cuando las tengas todas.',
+  'gallery.takePhoto': 'Hacer foto',
+  'gallery.doneCapturing': 'Listo ({count})',
+  'gallery.photoAdded': '{label} añadida.',
+  'gallery.captureFailed': 'No se pudo hacer la foto. Inténtalo de nuevo.',
+  'gallery.addFiles': 'Añadir archivos',
+  'gallery.addPhoto': 'Añadir foto',
+  'gallery.carousel': 'carrusel',
+  'gallery.slide': 'elemento',
+  'gallery.items': 'Archivos elegidos',
+  'gallery.itemPosition': '{label}, {current} de {total}',
+  'gallery.previousItem': 'Elemento anterior',
+  'gallery.nextItem': 'Elemento siguiente',
+  'gallery.preparingStart': '{label} es grande, así que voy a extraer fotogramas clave. Puede tardar un minuto.',
+  'gallery.preparing': 'Preparando {label}... {percent} %',
+  'gallery.videoReady': '{label} está listo, {count} fotogramas clave.',
+  'gallery.videoFailed': 'No se pudo leer {label}. Prueba con un clip más corto.',
+  'gallery.jumpTo': 'Ir a {time} en {label}',
+  'gallery.jumped': '{label} en {time}',
+
+  'search.distanceReach': 'al alcance de la mano',
+  'search.distanceArm': 'a un brazo de distancia',
+  'search.distanceSteps': 'a un par de pasos',
+  'search.distanceFar': 'a varios pasos',
+  'search.lost': 'He perdido de vista: {name}. Vuelve atrás despacio.',
+  'search.notFound': 'Aún no encuentro: {name}. Gira despacio o sube la cámara.',
+  'search.failed': 'No puedo conectar con el servicio de visión, así que he dejado de buscar: {name}.',
+  'search.found': 'Lo tengo. {name} está justo delante.',
+  'search.foundDistance': 'Lo tengo. {name} está justo delante, {distance}.',
+  'search.trendAgain': 'Encontrado otra vez',
+  'search.trendSee': 'Lo veo',
+  'search.trendWarmer': 'Caliente',
+  'search.trendColder': 'Frío',
+  'search.trendSteady': 'Igual',
+  'search.clock': 'a las {hour}',
+  'search.needTarget': 'Primero dime qué buscar.',
+  'search.looking': 'Buscando: {name}. Mueve la cámara despacio.',
+  'search.title': 'Encontrar mi',
+  'search.titleObject': 'objeto',
+  'search.intro': 'Di qué estás buscando. Te guiaré con direcciones de reloj hasta que lo tengas justo delante.',
+  'search.inputLabel': 'Objeto que buscar',
+  'search.placeholder': 'p. ej. mi taza azul',
+  'search.scanning': 'Buscando...',
+  'search.start': 'Empezar búsqueda',
+  'search.stop': 'Detener búsqueda',
+
+  'reader.headingPrefix': 'Título.',
+  'reader.tablePrefix': 'Tabla.',
+  'reader.row': 'Fila {number}',
+  'reader.space': 'espacio',
+  'reader.end': 'Fin del documento.',
+  'reader.hold': 'Sujeta el documento plano, a unos 30 centímetros, y toca Capturar.',
+  'reader.reading': 'Leyendo. No te muevas.',
+  'reader.noText': 'No encontré texto. Inténtalo con más luz o acerca la cámara.',
+  'reader.failed': 'La lectura falló. Inténtalo de nuevo.',
+  'reader.saveFailed': 'No se pudo guardar este documento, así que no estará en tu historial.',
+  'reader.last': 'Esta es la última sección.',
+  'reader.first': 'Esta es la primera sección.',
+  'reader.noNumbers': 'No hay números en esta sección.',
+  'reader.previous': 'Anterior',
+  'reader.repeat': 'Repetir',
+  'reader.next': 'Siguiente',
+  'reader.spell': 'Deletrear',
+  'reader.numbers': 'Solo números',
+  'reader.pause': 'Pausa',
+  'reader.readOn': 'Seguir',
+  'reader.title': 'Lector de documentos',
+  'reader.subtitle': 'Cartas, recetas, menús\nleídos en voz alta por secciones',
+  'reader.openCamera': 'Abrir cámara',
+  'reader.sections': 'Secciones del documento',
+  'reader.capture': 'Capturar',
+  'reader.section': 'Sección {current} de {total}',
+  'reader.newCapture': 'Nueva captura',
+
+  'history.title': 'Historial',
+  'history.searchLabel': 'Buscar en el historial',
+  'history.searchPlaceholder': 'Buscar respuestas anteriores',
+  'history.loading': 'Cargando...',
+  'history.unavailable': 'El historial no está disponible en este navegador.',
+  'history.saveFailed': 'No se pudo guardar esta conversación en tu historial.',
+  'history.noMatches': 'No hay mensajes que coincidan.',
+  'history.empty': 'Todavía no hay conversaciones.',
+  'history.matchCountOne': '1 mensaje coincide.',
+  'history.matchCount': '{count} mensajes coinciden.',
+  'history.messageDeleted': 'Mensaje eliminado.',
+  'history.messageDeleteFailed': 'No se pudo eliminar ese mensaje.',
+  'history.conversationDeleted': 'Conversación eliminada.',
+  'history.conversationDeleteFailed': 'No se pudo eliminar esa conversación.',
+  'history.readAgain': 'Volver a leer',
+  'history.readAgainLabel': 'Volver a leer: {title} del {time}',
+  'history.untitledDocument': 'documento',
+  'history.deleteAll': 'Eliminar todo',
+  'history.deleteAllLabel': 'Eliminar la conversación del {time}',
+  'history.you': 'Tú',
+  'history.echo': 'Echo',
+  'history.replay': 'Reproducir',
+  'history.replayLabel': 'Reproducir respuesta: {text}',
+  'history.delete': 'Eliminar',
+  'history.deleteMessageLabel': 'Eliminar tu mensaje: {text}',
+  'history.deleteAnswerLabel': 'Eliminar respuesta: {text}',
+
+  'settings.title': 'Ajustes',
+  'settings.speechTitle': 'Voz y habla',
+  'settings.voice': 'Voz de Echo',
+  'settings.voiceChanged': 'Voz cambiada a {voice}.',
+  'settings.voice.Kore': 'Firme, media',
+  'settings.voice.Aoede': 'Ligera, aguda',
+  'settings.voice.Leda': 'Juvenil, aguda',
+  'settings.voice.Zephyr': 'Brillante, aguda',
+  'settings.voice.Puck': 'Alegre, media',
+  'settings.voice.Charon': 'Informativa, grave',
+  'settings.voice.Fenrir': 'Animada, grave',
+  'settings.voice.Orus': 'Firme, grave',
+  'settings.rate': 'Velocidad de habla',
+  'settings.rate.slow': 'Lenta',
+  'settings.rate.normal': 'Normal',
+  'settings.rate.fast': 'Rápida',
+  'settings.rateChanged': 'Velocidad de habla: {rate}.',
+  'settings.verbosity': 'Nivel de detalle',
+  'settings.verbosity.brief': 'Breve',
+  'settings.verbosity.normal': 'Normal',
+  'settings.verbosity.detailed': 'Detallado',
+  'settings.verbosityDetail.brief': 'Una frase corta por respuesta.',
+  'settings.verbosityDetail.normal': 'Descripciones concisas.',
+  'settings.verbosityDetail.detailed': 'Descripciones completas.',
+  'settings.verbosityChanged': 'Nivel de detalle: {level}.',
+  'settings.language': 'Idioma',
+  'settings.languageChanged': 'Idioma cambiado a {language}.',
+  'settings.matchLanguage': 'Responder en el idioma en que hablo',
+  'settings.matchLanguageDetail': 'Echo responde en el idioma de tu pregunta. Los menús y avisos siguen en el idioma de arriba.',
+  'settings.matchLanguageOn': 'Echo responderá en el idioma en que hables.',
+  'settings.matchLanguageOff': 'Echo responderá siempre en {language}.',
+  'settings.testSpeech': 'Probar voz',
+  'settings.testSpeechText': 'Así sonarán los avisos hablados.',
+  'settings.applyNote': 'Los cambios se aplican desde la próxima respuesta de Echo. Una sesión de Visión en curso cambia entre respuestas.',
+  'settings.interruptTitle': 'Hablar encima de Echo',
+  'settings.interruptLegend': 'Cuando hablo encima de Echo',
+  'settings.bargeIn.stop': 'Dejar de hablar',
+  'settings.bargeIn.duck': 'Bajar el volumen',
+  'settings.bargeInDetail.stop': 'Echo se calla en cuanto hablas.',
+  'settings.bargeInDetail.duck': 'Echo sigue hablando, más bajo, mientras hablas.',
+  'settings.bargeInChanged': 'Cuando hables, Echo va a: {behavior}.',
+  'settings.askTitle': 'Preguntas en el modo Medios',
+  'settings.recordMode.hold': 'Mantener para grabar',
+  'settings.recordModeDetail.hold': 'Graba mientras se mantiene pulsado el botón del micro o la tecla.',
+  'settings.recordMode.toggle': 'Tocar para empezar y terminar',
+  'settings.recordModeDetail.toggle': 'Toca una vez para grabar y otra para enviar. Funciona bien con pulsadores.',
+  'settings.recordModeChanged': 'Grabación: {mode}.',
+  'settings.pushToTalkKey': 'Tecla para hablar: {key}',
+  'settings.pushToTalkPress': 'Pulsa una tecla, o Escape para cancelar',
+  'settings.keyChanged': 'Tecla para hablar: {key}.',
+  'settings.keyReserved': '{key} ya se usa para navegar. Elige otra tecla.',
+  'settings.cameraTitle': 'Cámara',
+  'settings.frameRate': 'Imágenes por segundo: {value}',
+  'settings.frameRateValue': '{value} imágenes por segundo',
+  'settings.quality': 'Calidad de imagen: {value} %',
+  'settings.percent': '{value} por ciento',
+  'settings.cameraNote': 'Los valores altos reaccionan más rápido y leen mejor el texto pequeño, pero usan más datos.',
+  'settings.videoInterval': 'Fotograma clave cada {value} s',
+  'settings.seconds': '{value} segundos',
+  'settings.videoIntervalNote': 'El modo Medios convierte los vídeos grandes en fotogramas clave con este intervalo, más uno en cada cambio de escena.',
+  'settings.vibrationTitle': 'Vibración',
+  'settings.vibrationEnabled': 'Vibrar para direcciones y avisos',
+  'settings.vibrationOn': 'Vibración activada.',
+  'settings.vibrationOff': 'Vibración desactivada.',
+  'settings.strength': 'Intensidad',
+  'settings.testVibration': 'Prueba: las 3',
+  'settings.vibrationHelp': 'Los pulsos cortos indican la derecha y los largos la izquierda; más pulsos significa más lejos del frente. Una vibración larga es justo delante. Los pulsos rápidos indican algo cerca.',
+  'settings.vibrationUnsupported': 'Este dispositivo no admite vibración. Se usan señales de sonido en su lugar.',
+  'settings.spatialTitle': 'Audio espacial',
+  'settings.spatialOn': 'Activado: {mode}',
+  'settings.spatialOff': 'Desactivado',
+  'settings.spatialDetail': 'Con auriculares, la voz de Echo y un breve aviso sonoro llegan desde el lado del que habla: las 3 en punto se oyen a tu derecha.',
+  'settings.spatialSetup': 'Configurar y probar',
+  'settings.locationTitle': 'Ubicación',
+  'settings.shareLocation': 'Compartir mi ubicación',
+  'settings.shareLocationDetail': 'Le dice a Echo dónde estás y hacia dónde miras, para las respuestas de los modos Visión y Multimedia y para preguntar «¿dónde estoy?». Mientras esté desactivado, tu ubicación nunca se lee ni se envía.',
+  'settings.shareLocationOn': 'Compartir ubicación activado.',
+  'settings.shareLocationOff': 'Compartir ubicación desactivado. Tu ubicación no se enviará.',
+  'settings.locationDenied': 'Se denegó el acceso a la ubicación. Permítelo en los ajustes del navegador para compartir tu ubicación.',
+  'spatial.title': 'Audio espacial',
+  'spatial.intro': 'Ponte auriculares. Las direcciones como «a las 3 en punto» llegarán desde ese lado, marcadas con un breve aviso sonoro.',
+  'spatial.enabled': 'Usar audio espacial',
+  'spatial.enabledDetail': 'Se aplica al modo Visión, a los avisos del modo Buscar y a los peligros en las respuestas del modo Multimedia.',
+  'spatial.on': 'Audio espacial activado.',
+  'spatial.off': 'Audio espacial desactivado.',
+  'spatial.modeTitle': 'Estilo',
+  'spatial.mode.hrtf': 'Sonido 3D',
+  'spatial.mode.stereo': 'Solo izquierda y derecha',
+  'spatial.modeDetail.hrtf': 'Los sonidos parecen llegar de alrededor de tu cabeza, también de delante y de detrás.',
+  'spatial.modeDetail.stereo': 'Balance simple entre tus oídos. A algunas personas les resulta más fácil de distinguir.',
+  'spatial.modeChanged': 'Estilo: {mode}.',
+  'spatial.hrtfUnavailable': 'Este navegador no admite sonido 3D; se usa el balance izquierda-derecha.',
+  'spatial.calibrateTitle': 'Calibrar',
+  'spatial.checkIntro': 'Comprueba que tus auriculares están bien puestos. Sonará un aviso por la derecha.',
+  'spatial.checkStart': 'Reproducir prueba de lados',
+  'spatial.checkQuestion': '¿Por qué oído llegó el aviso?',
+  'spatial.left': 'Izquierdo',
+  'spatial.right': 'Derecho',
+  'spatial.checkOk': 'Tus auriculares están bien configurados.',
+  'spatial.checkSwapped': 'Se han intercambiado izquierda y derecha para ajustarse a tus auriculares.',
+  'spatial.swapSides': 'Intercambiar izquierda y derecha',
+  'spatial.swapOn': 'Izquierda y derecha intercambiadas.',
+  'spatial.swapOff': 'Izquierda y derecha normales.',
+  'spatial.width': 'Cuánto hacia los lados',
+  'spatial.testTitle': 'Probar direcciones',
+  'spatial.clockGroup': 'Direcciones del reloj',
+  'spatial.hour': 'Las {hour}',
+  'spatial.playing': 'Sonando a las {hour}.',
+  'spatial.sweep': 'Dar la vuelta completa',
+  'spatial.sweeping': 'Todas las direcciones, en el sentido del reloj desde las 12.',
+  'spatial.enableToTest': 'Activa el audio espacial para probarlo.',
+  'settings.recordingTitle': 'Grabación de sesiones',
+  'settings.recordSessions': 'Grabar las sesiones de Visión',
+  'settings.recordSessionsDetail': 'Guarda en este dispositivo una copia de lo que Echo vio, oyó y dijo, para que tú o quien te ayude podáis revisarlo después. No se sube nada salvo que lo exportes.',
+  'settings.recordSessionsOn': 'Grabación activada. Las sesiones de Visión se guardarán en este dispositivo.',
+  'settings.recordSessionsOff': 'Grabación desactivada.',
+  'settings.retention': 'Conservar las grabaciones',
+  'settings.retentionOneDay': '1 día',
+  'settings.retentionDays': '{days} días',
+  'settings.retentionChanged': 'Las grabaciones se conservan {days} días.',
+  'settings.openRecordings': 'Grabaciones',
+  'recordings.title': 'Grabaciones',
+  'recordings.loading': 'Cargando...',
+  'recordings.unavailable': 'Las grabaciones no están disponibles en este navegador.',
+  'recordings.empty': 'Aún no hay grabaciones.',
+  'recordings.details': 'Duración {duration}, unos {size} MB',
+  'recordings.incomplete': 'Incompleta: no se pudo guardar parte de esta sesión.',
+  'recordings.openPlayer': 'Reproducir',
+  'recordings.openPlayerLabel': 'Reproducir la grabación de {title}',
+  'recordings.closePlayer': 'Ocultar reproductor',
+  'recordings.closePlayerLabel': 'Ocultar el reproductor de {title}',
+  'recordings.export': 'Exportar',
+  'recordings.exportLabel': 'Exportar la grabación de {title}',
+  'recordings.exporting': 'Exportando...',
+  'recordings.exported': 'Grabación exportada.',
+  'recordings.exportFailed': 'No se pudo exportar la grabación.',
+  'recordings.delete': 'Eliminar',
+  'recordings.deleteLabel': 'Eliminar la grabación de {title}',
+  'recordings.deleted': 'Grabación eliminada.',
+  'recordings.deleteFailed': 'No se pudo eliminar la grabación.',
+  'recordings.deleteAll': 'Eliminar todas las grabaciones',
+  'recordings.allDeleted': 'Se eliminaron todas las grabaciones.',
+  'recordings.loadFailed': 'No se pudo cargar esta grabación.',
+  'recordings.noFrame': 'Aún no hay imagen de la cámara.',
+  'recordings.frameAlt': 'Imagen de la cámara en {time}',
+  'recordings.play': 'Reproducir',
+  'recordings.pause': 'Pausa',
+  'recordings.playLabel': 'Reproducir {title}',
+  'recordings.pauseLabel': 'Pausar {title}',
+  'recordings.position': 'Posición',
+  'recordings.positionValue': '{time} de {duration}',
+  'recordings.noTranscript': 'No se transcribió ninguna voz.',
+  'settings.usageTitle': 'Consumo de datos',
+  'settings.usageToday': 'Hoy',
+  'settings.usageSession': 'Esta sesión',
+  'settings.usageLastSession': 'Última sesión',
+  'settings.usageNoSession': 'Todavía no hay ninguna sesión de Vision.',
+  'settings.usageData': 'Datos',
+  'settings.usageDataValue': '{sent} MB enviados, {received} MB recibidos',
+  'settings.usageFrames': 'Imágenes enviadas',
+  'settings.usageAudio': 'Audio',
+  'settings.usageAudioValue': '{sent} min enviados, {received} min recibidos',
+  'settings.usageTokens': 'Tokens',
+  'settings.usagePastDays': 'Días anteriores',
+  'settings.usagePastDay': '{day}: {megabytes} MB, {tokens} tokens',
+  'settings.usageReset': 'Restablecer contadores',
+  'settings.usageResetDone': 'Contadores restablecidos.',
+  'settings.dataBudget': 'Presupuesto diario de datos',
+  'settings.tokenBudget': 'Presupuesto diario de tokens',
+  'settings.budgetNone': 'Sin presupuesto',
+  'settings.dataBudgetValue': '{value} MB',
+  'settings.tokenBudgetValue': '{value} tokens',
+  'settings.dataBudgetChanged': 'Presupuesto diario de datos: {value}.',
+  'settings.tokenBudgetChanged': 'Presupuesto diario de tokens: {value}.',
+  'settings.budgetNote': 'Echo te avisa cuando has usado el 80 % de un presupuesto y otra vez cuando lo alcanzas. No se corta nada.',
+  'settings.lowDataLegend': 'Modo de pocos datos',
+  'settings.lowData.off': 'Desactivado',
+  'settings.lowData.auto': 'En conexiones limitadas',
+  'settings.lowData.on': 'Siempre activado',
+  'settings.lowDataDetail.off': 'Enviar a la frecuencia y calidad ajustadas arriba.',
+  'settings.lowDataDetail.auto': 'Se activa cuando el navegador indica ahorro de datos o una conexión móvil.',
+  'settings.lowDataDetail.on': 'Menos imágenes, más pequeñas, y menos audio cuando nadie habla.',
+  'settings.lowDataChanged': 'Modo de pocos datos: {mode}.',
+  'settings.lowDataMetered': 'Tu conexión es limitada ahora mismo, así que el modo de pocos datos está activado.',
+  'settings.hazardTitle': 'Alertas de peligro',
+  'settings.hazardSensitivityLegend': 'Sensibilidad de la alarma',
+  'settings.hazardSensitivity.low': 'Baja',
+  'settings.hazardSensitivity.medium': 'Media',
+  'settings.hazardSensitivity.high': 'Alta',
+  'settings.hazardSensitivityDetail.low': 'Solo los peligros más urgentes activan la alarma.',
+  'settings.hazardSensitivityDetail.medium': 'Los peligros urgentes y moderados activan la alarma.',
+  'settings.hazardSensitivityDetail.high': 'Cualquier peligro activa la alarma, incluso los leves.',
+  'settings.hazardSensitivityChanged': 'Sensibilidad de la alarma: {level}.',
+  'settings.hazardLog': 'Alertas recientes',
+  'settings.hazardLogEmpty': 'Todavía no se ha señalado ningún peligro.',
+  'settings.hazardLogEntry': '{time}: {description} ({outcome})',
+  'settings.hazardOutcome.alerted': 'alarma',
+  'settings.hazardOutcome.duplicate': 'ya avisado',
+  'settings.hazardOutcome.ignored': 'por debajo del umbral',
+  'settings.hazardLogClear': 'Borrar el registro de alertas',
+  'settings.hazardLogCleared': 'Registro de alertas borrado.',
+  'usage.budget.data': 'tu presupuesto diario de datos',
+  'usage.budget.tokens': 'tu presupuesto diario de tokens',
+  'usage.budgetNear': 'Has usado el {percent} % de {what}.',
+  'usage.budgetReached': 'Has alcanzado {what}.',
+  'settings.reset': 'Restablecer valores',
+  'settings.resetDone': 'Todos los ajustes se han restablecido.',
+
+  'info.title': 'Ayuda e información',
+  'info.tutorialTitle': 'Tutorial hablado',
+  'info.startTutorial': 'Empezar tutorial',
+  'info.step': 'Paso {current} de {total}',
+  'info.next': 'Siguiente',
+  'info.finish': 'Terminar',
+  'info.repeat': 'Repetir',
+  'info.skip': 'Omitir',
+  'info.tutorial1': 'Bienvenido a Echo Vision. Te enseñaré la aplicación. Toca Siguiente para continuar, Repetir para volver a oír un paso, u Omitir para cerrar el tutorial.',
+  'info.tutorial2': 'En la parte inferior de la pantalla hay cuatro modos: Visión, Medios, Buscar y Leer. Visión está seleccionado al abrir la aplicación.',
+  'info.tutorial3': 'En el modo Visión, toca el botón grande del centro de la pantalla para iniciar el asistente. Apunta la cámara hacia delante y te describiré obstáculos, texto y cambios a tu alrededor. Puedes hacer preguntas en voz alta en cualquier momento.',
+  'info.tutorial4': 'Toca el mismo botón otra vez para parar. Un tono descendente significa que el asistente se ha detenido; un zumbido grave indica que algo ha fallado.',
+  'info.tutorial5': 'En el modo Medios, elige una o varias fotos o vídeos de tu dispositivo, o haz varias fotos seguidas. Luego mantén pulsado el botón del micrófono, haz tu pregunta y suelta. Leeré la respuesta en voz alta. Puedes hacer preguntas de seguimiento y comparar elementos por su nombre, como imagen 1 e imagen 2.',
+  'info.tutorial6': 'En el modo Buscar, escribe el nombre de un objeto, como mis llaves, y empieza la búsqueda. Te guiaré con direcciones de reloj hasta que lo tengas delante y sonará una campanilla.',
+  'info.tutorial7': 'En el modo Leer, sujeta una página, carta o etiqueta delante de la cámara y toca Capturar. La leeré por secciones. Usa Siguiente, Anterior y Repetir para moverte, Deletrear para oír una palabra letra a letra, o Solo números para importes y fechas.',
+  'info.tutorial8': 'El botón del reloj arriba abre el historial de conversaciones, el botón del engranaje abre los ajustes de voz, velocidad, idioma y vibración, y el botón de ayuda vuelve a abrir esta pantalla. Fin del tutorial.',
+  'info.controlsTitle': 'Gestos y controles',
+  'info.control.vision': 'Botón Visión',
+  'info.control.visionDetail': 'Toca para iniciar o detener el asistente en directo.',
+  'info.control.mic': 'Botón del micrófono (Medios)',
+  'info.control.micDetail': 'Mantén pulsado para preguntar sobre los elementos elegidos y suelta para enviar. La tecla para hablar (M por defecto) funciona igual, en Ajustes puedes cambiar ambos a tocar para empezar y terminar, y también puedes escribir una pregunta.',
+  'info.control.search': 'Empezar búsqueda (Buscar)',
+  'info.control.searchDetail': 'Te guía hasta el objeto que escribiste. Toca otra vez para parar.',
+  'info.control.capture': 'Botón Capturar (Leer)',
+  'info.control.captureDetail': 'Toma una foto nítida de un documento y la lee en voz alta. Teclas: N siguiente, P anterior, R repetir, S deletrear, D números, Espacio pausa.',
+  'info.control.history': 'Botón Historial',
+  'info.control.historyDetail': 'Explora, reproduce, busca o elimina respuestas anteriores, o vuelve a leer un documento guardado.',
+  'info.control.settings': 'Botón Ajustes',
+  'info.control.settingsDetail': 'Voz, velocidad, nivel de detalle, idioma, cámara y vibración.',
+  'info.control.help': 'Botón de ayuda',
+  'info.control.helpDetail': 'Abre esta pantalla y el tutorial.',
+  'info.control.escape': 'Tecla Escape',
+  'info.control.escapeDetail': 'Cierra el panel abierto.',
+  'info.permissionsTitle': 'Permisos',
+  'info.permission.camera': 'Cámara',
+  'info.permission.cameraUsage': 'Necesaria para los modos Visión, Buscar y Leer.',
+  'info.permission.microphone': 'Micrófono',
+  'info.permission.microphoneUsage': 'Necesario para hacer preguntas con la voz.',
+  'info.permission.geolocation': 'Ubicación',
+  'info.permission.geolocationUsage': 'Opcional. Solo se usa mientras «Compartir mi ubicación» está activado en Ajustes.',
+  'info.permissionStatus.granted': 'Permitido',
+  'info.permissionStatus.denied': 'Bloqueado',
+  'info.permissionStatus.prompt': 'Aún no solicitado',
+  'info.permissionStatus.unknown': 'Desconocido',
+  'info.allow': 'Permitir',
+  'info.allowLabel': 'Solicitar permiso: {permission}',
+  'info.permissionsNote': 'Si un permiso está bloqueado, el navegador no volverá a pedirlo. Actívalo de nuevo en los ajustes del sitio de tu navegador.',
+  'info.privacyTitle': 'Privacidad',
+  'info.privacyLive': 'Mientras el modo Visión está en marcha, las imágenes de la cámara (una o dos por segundo) y el audio del micrófono se envían al modelo Gemini de Google. No se envía nada cuando está detenido.',
+  'info.privacyGallery': 'En el modo Medios, cada archivo o foto se sube al añadirlo y se borra al quitarlo. Tu pregunta grabada solo se envía cuando preguntas.',
+  'info.privacySearch': 'En el modo Buscar, las imágenes de la cámara y el nombre del objeto se envían mientras dura la búsqueda.',
+  'info.privacyReader': 'En el modo Leer, se envía una foto cada vez que capturas una página. El texto extraído se guarda en el historial de este dispositivo.',
+  'info.privacyHistory': 'El historial de conversaciones se guarda solo en este dispositivo y puedes eliminarlo en cualquier momento desde la pantalla Historial.',
+  'info.privacyLocation': 'Tu ubicación solo se envía mientras «Compartir mi ubicación» está activado en Ajustes: al modo Visión cuando cambia y con cada pregunta del modo Multimedia. Los nombres de lugares se buscan en este dispositivo.',
+  'info.privacyRecording': 'Las grabaciones de sesión solo existen mientras «Grabar las sesiones de Visión» está activado. Se quedan en este dispositivo, se eliminan tras el periodo que elijas y solo salen de él si las exportas.',
+};
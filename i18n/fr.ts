@@ -0,0 +1,518 @@
+import { Catalog } from './en.ts';
+
+export const fr: Catalog = {
+  'language.name': 'français',
+
+  'common.close': 'Fermer',
+  'common.retry': 'Réessayer',
+  'common.cameraDenied': 'Accès à la caméra refusé.',
+
+  'status.IDLE': 'En veille',
+  'status.CONNECTING': 'Connexion',
+  'status.RECONNECTING': 'Reconnexion',
+  'status.ACTIVE': 'Actif',
+  'status.ERROR': 'Erreur',
+  'status.ANALYZING': 'Analyse',
+  'status.SEARCHING': 'Recherche',
+
+  'mode.LIVE': 'Vision',
+  'mode.GALLERY': 'Médias',
+  'mode.SEARCH': 'Trouver',
+  'mode.READ': 'Lire',
+
+  'app.history': 'Historique des conversations',
+  'app.settings': 'Réglages',
+  'app.help': 'Aide et infos',
+  'app.modes': 'Modes',
+
+  'live.greeting': 'Bonjour, je suis',
+  'live.intro': 'Pointez la caméra et touchez le bouton ci-dessous. Je décris le monde autour de vous en temps réel.',
+  'live.awarenessTitle': 'Repérage des objets',
+  'live.awarenessDetail': 'Sachez tout de suite ce qui se trouve devant vous.',
+  'live.navigationTitle': 'Déplacements sûrs',
+  'live.navigationDetail': 'Détecte les obstacles et les changements de chemin.',
+  'live.reconnectingText': 'Reconnexion...',
+  'live.looking': "J'observe ce qui vous entoure...",
+  'live.endOfAnswer': 'Fin de la réponse',
+  'live.interrupted': 'Interrompu',
+  'live.frameStats': '{sent}/{captured} images envoyées • {kb} Ko',
+  'live.lowData': 'Données réduites',
+  'live.interruptLabel': 'Quand je parle par-dessus Echo : {behavior}. Touchez pour changer.',
+  'live.interruptStopBehavior': 'il se tait',
+  'live.interruptDuckBehavior': 'il baisse le volume',
+  'live.interruptButton': 'Interruption : {mode}',
+  'live.interruptStop': 'Arrêt',
+  'live.interruptDuck': 'Atténuer',
+  'live.stop': "Arrêter l'assistant",
+  'live.start': 'Démarrer',
+  'live.footer': 'Prêt à aider • 100 % confidentiel',
+  'live.connectionLost': 'Connexion perdue. Reconnexion en cours.',
+  'live.backOnline': 'De nouveau en ligne.',
+  'live.gaveUp': "Je n'ai pas pu me reconnecter. L'assistant est arrêté.",
+  'live.connectionLostTitle': 'Connexion perdue',
+  'live.connectionLostDetail': 'Vérifiez votre réseau et réessayez.',
+  'live.connectFailedTitle': 'Connexion impossible',
+  'live.accessDeniedTitle': 'Accès refusé',
+  'live.accessDeniedDetail': 'Veuillez autoriser les accès.',
+  'live.sourceFailedTitle': 'Source indisponible',
+  'live.sourceFailedDetail': 'Impossible de démarrer la source choisie.',
+  'live.sourceTitle': 'Source',
+  'live.source.camera': 'Caméra',
+  'live.source.file': 'Fichier vidéo',
+  'live.source.pattern': 'Mire de test',
+  'live.sourceFileHint': 'Choisissez une vidéo à utiliser à la place de la caméra. Son son remplace le micro.',
+  'live.sourceFileChosen': 'Vidéo : {name}',
+  'live.playbackGroup': 'Lecture de la vidéo',
+  'live.playbackPlay': 'Lire',
+  'live.playbackPause': 'Pause',
+  'live.playbackPosition': 'Position dans la vidéo',
+  'live.playbackPositionValue': '{time} sur {duration}',
+  'live.playbackLoop': 'En boucle',
+
+  'prompt.live': "Tu es Echo-Vision, un assistant visuel en temps réel pour les personnes malvoyantes. Analyse le flux vidéo et décris de façon concise les obstacles, le texte et les changements importants. IMPORTANT : n'utilise JAMAIS de mise en forme Markdown comme les astérisques (**) dans tes réponses orales. Texte brut uniquement.",
+  'prompt.live.directions': "Indique les directions en position d'horloge autour de l'utilisateur, par exemple « à 3 heures » pour juste à droite, et les distances en mètres ou en pas.",
+  'prompt.live.tools': "Utilise les outils fournis quand l'utilisateur te demande de répéter, de changer ta façon de parler, de changer la cadence de la caméra, d'arrêter, de changer de mode, de trouver un objet ou de lui dire où il se trouve.",
+  'prompt.live.hazards': "Quand tu vois quelque chose qui pourrait blesser l'utilisateur tout de suite, comme un escalier ou une marche, un véhicule qui approche ou un obstacle sur son chemin, appelle report_hazard immédiatement, avant de décrire quoi que ce soit d'autre.",
+  'prompt.language': 'Parle directement en {language}.',
+  'prompt.matchLanguage': "Réponds toujours dans la langue dans laquelle l'utilisateur te parle. Tant qu'il n'a pas parlé, utilise le {language}.",
+  'prompt.verbosity.brief': 'Limite chaque réponse à une phrase courte.',
+  'prompt.verbosity.detailed': 'Donne des descriptions complètes et détaillées.',
+  'prompt.rate.slow': 'Parle lentement et clairement.',
+  'prompt.rate.fast': 'Parle vite.',
+  'prompt.location': 'Mise à jour du contexte, ne réponds pas : {context}',
+  'prompt.gallery': "Transcris la question orale, puis analyse le contenu et réponds à la question {detail} pour une personne malvoyante. Texte brut uniquement, sans markdown.",
+  'prompt.gallery.typed': "L'utilisateur a tapé cette question : « {question} ». Analyse le contenu et réponds-y {detail} pour une personne malvoyante. Texte brut uniquement, sans markdown.",
+  'prompt.gallery.language': 'Rédige la réponse en {language}.',
+  'prompt.gallery.matchLanguage': 'Rédige la réponse dans la langue de la question, et indique cette langue.',
+  'prompt.gallery.labels': 'Chaque image ou vidéo est précédée de son libellé, par exemple « image 1 ». Désigne les éléments par ces libellés, surtout pour les comparer.',
+  'prompt.gallery.moments': "Les grandes vidéos sont envoyées sous forme d'images clés, chacune précédée de son libellé et de son horodatage, suivies de la piste audio si elle existe. Quand la réponse renvoie à un moment d'une vidéo, donne son horodatage au format m:ss, par exemple « à 0:42 », et indique-le dans moments.",
+  'prompt.gallery.scene': "Quand la question porte sur ce qui est visible, remplis aussi scene : chaque danger pour une personne qui marche avec sa gravité, et les principaux objets, chacun avec sa direction en heures d'horloge depuis la caméra, sa distance estimée et tout texte lisible. Mentionne aussi les dangers les plus graves dans la réponse.",
+  'prompt.gallery.followUp': 'Les questions et réponses précédentes de cette conversation portent sur le même média ; utilise-les pour comprendre les questions de suivi.',
+  'prompt.gallery.location': "Position actuelle de l'utilisateur, utile si le média a été pris ici : {context}",
+  'prompt.detail.brief': 'en une phrase courte',
+  'prompt.detail.normal': 'de façon concise',
+  'prompt.detail.detailed': 'de façon détaillée',
+  'prompt.search': "Repère « {name} » dans cette image de la caméra pour une personne malvoyante qui tient le téléphone. Indique s'il est visible, sa direction sur le cadran d'une horloge par rapport à la caméra, sa distance, et s'il est centré.",
+  'prompt.reader': "Extrais tout le texte lisible de cette photo de document pour une personne malvoyante. Conserve la structure en titres, paragraphes, listes et tableaux, dans l'ordre de lecture. Transcris exactement, sans résumer ni traduire. Texte brut uniquement, sans markdown.",
+  'location.near': 'Vous êtes près de {place}.',
+  'location.nearFacing': 'Vous êtes près de {place}, tourné vers {direction}.',
+  'location.at': 'Vous êtes à la latitude {latitude}, longitude {longitude}.',
+  'location.atFacing': 'Vous êtes à la latitude {latitude}, longitude {longitude}, tourné vers {direction}.',
+  'location.facing': 'Vous êtes tourné vers {direction}.',
+  'location.direction.n': 'le nord',
+  'location.direction.ne': 'le nord-est',
+  'location.direction.e': "l'est",
+  'location.direction.se': 'le sud-est',
+  'location.direction.s': 'le sud',
+  'location.direction.sw': 'le sud-ouest',
+  'location.direction.w': "l'ouest",
+  'location.direction.nw': 'le nord-ouest',
+  'scene.hazards': 'Dangers',
+  'scene.objects': 'Objets',
+  'scene.severity.high': 'Danger',
+  'scene.severity.medium': 'Attention',
+  'scene.severity.low': 'À noter',
+  'scene.clock': 'à {hour} h',
+  'scene.distance': 'à environ {meters} mètres',
+  'scene.reads': 'on peut lire « {text} »',
+  'hazard.warning': 'Attention : {description}.',
+
+  'gallery.fileTooLarge': 'Fichier trop volumineux ({max} Mo maximum).',
+  'gallery.ready': 'Prêt. Maintenez le bouton pour poser une question.',
+  'gallery.micDenied': 'Accès au micro refusé.',
+  'gallery.noAnswer': "Je n'ai pas pu traiter cela.",
+  'gallery.failed': "L'analyse a échoué. Veuillez réessayer.",
+  'gallery.title': 'Assistant médias',
+  'gallery.subtitle': "Posez des questions sur {count} photos ou vidéos maximum\nphotos jusqu'à {max} Mo, vidéos jusqu'à {videoMax} Mo",
+  'gallery.select': 'Choisir des fichiers',
+  'gallery.preview': 'Aperçu',
+  'gallery.remove': 'Retirer le média',
+  'gallery.listening': "J'écoute...",
+  'gallery.holdToAsk': 'Maintenez le micro ou {key} pour poser une question',
+  'gallery.micButton': 'Maintenir pour poser une question',
+  'gallery.tapToAsk': 'Touchez le micro ou appuyez sur {key} pour démarrer et arrêter',
+  'gallery.micToggle': 'Enregistrer une question',
+  'gallery.analyzing': 'Analyse en cours...',
+  'gallery.typeLabel': 'Taper une question',
+  'gallery.typePlaceholder': 'Ou tapez une question',
+  'gallery.ask': 'Demander',
+  'gallery.response': 'Réponse',
+  'gallery.exchanges': 'Questions et réponses',
+  'gallery.position': 'Réponse {current} sur {total}',
+  'gallery.youAsked': 'Vous avez demandé : {question}',
+  'gallery.previous': 'Précédente',
+  'gallery.next': 'Suivante',
+  'gallery.repeat': 'Répéter',
+  'gallery.first': "C'est la première réponse.",
+  'gallery.last': "C'est la dernière réponse.",
+  'gallery.noAnswers': 'Aucune réponse pour le moment. Maintenez le bouton pour poser une question.',
+  'gallery.tooMany': '{max} éléments au maximum à la fois.',
+  'gallery.label.image': 'image {number}',
+  'gallery.label.video': 'vidéo {number}',
+  'gallery.added': 'Ajouté : {labels}.',
+  'gallery.camera': 'Prendre des photos',
+  'gallery.cameraReady': "Pointez l'appareil vers le premier élément et touchez Prendre la photo. Touchez Terminé quand vous les avez toutes.",
+  'gallery.takePhoto': 'Prendre la photo',
+  'gallery.doneCapturing': 'Terminé ({count})',
+  'gallery.photoAdded': '{label} ajoutée.',
+  'gallery.captureFailed': 'Impossible de prendre la photo. Réessayez.',
+  'gallery.addFiles': 'Ajouter des fichiers',
+  'gallery.addPhoto': 'Ajouter une photo',
+  'gallery.carousel': 'carrousel',
+  'gallery.slide': 'élément',
+  'gallery.items': 'Médias choisis',
+  'gallery.itemPosition': '{label}, {current} sur {total}',
+  'gallery.previousItem': 'Élément précédent',
+  'gallery.nextItem': 'Élément suivant',
+  'gallery.preparingStart': "{label} est volumineuse, j'en extrais des images clés. Cela peut prendre une minute.",
+  'gallery.preparing': 'Préparation de {label}... {percent} %',
+  'gallery.videoReady': '{label} est prête, {count} images clés.',
+  'gallery.videoFailed': 'Impossible de lire {label}. Essayez un extrait plus court.',
+  'gallery.jumpTo': 'Aller à {time} dans {label}',
+  'gallery.jumped': '{label} à {time}',
+
+  'search.distanceReach': 'à portée de main',
+  'search.distanceArm': "à environ une longueur de bras",
+  'search.distanceSteps': 'à quelques pas',
+  'search.distanceFar': 'à plusieurs pas',
+  'search.lost': "J'ai perdu de vue : {name}. Revenez lentement en arrière.",
+  'search.notFound': 'Je ne trouve pas encore : {name}. Tournez lentement ou levez la caméra.',
+  'search.failed': "Je n'arrive pas à joindre le service de vision, j'arrête donc de chercher : {name}.",
+  'search.found': 'Trouvé. {name} est droit devant.',
+  'search.foundDistance': 'Trouvé. {name} est droit devant, {distance}.',
+  'search.trendAgain': 'Retrouvé',
+  'search.trendSee': 'Je le vois',
+  'search.trendWarmer': 'Plus chaud',
+  'search.trendColder': 'Plus froid',
+  'search.trendSteady': 'Stable',
+  'search.clock': 'à {hour} heures',
+  'search.needTarget': "Dites-moi d'abord quoi chercher.",
+  'search.looking': 'Je cherche : {name}. Balayez lentement avec la caméra.',
+  'search.title': 'Trouver mon',
+  'search.titleObject': 'objet',
+  'search.intro': "Nommez ce que vous cherchez. Je vous guide avec des directions en heures jusqu'à ce qu'il soit juste devant vous.",
+  'search.inputLabel': 'Objet à trouver',
+  'search.placeholder': 'ex. ma tasse bleue',
+  'search.scanning': 'Recherche en cours...',
+  'search.start': 'Lancer la recherche',
+  'search.stop': 'Arrêter la recherche',
+
+  'reader.headingPrefix': 'Titre.',
+  'reader.tablePrefix': 'Tableau.',
+  'reader.row': 'Ligne {number}',
+  'reader.space': 'espace',
+  'reader.end': 'Fin du document.',
+  'reader.hold': 'Tenez le document à plat, à environ 30 centimètres, puis touchez Capturer.',
+  'reader.reading': 'Lecture. Ne bougez pas.',
+  'reader.noText': "Je n'ai trouvé aucun texte. Réessayez avec plus de lumière, ou rapprochez la caméra.",
+  'reader.failed': 'La lecture a échoué. Veuillez réessayer.',
+  'reader.saveFailed': "Ce document n'a pas pu être enregistré, il ne sera pas dans votre historique.",
+  'reader.last': "C'est la dernière section.",
+  'reader.first': "C'est la première section.",
+  'reader.noNumbers': "Il n'y a pas de nombres dans cette section.",
+  'reader.previous': 'Précédent',
+  'reader.repeat': 'Répéter',
+  'reader.next': 'Suivant',
+  'reader.spell': 'Épeler',
+  'reader.numbers': 'Nombres seuls',
+  'reader.pause': 'Pause',
+  'reader.readOn': 'Continuer',
+  'reader.title': 'Lecteur de documents',
+  'reader.subtitle': 'Lettres, ordonnances, menus\nlus à voix haute section par section',
+  'reader.openCamera': 'Ouvrir la caméra',
+  'reader.sections': 'Sections du document',
+  'reader.capture': 'Capturer',
+  'reader.section': 'Section {current} sur {total}',
+  'reader.newCapture': 'Nouvelle capture',
+
+  'history.title': 'Historique',
+  'history.searchLabel': "Rechercher dans l'historique",
+  'history.searchPlaceholder': 'Rechercher dans les réponses',
+  'history.loading': 'Chargement...',
+  'history.unavailable': "L'historique n'est pas disponible dans ce navigateur.",
+  'history.saveFailed': "Cette conversation n'a pas pu être enregistrée dans votre historique.",
+  'history.noMatches': 'Aucun message correspondant.',
+  'history.empty': 'Aucune conversation pour le moment.',
+  'history.matchCountOne': '1 message correspondant.',
+  'history.matchCount': '{count} messages correspondants.',
+  'history.messageDeleted': 'Message supprimé.',
+  'history.messageDeleteFailed': "Impossible de supprimer ce message.",
+  'history.conversationDeleted': 'Conversation supprimée.',
+  'history.conversationDeleteFailed': 'Impossible de supprimer cette conversation.',
+  'history.readAgain': 'Relire',
+  'history.readAgainLabel': 'Relire : {title} du {time}',
+  'history.untitledDocument': 'document',
+  'history.deleteAll': 'Tout supprimer',
+  'history.deleteAllLabel': 'Supprimer la conversation du {time}',
+  'history.you': 'Vous',
+  'history.echo': 'Echo',
+  'history.replay': 'Réécouter',
+  'history.replayLabel': 'Réécouter la réponse : {text}',
+  'history.delete': 'Supprimer',
+  'history.deleteMessageLabel': 'Supprimer votre message : {text}',
+  'history.deleteAnswerLabel': 'Supprimer la réponse : {text}',
+
+  'settings.title': 'Réglages',
+  'settings.speechTitle': 'Voix et parole',
+  'settings.voice': "Voix d'Echo",
+  'settings.voiceChanged': 'Voix réglée sur {voice}.',
+  'settings.voice.Kore': 'Ferme, médium',
+  'settings.voice.Aoede': 'Légère, aiguë',
+  'settings.voice.Leda': 'Jeune, aiguë',
+  'settings.voice.Zephyr': 'Claire, aiguë',
+  'settings.voice.Puck': 'Enjouée, médium',
+  'settings.voice.Charon': 'Posée, grave',
+  'settings.voice.Fenrir': 'Animée, grave',
+  'settings.voice.Orus': 'Ferme, grave',
+  'settings.rate': 'Débit de parole',
+  'settings.rate.slow': 'Lent',
+  'settings.rate.normal': 'Normal',
+  'settings.rate.fast': 'Rapide',
+  'settings.rateChanged': 'Débit de parole : {rate}.',
+  'settings.verbosity': 'Niveau de détail',
+  'settings.verbosity.brief': 'Bref',
+  'settings.verbosity.normal': 'Normal',
+  'settings.verbosity.detailed': 'Détaillé',
+  'settings.verbosityDetail.brief': 'Une phrase courte par réponse.',
+  'settings.verbosityDetail.normal': 'Descriptions concises.',
+  'settings.verbosityDetail.detailed': 'Descriptions complètes.',
+  'settings.verbosityChanged': 'Niveau de détail : {level}.',
+  'settings.language': 'Langue',
+  'settings.languageChanged': 'Langue réglée sur {language}.',
+  'settings.matchLanguage': 'Répondre dans la langue que je parle',
+  'settings.matchLanguageDetail': "Echo répond dans la langue de votre question. Les menus et les messages restent dans la langue ci-dessus.",
+  'settings.matchLanguageOn': 'Echo répondra dans la langue que vous parlez.',
+  'settings.matchLanguageOff': 'Echo répondra toujours en {language}.',
+  'settings.testSpeech': 'Tester la voix',
+  'settings.testSpeechText': 'Voici comment les messages parlés seront prononcés.',
+  'settings.applyNote': "Les changements s'appliquent dès la prochaine réponse d'Echo. Une session Vision en cours bascule entre deux réponses.",
+  'settings.interruptTitle': 'Parler par-dessus Echo',
+  'settings.interruptLegend': 'Quand je parle par-dessus Echo',
+  'settings.bargeIn.stop': 'Se taire',
+  'settings.bargeIn.duck': 'Baisser le volume',
+  'settings.bargeInDetail.stop': "Echo s'arrête dès que vous parlez.",
+  'settings.bargeInDetail.duck': 'Echo continue, plus bas, pendant que vous parlez.',
+  'settings.bargeInChanged': 'Quand vous parlez, Echo va : {behavior}.',
+  'settings.askTitle': 'Questions en mode Médias',
+  'settings.recordMode.hold': 'Maintenir pour enregistrer',
+  'settings.recordModeDetail.hold': 'Enregistre tant que le bouton micro ou la touche est maintenu.',
+  'settings.recordMode.toggle': 'Toucher pour démarrer et arrêter',
+  'settings.recordModeDetail.toggle': 'Touchez une fois pour enregistrer et une seconde fois pour envoyer. Adapté aux contacteurs.',
+  'settings.recordModeChanged': 'Enregistrement : {mode}.',
+  'settings.pushToTalkKey': 'Touche pour parler : {key}',
+  'settings.pushToTalkPress': 'Appuyez sur une touche, ou Échap pour annuler',
+  'settings.keyChanged': 'Touche pour parler : {key}.',
+  'settings.keyReserved': '{key} sert déjà à la navigation. Choisissez une autre touche.',
+  'settings.cameraTitle': 'Caméra',
+  'settings.frameRate': 'Images par seconde : {value}',
+  'settings.frameRateValue': '{value} images par seconde',
+  'settings.quality': "Qualité d'image : {value} %",
+  'settings.percent': '{value} pour cent',
+  'settings.cameraNote': 'Des valeurs plus élevées réagissent plus vite et lisent mieux les petits textes, mais consomment plus de données.',
+  'settings.videoInterval': 'Image clé vidéo toutes les {value} s',
+  'settings.seconds': '{value} secondes',
+  'settings.videoIntervalNote': 'En mode Médias, les grandes vidéos sont converties en images clés à cet intervalle, plus une à chaque changement de scène.',
+  'settings.vibrationTitle': 'Vibration',
+  'settings.vibrationEnabled': 'Vibrer pour les directions et les alertes',
+  'settings.vibrationOn': 'Vibration activée.',
+  'settings.vibrationOff': 'Vibration désactivée.',
+  'settings.strength': 'Intensité',
+  'settings.testVibration': 'Test : 3 heures',
+  'settings.vibrationHelp': "Des impulsions courtes indiquent la droite, des longues la gauche ; plus il y a d'impulsions, plus c'est loin de l'axe. Une longue vibration signifie droit devant. Des impulsions rapides signalent un objet proche.",
+  'settings.vibrationUnsupported': "Cet appareil ne prend pas en charge la vibration. Des signaux sonores sont utilisés à la place.",
+  'settings.spatialTitle': 'Audio spatial',
+  'settings.spatialOn': 'Activé : {mode}',
+  'settings.spatialOff': 'Désactivé',
+  'settings.spatialDetail': "Avec un casque, la voix d'Echo et un court signal viennent du côté dont il parle : 3 heures s'entend à votre droite.",
+  'settings.spatialSetup': 'Configurer et tester',
+  'settings.locationTitle': 'Position',
+  'settings.shareLocation': 'Partager ma position',
+  'settings.shareLocationDetail': "Indique à Echo où vous êtes et dans quelle direction vous regardez, pour les réponses en modes Vision et Média et pour demander « où suis-je ? ». Tant que c'est désactivé, votre position n'est jamais lue ni envoyée.",
+  'settings.shareLocationOn': 'Partage de la position activé.',
+  'settings.shareLocationOff': 'Partage de la position désactivé. Votre position ne sera pas envoyée.',
+  'settings.locationDenied': "L'accès à la position a été refusé. Autorisez-le dans les réglages du navigateur pour partager votre position.",
+  'spatial.title': 'Audio spatial',
+  'spatial.intro': 'Mettez un casque. Les directions comme « à 3 heures » viendront alors de ce côté, marquées par un court signal.',
+  'spatial.enabled': "Utiliser l'audio spatial",
+  'spatial.enabledDetail': "S'applique au mode Vision, aux signaux du mode Recherche et aux dangers dans les réponses du mode Média.",
+  'spatial.on': 'Audio spatial activé.',
+  'spatial.off': 'Audio spatial désactivé.',
+  'spatial.modeTitle': 'Style',
+  'spatial.mode.hrtf': 'Son 3D',
+  'spatial.mode.stereo': 'Gauche et droite seulement',
+  'spatial.modeDetail.hrtf': 'Les sons semblent venir de tout autour de votre tête, y compris devant et derrière.',
+  'spatial.modeDetail.stereo': 'Simple balance entre vos oreilles. Plus facile à distinguer pour certaines personnes.',
+  'spatial.modeChanged': 'Style : {mode}.',
+  'spatial.hrtfUnavailable': 'Ce navigateur ne prend pas en charge le son 3D ; la balance gauche-droite est utilisée.',
+  'spatial.calibrateTitle': 'Calibrer',
+  'spatial.checkIntro': 'Vérifiez que votre casque est dans le bon sens. Un signal va être joué à droite.',
+  'spatial.checkStart': 'Lancer la vérification',
+  'spatial.checkQuestion': 'De quelle oreille venait le signal ?',
+  'spatial.left': 'Gauche',
+  'spatial.right': 'Droite',
+  'spatial.checkOk': 'Votre casque est correctement configuré.',
+  'spatial.checkSwapped': 'Gauche et droite ont été inversées pour correspondre à votre casque.',
+  'spatial.swapSides': 'Inverser gauche et droite',
+  'spatial.swapOn': 'Gauche et droite inversées.',
+  'spatial.swapOff': 'Gauche et droite normales.',
+  'spatial.width': 'Écart sur les côtés',
+  'spatial.testTitle': 'Tester les directions',
+  'spatial.clockGroup': "Directions de l'horloge",
+  'spatial.hour': '{hour} h',
+  'spatial.playing': 'Signal à {hour} h.',
+  'spatial.sweep': 'Faire le tour',
+  'spatial.sweeping': 'Toutes les directions, dans le sens horaire depuis 12 h.',
+  'spatial.enableToTest': "Activez l'audio spatial pour le tester.",
+  'settings.recordingTitle': 'Enregistrement des sessions',
+  'settings.recordSessions': 'Enregistrer les sessions Vision',
+  'settings.recordSessionsDetail': "Garde sur cet appareil une copie de ce qu'Echo a vu, entendu et dit, pour que vous ou un proche puissiez le revoir. Rien n'est envoyé sauf si vous l'exportez.",
+  'settings.recordSessionsOn': 'Enregistrement activé. Les sessions Vision seront gardées sur cet appareil.',
+  'settings.recordSessionsOff': 'Enregistrement désactivé.',
+  'settings.retention': 'Conserver les enregistrements',
+  'settings.retentionOneDay': '1 jour',
+  'settings.retentionDays': '{days} jours',
+  'settings.retentionChanged': 'Les enregistrements sont conservés {days} jours.',
+  'settings.openRecordings': 'Enregistrements',
+  'recordings.title': 'Enregistrements',
+  'recordings.loading': 'Chargement...',
+  'recordings.unavailable': 'Les enregistrements ne sont pas disponibles dans ce navigateur.',
+  'recordings.empty': "Aucun enregistrement pour l'instant.",
+  'recordings.details': 'Durée {duration}, environ {size} Mo',
+  'recordings.incomplete': "Incomplet : une partie de cette session n'a pas pu être enregistrée.",
+  'recordings.openPlayer': 'Lire',
+  'recordings.openPlayerLabel': "Lire l'enregistrement : {title}",
+  'recordings.closePlayer': 'Masquer le lecteur',
+  'recordings.closePlayerLabel': 'Masquer le lecteur : {title}',
+  'recordings.export': 'Exporter',
+  'recordings.exportLabel': "Exporter l'enregistrement : {title}",
+  'recordings.exporting': 'Export en cours...',
+  'recordings.exported': 'Enregistrement exporté.',
+  'recordings.exportFailed': "Impossible d'exporter cet enregistrement.",
+  'recordings.delete': 'Supprimer',
+  'recordings.deleteLabel': "Supprimer l'enregistrement : {title}",
+  'recordings.deleted': 'Enregistrement supprimé.',
+  'recordings.deleteFailed': "Impossible de supprimer l'enregistrement.",
+  'recordings.deleteAll': 'Tout supprimer',
+  'recordings.allDeleted': 'Tous les enregistrements ont été supprimés.',
+  'recordings.loadFailed': 'Impossible de charger cet enregistrement.',
+  'recordings.noFrame': "Pas encore d'image de la caméra.",
+  'recordings.frameAlt': 'Image de la caméra à {time}',
+  'recordings.play': 'Lire',
+  'recordings.pause': 'Pause',
+  'recordings.playLabel': 'Lire {title}',
+  'recordings.pauseLabel': 'Mettre en pause {title}',
+  'recordings.position': 'Position',
+  'recordings.positionValue': '{time} sur {duration}',
+  'recordings.noTranscript': "Aucune parole n'a été transcrite.",
+  'settings.usageTitle': 'Consommation de données',
+  'settings.usageToday': "Aujourd'hui",
+  'settings.usageSession': 'Cette session',
+  'settings.usageLastSession': 'Dernière session',
+  'settings.usageNoSession': 'Aucune session Vision pour le moment.',
+  'settings.usageData': 'Données',
+  'settings.usageDataValue': '{sent} Mo envoyés, {received} Mo reçus',
+  'settings.usageFrames': 'Images envoyées',
+  'settings.usageAudio': 'Audio',
+  'settings.usageAudioValue': '{sent} min envoyées, {received} min reçues',
+  'settings.usageTokens': 'Jetons',
+  'settings.usagePastDays': 'Jours précédents',
+  'settings.usagePastDay': '{day} : {megabytes} Mo, {tokens} jetons',
+  'settings.usageReset': 'Remettre les compteurs à zéro',
+  'settings.usageResetDone': 'Compteurs remis à zéro.',
+  'settings.dataBudget': 'Budget de données quotidien',
+  'settings.tokenBudget': 'Budget de jetons quotidien',
+  'settings.budgetNone': 'Aucun budget',
+  'settings.dataBudgetValue': '{value} Mo',
+  'settings.tokenBudgetValue': '{value} jetons',
+  'settings.dataBudgetChanged': 'Budget de données quotidien : {value}.',
+  'settings.tokenBudgetChanged': 'Budget de jetons quotidien : {value}.',
+  'settings.budgetNote': "Echo vous prévient quand 80 % d'un budget est utilisé, puis quand il est atteint. Rien n'est coupé.",
+  'settings.lowDataLegend': 'Mode données réduites',
+  'settings.lowData.off': 'Désactivé',
+  'settings.lowData.auto': 'Sur les connexions limitées',
+  'settings.lowData.on': 'Toujours activé',
+  'settings.lowDataDetail.off': 'Envoyer à la cadence et à la qualité réglées ci-dessus.',
+  'settings.lowDataDetail.auto': "S'active quand le navigateur signale l'économiseur de données ou une connexion mobile.",
+  'settings.lowDataDetail.on': "Moins d'images, plus petites, et moins d'audio quand personne ne parle.",
+  'settings.lowDataChanged': 'Mode données réduites : {mode}.',
+  'settings.lowDataMetered': 'Votre connexion est limitée en ce moment, le mode données réduites est donc activé.',
+  'settings.hazardTitle': 'Alertes de danger',
+  'settings.hazardSensitivityLegend': "Sensibilité de l'alarme",
+  'settings.hazardSensitivity.low': 'Faible',
+  'settings.hazardSensitivity.medium': 'Moyenne',
+  'settings.hazardSensitivity.high': 'Élevée',
+  'settings.hazardSensitivityDetail.low': "Seuls les dangers les plus urgents déclenchent l'alarme.",
+  'settings.hazardSensitivityDetail.medium': "Les dangers urgents et modérés déclenchent l'alarme.",
+  'settings.hazardSensitivityDetail.high': "Chaque danger déclenche l'alarme, même mineur.",
+  'settings.hazardSensitivityChanged': "Sensibilité de l'alarme : {level}.",
+  'settings.hazardLog': 'Alertes récentes',
+  'settings.hazardLogEmpty': 'Aucun danger signalé pour le moment.',
+  'settings.hazardLogEntry': '{time} : {description} ({outcome})',
+  'settings.hazardOutcome.alerted': 'alarme',
+  'settings.hazardOutcome.duplicate': 'déjà signalé',
+  'settings.hazardOutcome.ignored': 'sous le seuil',
+  'settings.hazardLogClear': 'Effacer le journal des alertes',
+  'settings.hazardLogCleared': 'Journal des alertes effacé.',
+  'usage.budget.data': 'votre budget de données quotidien',
+  'usage.budget.tokens': 'votre budget de jetons quotidien',
+  'usage.budgetNear': 'Vous avez utilisé {percent} % de {what}.',
+  'usage.budgetReached': 'Vous avez atteint {what}.',
+  'settings.reset': 'Rétablir les valeurs par défaut',
+  'settings.resetDone': 'Tous les réglages ont été rétablis.',
+
+  'info.title': 'Aide et infos',
+  'info.tutorialTitle': 'Tutoriel parlé',
+  'info.startTutorial': 'Lancer le tutoriel',
+  'info.step': 'Étape {current} sur {total}',
+  'info.next': 'Suivant',
+  'info.finish': 'Terminer',
+  'info.repeat': 'Répéter',
+  'info.skip': 'Passer',
+  'info.tutorial1': "Bienvenue dans Echo Vision. Je vais vous présenter l'application. Touchez Suivant pour continuer, Répéter pour réentendre une étape, ou Passer pour fermer le tutoriel.",
+  'info.tutorial2': "En bas de l'écran, il y a quatre modes : Vision, Médias, Trouver et Lire. Vision est sélectionné à l'ouverture.",
+  'info.tutorial3': "En mode Vision, touchez le grand bouton au centre de l'écran pour démarrer l'assistant. Pointez la caméra devant vous et je décrirai les obstacles, le texte et les changements autour de vous. Vous pouvez poser des questions à voix haute à tout moment.",
+  'info.tutorial4': "Touchez à nouveau le même bouton pour arrêter. Un son descendant signifie que l'assistant s'est arrêté ; un bourdonnement grave signale un problème.",
+  'info.tutorial5': 'En mode Médias, choisissez une ou plusieurs photos ou vidéos sur votre appareil, ou prenez plusieurs photos à la suite. Puis maintenez le bouton du micro, posez votre question et relâchez. Je lirai la réponse à voix haute. Vous pouvez poser des questions de suivi et comparer les éléments par leur nom, comme image 1 et image 2.',
+  'info.tutorial6': "En mode Trouver, tapez le nom d'un objet, comme mes clés, et lancez la recherche. Je vous guide avec des directions en heures jusqu'à ce qu'il soit devant vous, puis je joue un carillon.",
+  'info.tutorial7': "En mode Lire, tenez une page, une lettre ou une étiquette devant la caméra et touchez Capturer. Je la lis section par section. Utilisez Suivant, Précédent et Répéter pour naviguer, Épeler pour entendre un mot lettre par lettre, ou Nombres seuls pour les montants et les dates.",
+  'info.tutorial8': "Le bouton horloge en haut ouvre l'historique des conversations, le bouton engrenage ouvre les réglages de voix, de débit, de langue et de vibration, et le bouton d'aide rouvre cet écran. C'est la fin du tutoriel.",
+  'info.controlsTitle': 'Gestes et commandes',
+  'info.control.vision': 'Bouton Vision',
+  'info.control.visionDetail': "Touchez pour démarrer ou arrêter l'assistant en direct.",
+  'info.control.mic': 'Bouton micro (Médias)',
+  'info.control.micDetail': 'Maintenez pour poser une question sur les éléments choisis, relâchez pour envoyer. La touche pour parler (M par défaut) fonctionne de la même façon, les réglages permettent de passer en mode toucher pour démarrer et arrêter, et vous pouvez aussi taper une question.',
+  'info.control.search': 'Lancer la recherche (Trouver)',
+  'info.control.searchDetail': "Vous guide vers l'objet saisi. Touchez à nouveau pour arrêter.",
+  'info.control.capture': 'Bouton Capturer (Lire)',
+  'info.control.captureDetail': "Prend une photo nette d'un document et la lit à voix haute. Touches : N suivant, P précédent, R répéter, S épeler, D nombres, Espace pause.",
+  'info.control.history': 'Bouton Historique',
+  'info.control.historyDetail': 'Parcourir, réécouter, rechercher ou supprimer des réponses, ou relire un document enregistré.',
+  'info.control.settings': 'Bouton Réglages',
+  'info.control.settingsDetail': 'Voix, débit, niveau de détail, langue, caméra et vibration.',
+  'info.control.help': "Bouton d'aide",
+  'info.control.helpDetail': 'Ouvre cet écran et le tutoriel.',
+  'info.control.escape': 'Touche Échap',
+  'info.control.escapeDetail': 'Ferme le panneau ouvert.',
+  'info.permissionsTitle': 'Autorisations',
+  'info.permission.camera': 'Caméra',
+  'info.permission.cameraUsage': 'Nécessaire pour les modes Vision, Trouver et Lire.',
+  'info.permission.microphone': 'Micro',
+  'info.permission.microphoneUsage': 'Nécessaire pour poser des questions à voix haute.',
+  'info.permission.geolocation': 'Position',
+  'info.permission.geolocationUsage': 'Facultatif. Utilisée uniquement quand « Partager ma position » est activé dans les réglages.',
+  'info.permissionStatus.granted': 'Autorisé',
+  'info.permissionStatus.denied': 'Bloqué',
+  'info.permissionStatus.prompt': 'Pas encore demandé',
+  'info.permissionStatus.unknown': 'Inconnu',
+  'info.allow': 'Autoriser',
+  'info.allowLabel': "Demander l'autorisation : {permission}",
+  'info.permissionsNote': "Si une autorisation est bloquée, le navigateur ne la redemandera pas. Réactivez-la dans les paramètres du site de votre navigateur.",
+  'info.privacyTitle': 'Confidentialité',
+  'info.privacyLive': "Pendant que le mode Vision fonctionne, les images de la caméra (une ou deux par seconde environ) et le son du micro sont envoyés au modèle Gemini de Google. Rien n'est envoyé lorsqu'il est arrêté.",
+  'info.privacyGallery': "En mode Médias, chaque fichier ou photo est envoyé quand vous l'ajoutez et supprimé quand vous le retirez. Votre question enregistrée n'est envoyée que lorsque vous la posez.",
+  'info.privacySearch': "En mode Trouver, les images de la caméra et le nom de l'objet sont envoyés pendant la recherche.",
+  'info.privacyReader': "En mode Lire, une photo est envoyée à chaque capture de page. Le texte extrait est enregistré dans l'historique sur cet appareil.",
+  'info.privacyHistory': "L'historique des conversations est stocké uniquement sur cet appareil, et vous pouvez le supprimer à tout moment depuis l'écran Historique.",
+  'info.privacyLocation': "Votre position n'est envoyée que lorsque « Partager ma position » est activé dans les réglages : au mode Vision quand elle change, et avec chaque question en mode Média. Les noms de lieux sont recherchés sur cet appareil.",
+  'info.privacyRecording': "Les enregistrements de session n'existent que si « Enregistrer les sessions Vision » est activé. Ils restent sur cet appareil, sont supprimés après la durée choisie et n'en sortent que si vous les exportez.",
+};
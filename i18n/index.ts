@@ -0,0 +1,38 @@
+import { AppMode, Language } from '../types.ts';
+import { getSettings, useSettings, LANGUAGES } from '../services/settings.ts';
+import { en, Catalog, MessageKey } from './en.ts';
+import { fr } from './fr.ts';
+import { es } from './es.ts';
+
+export type { MessageKey };
+
+// Typed as Record<Language, Catalog>: adding a language without a complete catalog fails the type check
+const CATALOGS: Record<Language, Catalog> = { en, fr, es };
+
+export type MessageParams = Record<string, string | number>;
+
+export const translate = (language: Language, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[language][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+// Reads the language at call time, so it is safe to use from long-lived callbacks
+export const t = (key: MessageKey, params?: MessageParams) => translate(getSettings().language, key, params);
+
+// Re-renders the component when the language changes
+export const useI18n = () => {
+  useSettings();
+  return t;
+};
+
+export const MODE_LABELS: Record<AppMode, MessageKey> = {
+  LIVE: 'mode.LIVE',
+  GALLERY: 'mode.GALLERY',
+  SEARCH: 'mode.SEARCH',
+  READ: 'mode.READ',
+};
+
+// Date and time of a saved session, in the user's language
+export const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(LANGUAGES[getSettings().language].speechLang, { dateStyle: 'medium', timeStyle: 'short' });
@@ -0,0 +1,305 @@
+// Local stand-in for the model service, used through the token broker in mock mode (npm run broker:mock).
+// Replays a script: live sessions get transcription, audio, interruptions, tool calls and errors
+// over a WebSocket at /live; one-shot and chat questions get canned answers from POST /generate.
+//
+//   node mock-server/server.mjs [script.json] [--port 8787]
+//
+// No dependencies: the WebSocket handshake and framing are implemented below.
+//
+// Script format (see script.json):
+//   live.steps: run in order once setup arrives. Each step may have, applied in this order:
+//     waitFor ("audio" | "frame" | "audioStreamEnd" | "clientContent" | "toolResponse"), delayMs,
+//     input / output (transcription text), audioMs and toneHz (streamed model audio),
+//     toolCall ({ name, args }), interrupted, turnComplete, goAway, message (sent as is),
+//     error (closes the connection with that reason, to exercise reconnecting).
+//   live.loop: start again after the last step. live.skipOnResume: first step for a resumed session.
+//   generate: answers for one-shot and chat questions; the first entry whose "match" appears in
+//     the request is used. Entries give text, json (sent as its JSON text), or error and status.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+
+const args = process.argv.slice(2);
+const portFlag = args.indexOf('--port');
+const port = Number(portFlag >= 0 ? args[portFlag + 1] : process.env.PORT || 8787);
+const scriptPath = args.find((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--port')
+  || resolve(dirname(fileURLToPath(import.meta.url)), 'script.json');
+const script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const AUDIO_CHUNK_MS = 100;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const sleep = (ms) => new Promise(done => setTimeout(done, ms));
+
+// A plain tone stands in for speech: enough to exercise playback, ducking and barge-in
+const toneChunk = (hz, ms, offset) => {
+  const samples = Math.round(OUTPUT_SAMPLE_RATE * ms / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const t = (offset + i) / OUTPUT_SAMPLE_RATE;
+    pcm.writeInt16LE(Math.round(Math.sin(2 * Math.PI * hz * t) * 6000), i * 2);
+  }
+  return pcm.toString('base64');
+};
+
+// --- WebSocket framing (RFC 6455), server side: text frames out, masked frames in ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) header[1] = length;
+  else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const acceptWebSocket = (req, socket, onText, onClose) => {
+  const accept = createHash('sha1').update(req.headers['sec-websocket-key'] + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n'
+    + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+
+  const connection = {
+    send: (message) => {
+      if (!closed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+    },
+    close: (code = 1000, reason = '') => {
+      if (closed) return;
+      closed = true;
+      const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+      payload.writeUInt16BE(code, 0);
+      payload.write(reason, 2);
+      socket.end(encodeFrame(0x8, payload));
+      onClose();
+    },
+    get closed() { return closed; },
+  };
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        connection.close();
+        return;
+      }
+      if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+      if (opcode === 0x0 || opcode === 0x1 || opcode === 0x2) {
+        fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          onText(message);
+        }
+      }
+    }
+  });
+  socket.on('close', () => {
+    if (!closed) {
+      closed = true;
+      onClose();
+    }
+  });
+  socket.on('error', () => {});
+  return connection;
+};
+
+// --- Live sessions ---
+
+// What the client sent, for "waitFor" steps
+const inputKind = (message) => {
+  if (message.clientContent) return 'clientContent';
+  if (message.toolResponse) return 'toolResponse';
+  const input = message.realtimeInput;
+  if (!input) return null;
+  if (input.audioStreamEnd) return 'audioStreamEnd';
+  const mimeType = input.media?.mimeType || input.audio?.mimeType || input.video?.mimeType || '';
+  return mimeType.startsWith('image') ? 'frame' : mimeType.startsWith('audio') ? 'audio' : null;
+};
+
+let sessionCount = 0;
+
+const runLiveSession = (req, socket) => {
+  const id = ++sessionCount;
+  const waiters = [];
+  let resumed = false;
+  let toolCallCount = 0;
+
+  const connection = acceptWebSocket(req, socket, (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch (e) {
+      return;
+    }
+    if (message.setup) {
+      resumed = Boolean(message.setup.config?.sessionResumption?.handle);
+      console.log(`[live ${id}] setup for ${message.setup.model}${resumed ? ' (resumed)' : ''}`);
+      connection.send({ setupComplete: {} });
+      connection.send({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-session-${id}` } });
+      play();
+      return;
+    }
+    const kind = inputKind(message);
+    if (kind === 'clientContent' || kind === 'toolResponse') console.log(`[live ${id}] ${kind}`, JSON.stringify(message[kind]));
+    for (let i = waiters.length - 1; i >= 0; i--) {
+      if (waiters[i].kind === kind) waiters.splice(i, 1)[0].done();
+    }
+  }, () => {
+    console.log(`[live ${id}] closed`);
+    waiters.splice(0).forEach(waiter => waiter.done());
+  });
+
+  const waitFor = (kind) => new Promise(done => (connection.closed ? done() : waiters.push({ kind, done })));
+  const content = (serverContent) => connection.send({ serverContent });
+
+  const runStep = async (step) => {
+    if (step.waitFor) await waitFor(step.waitFor);
+    if (step.delayMs) await sleep(step.delayMs);
+    if (connection.closed) return;
+    if (step.input) content({ inputTranscription: { text: step.input } });
+    if (step.output) content({ outputTranscription: { text: step.output } });
+    if (step.audioMs) {
+      // Streamed in real time so interruptions and barge-in land mid-answer
+      for (let sent = 0; sent < step.audioMs && !connection.closed; sent += AUDIO_CHUNK_MS) {
+        const ms = Math.min(AUDIO_CHUNK_MS, step.audioMs - sent);
+        const data = toneChunk(step.toneHz || 440, ms, Math.round(OUTPUT_SAMPLE_RATE * sent / 1000));
+        content({ modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data } }] } });
+        await sleep(ms);
+      }
+    }
+    if (step.toolCall) {
+      const call = { id: `mock-call-${++toolCallCount}`, args: {}, ...step.toolCall };
+      connection.send({ toolCall: { functionCalls: [call] } });
+    }
+    if (step.interrupted) content({ interrupted: true });
+    if (step.turnComplete) content({ turnComplete: true });
+    if (step.goAway) connection.send({ goAway: { timeLeft: '5s' } });
+    if (step.message) connection.send(step.message);
+    if (step.error) {
+      console.log(`[live ${id}] scripted error: ${step.error}`);
+      connection.close(1011, String(step.error).slice(0, 120));
+    }
+  };
+
+  const play = async () => {
+    const { steps = [], loop = false, skipOnResume = 0 } = script.live || {};
+    // A resumed session continues the conversation instead of replaying its opening
+    let start = resumed ? Math.min(skipOnResume, steps.length) : 0;
+    do {
+      for (let i = start; i < steps.length && !connection.closed; i++) await runStep(steps[i]);
+      start = 0;
+      // Keeps a script without waits from spinning
+      if (loop) await sleep(AUDIO_CHUNK_MS);
+    } while (loop && !connection.closed && steps.length > 0);
+  };
+};
+
+// --- HTTP: one-shot answers and uploads ---
+
+const readBody = (req) => new Promise((done, fail) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => done(Buffer.concat(chunks)));
+  req.on('error', fail);
+});
+
+const uploads = new Map();
+let uploadCount = 0;
+
+const reply = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'POST' && url.pathname === '/generate') {
+    const raw = (await readBody(req)).toString('utf8');
+    // The first entry whose "match" appears anywhere in the request (prompt, schema or model)
+    const entry = (script.generate || []).find(candidate => !candidate.match || raw.includes(candidate.match));
+    if (!entry) return reply(res, 500, { error: 'No scripted answer matches this request' });
+    if (entry.delayMs) await sleep(entry.delayMs);
+    if (entry.error) return reply(res, entry.status || 500, { error: entry.error });
+    const text = entry.json !== undefined ? JSON.stringify(entry.json) : entry.text || '';
+    console.log(`[generate] ${entry.match || 'default'} -> ${text.slice(0, 80)}`);
+    return reply(res, 200, { text });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/upload') {
+    const body = await readBody(req);
+    const name = `files/mock-${++uploadCount}`;
+    const mimeType = req.headers['content-type'] || 'application/octet-stream';
+    uploads.set(name, { mimeType, size: body.length });
+    console.log(`[upload] ${name} ${mimeType} ${body.length} bytes`);
+    return reply(res, 200, { name, uri: `${url.origin}/${name}`, mimeType });
+  }
+
+  if (req.method === 'DELETE' && url.pathname.startsWith('/files/')) {
+    let name;
+    try {
+      name = decodeURIComponent(url.pathname.slice(1));
+    } catch (e) {
+      return reply(res, 400, { error: 'Invalid file name' });
+    }
+    uploads.delete(name);
+    return reply(res, 200, {});
+  }
+
+  reply(res, 404, { error: 'Not found' });
+});
+
+server.on('upgrade', (req, socket) => {
+  if (new URL(req.url, `http://${req.headers.host}`).pathname !== '/live') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  runLiveSession(req, socket);
+});
+
+server.listen(port, () => {
+  console.log(`Mock model server on http://localhost:${port} replaying ${scriptPath}`);
+});
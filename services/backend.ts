@@ -0,0 +1,53 @@
+import {
+  FunctionResponse, GenerateContentConfig, LiveCallbacks, LiveConnectConfig,
+  LiveSendClientContentParameters, LiveSendRealtimeInputParameters, Part,
+} from '@google/genai';
+import { createBrokerBackend } from './brokerBackend.ts';
+
+// Everything the app asks of a model service. Components only talk to getBackend(). The browser
+// never holds an API key: requests go through the token broker (npm run broker), which picks the
+// models and can itself run against the local mock server (npm run broker:mock).
+
+// The parts of a live connection the app uses
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: { functionResponses: FunctionResponse[] }) => void;
+  close: () => void;
+}
+
+export interface UploadedMedia {
+  name: string;
+  uri: string;
+  mimeType: string;
+}
+
+// A multi-turn conversation; earlier messages are kept by the backend
+export interface ChatSession {
+  send: (parts: Part[]) => Promise<string>;
+}
+
+export interface VisionBackend {
+  // Resolves once the connection is open; messages arrive through the callbacks
+  connectLive: (config: LiveConnectConfig, callbacks: LiveCallbacks) => Promise<LiveSession>;
+  // A single question about a frame or photo; returns the response text
+  generate: (parts: Part[], config?: GenerateContentConfig) => Promise<string>;
+  startChat: (config: GenerateContentConfig) => ChatSession;
+  // Resolves when the file is ready to be referenced by a chat message
+  upload: (media: Blob) => Promise<UploadedMedia>;
+  remove: (name: string) => Promise<void>;
+}
+
+// From the build environment, see vite.config.ts. The dev server proxies /api to the broker.
+export const BROKER_URL = process.env.BROKER_URL || '/api';
+
+let backend: VisionBackend | null = null;
+
+export const getBackend = () => {
+  if (!backend) backend = createBrokerBackend(BROKER_URL);
+  return backend;
+};
+
+export const setBackend = (next: VisionBackend) => {
+  backend = next;
+};
@@ -0,0 +1,197 @@
+import { Content, GoogleGenAI, LiveCallbacks, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { LiveSession, VisionBackend } from './backend.ts';
+import { recordUsage } from './usageMeter.ts';
+import { estimateBase64Bytes } from '../utils/frameScheduler.ts';
+
+// Talks to the token broker (broker/server.mjs), which holds the API key. Live sessions connect
+// to Gemini with a single-use ephemeral token from the broker; everything else is proxied.
+// With the broker in mock mode, live sessions go to the mock server's scripted socket instead.
+
+interface SessionGrant {
+  model: string;
+  // Ephemeral Gemini token
+  token?: string;
+  // Mock server socket, in place of a token
+  liveUrl?: string;
+}
+
+const request = async (url: string, init: RequestInit) => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Broker error ${response.status}`);
+  return body;
+};
+
+const sampleRateOf = (mimeType = '') => Number(/rate=(\d+)/.exec(mimeType)?.[1]) || 0;
+
+// Seconds of 16-bit mono PCM in a base64 payload
+const pcmSeconds = (data: string, mimeType?: string) => {
+  const rate = sampleRateOf(mimeType);
+  return rate ? estimateBase64Bytes(data) / (rate * 2) : 0;
+};
+
+// Counts what goes over the live connection for the usage meter. Bytes are as sent, base64 included.
+// Each method is forwarded explicitly: the SDK session keeps them on its prototype.
+const meterLive = (session: LiveSession): LiveSession => ({
+  sendClientContent: (params) => session.sendClientContent(params),
+  sendToolResponse: (params) => session.sendToolResponse(params),
+  close: () => session.close(),
+  sendRealtimeInput: (params) => {
+    const blob = params.media || params.audio || params.video;
+    if (blob && 'data' in blob && blob.data) {
+      const isImage = blob.mimeType?.startsWith('image/');
+      recordUsage({
+        framesSent: isImage ? 1 : 0,
+        bytesSent: blob.data.length,
+        audioSecondsSent: isImage ? 0 : pcmSeconds(blob.data, blob.mimeType),
+      });
+    }
+    session.sendRealtimeInput(params);
+  },
+});
+
+const meterLiveCallbacks = (callbacks: LiveCallbacks): LiveCallbacks => ({
+  ...callbacks,
+  onmessage: (message) => {
+    let bytesReceived = 0;
+    let audioSecondsReceived = 0;
+    for (const part of message.serverContent?.modelTurn?.parts || []) {
+      if (!part.inlineData?.data) continue;
+      bytesReceived += part.inlineData.data.length;
+      audioSecondsReceived += pcmSeconds(part.inlineData.data, part.inlineData.mimeType);
+    }
+    const tokens = message.usageMetadata?.totalTokenCount || 0;
+    if (bytesReceived || tokens) recordUsage({ bytesReceived, audioSecondsReceived, tokens });
+    callbacks.onmessage(message);
+  },
+});
+
+// A live connection that hasn't opened by then counts as failed
+const LIVE_CONNECT_TIMEOUT_MS = 15000;
+
+// The SDK's connect only resolves once the socket opens; a socket that fails first would leave it
+// pending forever. Failures before the open reject instead, so the caller can retry or give up.
+const connectGeminiLive = (grant: SessionGrant, config: LiveConnectConfig, callbacks: LiveCallbacks) =>
+  new Promise<LiveSession>((resolve, reject) => {
+    let settled = false;
+    let opened = false;
+    const fail = (err: Error) => {
+      if (settled) return;
+      settled = true;
+      reject(err);
+    };
+    const timer = window.setTimeout(() => fail(new Error('Timed out connecting to the live model')), LIVE_CONNECT_TIMEOUT_MS);
+    // Ephemeral tokens only work with the v1alpha API
+    const ai = new GoogleGenAI({ apiKey: grant.token || '', httpOptions: { apiVersion: 'v1alpha' } });
+    ai.live.connect({
+      model: grant.model,
+      config,
+      callbacks: {
+        ...callbacks,
+        onerror: (e) => (opened ? callbacks.onerror?.(e) : fail(new Error(e.message || 'Could not connect to the live model'))),
+        onclose: (e) => (opened ? callbacks.onclose?.(e) : fail(new Error(e.reason || 'The live model closed the connection'))),
+      },
+    }).then((session) => {
+      window.clearTimeout(timer);
+      // Timed out meanwhile: nobody is waiting for this connection any more
+      if (settled) {
+        session.close();
+        return;
+      }
+      settled = true;
+      opened = true;
+      resolve(session);
+    }, (err) => {
+      window.clearTimeout(timer);
+      fail(err);
+    });
+  });
+
+// The mock server speaks the same messages as Gemini as plain JSON over a WebSocket
+const connectScriptedLive = (url: string, model: string, config: LiveConnectConfig, callbacks: LiveCallbacks) =>
+  new Promise<LiveSession>((resolve, reject) => {
+    const socket = new WebSocket(url);
+    let isOpen = false;
+    const send = (message: unknown) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+    socket.onopen = () => {
+      isOpen = true;
+      send({ setup: { model, config } });
+      callbacks.onopen?.();
+      resolve({
+        sendRealtimeInput: (params) => send({ realtimeInput: params }),
+        sendClientContent: (params) => send({ clientContent: params }),
+        sendToolResponse: (params) => send({ toolResponse: params }),
+        close: () => socket.close(),
+      });
+    };
+    // Only the plain fields the app reads are sent, so a parsed object stands in for the SDK class
+    socket.onmessage = (e) => {
+      let message: LiveServerMessage;
+      try {
+        message = JSON.parse(e.data);
+      } catch (err) {
+        // A malformed entry in the mock script is skipped
+        return;
+      }
+      callbacks.onmessage(message);
+    };
+    socket.onerror = (e) => {
+      if (!isOpen) reject(new Error(`Could not reach the mock server at ${url}`));
+      else callbacks.onerror?.(e as ErrorEvent);
+    };
+    socket.onclose = (e) => {
+      if (isOpen) callbacks.onclose?.(e);
+    };
+  });
+
+export const createBrokerBackend = (endpoint: string): VisionBackend => {
+  const base = endpoint.replace(/\/$/, '');
+
+  const generate = async (contents: Content[], config?: unknown): Promise<string> => {
+    const payload = JSON.stringify({ contents, config });
+    const body = await request(`${base}/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload,
+    });
+    const text = typeof body.text === 'string' ? body.text : '';
+    recordUsage({ bytesSent: payload.length, bytesReceived: text.length, tokens: body.usageMetadata?.totalTokenCount || 0 });
+    return text;
+  };
+
+  return {
+    connectLive: async (config, callbacks) => {
+      const grant: SessionGrant = await request(`${base}/session`, { method: 'POST' });
+      const metered = meterLiveCallbacks(callbacks);
+      if (grant.liveUrl) return meterLive(await connectScriptedLive(grant.liveUrl, grant.model, config, metered));
+      return meterLive(await connectGeminiLive(grant, config, metered));
+    },
+    generate: (parts, config) => generate([{ role: 'user', parts }], config),
+    // The broker is stateless, so the conversation so far is sent with every message
+    startChat: (config) => {
+      const history: Content[] = [];
+      return {
+        send: async (parts) => {
+          const message: Content = { role: 'user', parts };
+          const text = await generate([...history, message], config);
+          history.push(message, { role: 'model', parts: [{ text }] });
+          return text;
+        },
+      };
+    },
+    upload: async (media) => {
+      const body = await request(`${base}/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': media.type || 'application/octet-stream' },
+        body: media,
+      });
+      recordUsage({ bytesSent: media.size });
+      return { name: body.name, uri: body.uri, mimeType: body.mimeType || media.type };
+    },
+    remove: async (name) => {
+      await request(`${base}/${name.split('/').map(encodeURIComponent).join('/')}`, { method: 'DELETE' });
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLocalGeocoder, distanceMeters } from './geocoder.ts';
+
+const STATION = { name: 'Central Station', latitude: 48.8443, longitude: 2.3744, radius: 200 };
+const LIBRARY = { name: 'Library', latitude: 48.8456, longitude: 2.3760 };
+
+describe('distanceMeters', () => {
+  it('is zero for the same point', () => {
+    expect(distanceMeters(48.8443, 2.3744, 48.8443, 2.3744)).toBe(0);
+  });
+
+  it('measures about 111 km per degree of latitude', () => {
+    expect(distanceMeters(0, 0, 1, 0)).toBeCloseTo(111195, -2);
+  });
+
+  it('is the same in both directions', () => {
+    const there = distanceMeters(48.8443, 2.3744, 51.5072, -0.1276);
+    expect(distanceMeters(51.5072, -0.1276, 48.8443, 2.3744)).toBeCloseTo(there, 6);
+    // Paris to London
+    expect(there / 1000).toBeCloseTo(343, -1);
+  });
+});
+
+describe('createLocalGeocoder', () => {
+  it('picks the nearest place whose radius covers the point', async () => {
+    const geocoder = createLocalGeocoder([STATION, LIBRARY]);
+    const place = await geocoder.reverse(48.8454, 2.3757);
+    expect(place?.name).toBe('Library');
+    expect(place!.distanceMeters).toBeLessThan(50);
+  });
+
+  it('returns null when nothing is within range', async () => {
+    const geocoder = createLocalGeocoder([STATION, LIBRARY]);
+    expect(await geocoder.reverse(48.8584, 2.2945)).toBeNull();
+  });
+
+  it('uses the default radius for entries without one', async () => {
+    const geocoder = createLocalGeocoder([LIBRARY]);
+    // About 100 m north of the library, then about 300 m
+    expect(await geocoder.reverse(48.8465, 2.3760)).not.toBeNull();
+    expect(await geocoder.reverse(48.8483, 2.3760)).toBeNull();
+  });
+
+  it('skips malformed entries from a loaded file', async () => {
+    const geocoder = createLocalGeocoder(async () => [{ name: 'Broken' }, STATION, 'nonsense']);
+    expect((await geocoder.reverse(STATION.latitude, STATION.longitude))?.name).toBe('Central Station');
+  });
+
+  it('loads the file once', async () => {
+    const load = vi.fn(async () => [STATION]);
+    const geocoder = createLocalGeocoder(load);
+    await geocoder.reverse(STATION.latitude, STATION.longitude);
+    await geocoder.reverse(STATION.latitude, STATION.longitude);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('tries the load again after it fails', async () => {
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce([STATION]);
+    const geocoder = createLocalGeocoder(load);
+    expect(await geocoder.reverse(STATION.latitude, STATION.longitude)).toBeNull();
+    expect((await geocoder.reverse(STATION.latitude, STATION.longitude))?.name).toBe('Central Station');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
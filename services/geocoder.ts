@@ -0,0 +1,76 @@
+// Turns coordinates into a place name the user would recognise. The app only depends on
+// ReverseGeocoder, so an online service can replace the local gazetteer with setReverseGeocoder.
+
+export interface Place {
+  name: string;
+  // Straight-line distance from the queried point to the place
+  distanceMeters: number;
+}
+
+export interface ReverseGeocoder {
+  // Resolves to null when nothing known is close enough
+  reverse: (latitude: number, longitude: number) => Promise<Place | null>;
+}
+
+export interface GazetteerEntry {
+  name: string;
+  latitude: number;
+  longitude: number;
+  // How far from its centre the place still counts as "near", in meters
+  radius?: number;
+}
+
+const DEFAULT_RADIUS_M = 150;
+const EARTH_RADIUS_M = 6371000;
+// Served from public/; edit it to add the places that matter to the user
+const GAZETTEER_URL = '/places.json';
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+export const distanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+const isEntry = (value: any): value is GazetteerEntry =>
+  value && typeof value.name === 'string' && Number.isFinite(value.latitude) && Number.isFinite(value.longitude);
+
+// Nearest gazetteer entry whose radius covers the point. Works entirely offline; the entries
+// can be passed directly (e.g. in tests) or loaded lazily, once, from a file.
+export const createLocalGeocoder = (source: GazetteerEntry[] | (() => Promise<unknown>)): ReverseGeocoder => {
+  let entries: Promise<GazetteerEntry[]> | null = null;
+  const load = () => {
+    if (!entries) {
+      entries = (Array.isArray(source) ? Promise.resolve(source) : source())
+        .then(data => (Array.isArray(data) ? data.filter(isEntry) : []))
+        .catch(() => {
+          // Let a later lookup try again
+          entries = null;
+          return [];
+        });
+    }
+    return entries;
+  };
+
+  return {
+    reverse: async (latitude, longitude) => {
+      let best: Place | null = null;
+      for (const entry of await load()) {
+        const distance = distanceMeters(latitude, longitude, entry.latitude, entry.longitude);
+        if (distance > (entry.radius ?? DEFAULT_RADIUS_M)) continue;
+        if (!best || distance < best.distanceMeters) best = { name: entry.name, distanceMeters: distance };
+      }
+      return best;
+    },
+  };
+};
+
+let geocoder: ReverseGeocoder = createLocalGeocoder(() => fetch(GAZETTEER_URL).then(response => response.json()));
+
+export const getReverseGeocoder = () => geocoder;
+
+export const setReverseGeocoder = (next: ReverseGeocoder) => {
+  geocoder = next;
+};
@@ -0,0 +1,91 @@
+import { useSyncExternalStore } from 'react';
+import { AppMode, HazardSensitivity, HazardSeverity, SceneHazard } from '../types.ts';
+import { getSettings } from './settings.ts';
+
+// Decides which reported hazards sound the alarm, and keeps a log of every one. A hazard the user
+// was warned about moments ago is not repeated unless it got more severe or much closer.
+
+export type HazardOutcome = 'alerted' | 'duplicate' | 'ignored';
+
+export interface HazardLogEntry {
+  time: number;
+  mode: AppMode;
+  hazard: SceneHazard;
+  outcome: HazardOutcome;
+}
+
+export const ALARM_SEVERITIES: Record<HazardSensitivity, HazardSeverity[]> = {
+  low: ['high'],
+  medium: ['high', 'medium'],
+  high: ['high', 'medium', 'low'],
+};
+
+const SEVERITY_RANK: Record<HazardSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+// How long a warning covers the same hazard
+export const HAZARD_COOLDOWN_MS = 20000;
+const LOG_KEY = 'echo-vision:hazard-log';
+const MAX_LOG_ENTRIES = 200;
+
+const readLog = (): HazardLogEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+    return Array.isArray(data) ? data : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+let log: HazardLogEntry[] = readLog();
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (e) {}
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// The same thing in roughly the same direction; without a direction the name alone decides
+const isSameHazard = (a: SceneHazard, b: SceneHazard) => {
+  if (a.name.trim().toLowerCase() !== b.name.trim().toLowerCase()) return false;
+  if (a.clock === undefined || b.clock === undefined) return true;
+  const hours = Math.abs(a.clock - b.clock) % 12;
+  return Math.min(hours, 12 - hours) <= 1;
+};
+
+// Worth a fresh alarm even inside the cooldown
+const isEscalation = (previous: SceneHazard, next: SceneHazard) =>
+  SEVERITY_RANK[next.severity] > SEVERITY_RANK[previous.severity] ||
+  (previous.distanceMeters !== undefined && next.distanceMeters !== undefined && next.distanceMeters <= previous.distanceMeters / 2);
+
+// Logs the hazard and says whether to sound the alarm for it
+export const screenHazard = (hazard: SceneHazard, mode: AppMode, now = Date.now()): HazardOutcome => {
+  const previous = log.find(entry =>
+    entry.outcome === 'alerted' && now - entry.time < HAZARD_COOLDOWN_MS && isSameHazard(entry.hazard, hazard)
+  );
+  const outcome: HazardOutcome = !ALARM_SEVERITIES[getSettings().hazardSensitivity].includes(hazard.severity)
+    ? 'ignored'
+    : previous && !isEscalation(previous.hazard, hazard) ? 'duplicate' : 'alerted';
+  log = [{ time: now, mode, hazard, outcome }, ...log].slice(0, MAX_LOG_ENTRIES);
+  persist();
+  notify();
+  return outcome;
+};
+
+// Newest first
+export const getHazardLog = () => log;
+
+export const clearHazardLog = () => {
+  log = [];
+  persist();
+  notify();
+};
+
+export const subscribeHazardLog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useHazardLog = () => useSyncExternalStore(subscribeHazardLog, getHazardLog);
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LiveServerToolCall } from '@google/genai';
+import { LiveToolContext, ToolResult, handleToolCall, liveToolsConfig } from './liveTools.ts';
+
+// Everything a tool can reach, stubbed; tests override what they need
+const createContext = (overrides: Partial<LiveToolContext> = {}): LiveToolContext => ({
+  getLastAnswer: () => null,
+  setSpeechStyle: vi.fn(),
+  setFrameRate: vi.fn((fps: number) => Math.min(4, Math.max(0.5, fps))),
+  isSessionActive: () => true,
+  startSession: vi.fn(),
+  stopSession: vi.fn(),
+  restartSession: vi.fn(),
+  switchMode: vi.fn(),
+  startSearch: vi.fn(),
+  isLocationShared: () => false,
+  describeLocation: async () => null,
+  reportHazard: vi.fn(() => 'alerted' as const),
+  ...overrides,
+});
+
+const createSession = () => ({ sendToolResponse: vi.fn() });
+
+// Runs a single function call through the registry, as the live session would
+const callTool = async (name: string, args: Record<string, unknown> = {}, ctx = createContext()) => {
+  const session = createSession();
+  const toolCall: LiveServerToolCall = { functionCalls: [{ id: 'call-1', name, args }] };
+  const responses = await handleToolCall(toolCall, session, ctx);
+  return { session, ctx, response: responses[0].response as ToolResult };
+};
+
+describe('repeat_last_answer', () => {
+  it('returns the previous answer to read back', async () => {
+    const { response } = await callTool('repeat_last_answer', {}, createContext({ getLastAnswer: () => 'The door is ahead.' }));
+    expect(response.text).toBe('The door is ahead.');
+  });
+
+  it('reports when there is nothing to repeat', async () => {
+    const { response } = await callTool('repeat_last_answer');
+    expect(response.error).toBeDefined();
+  });
+});
+
+describe('set_speech_style', () => {
+  it('applies the rate and verbosity', async () => {
+    const { ctx, response } = await callTool('set_speech_style', { rate: 'slow', verbosity: 'brief' });
+    expect(ctx.setSpeechStyle).toHaveBeenCalledWith({ rate: 'slow', verbosity: 'brief' });
+    expect(response.ok).toBe(true);
+  });
+
+  it('rejects an unknown rate without changing anything', async () => {
+    const { ctx, response } = await callTool('set_speech_style', { rate: 'ludicrous' });
+    expect(ctx.setSpeechStyle).not.toHaveBeenCalled();
+    expect(response.error).toMatch(/rate/);
+  });
+
+  it('needs at least one of rate or verbosity', async () => {
+    const { ctx, response } = await callTool('set_speech_style', {});
+    expect(ctx.setSpeechStyle).not.toHaveBeenCalled();
+    expect(response.error).toBeDefined();
+  });
+});
+
+describe('set_frame_rate', () => {
+  it('reports the rate actually applied', async () => {
+    const { ctx, response } = await callTool('set_frame_rate', { framesPerSecond: 10 });
+    expect(ctx.setFrameRate).toHaveBeenCalledWith(10);
+    expect(response).toEqual({ ok: true, framesPerSecond: 4 });
+  });
+
+  it('rejects a rate that is not positive', async () => {
+    const { ctx, response } = await callTool('set_frame_rate', { framesPerSecond: 0 });
+    expect(ctx.setFrameRate).not.toHaveBeenCalled();
+    expect(response.error).toBeDefined();
+  });
+});
+
+describe('control_session', () => {
+  it('starts the assistant when it is stopped', async () => {
+    const { ctx } = await callTool('control_session', { action: 'start' }, createContext({ isSessionActive: () => false }));
+    expect(ctx.startSession).toHaveBeenCalled();
+  });
+
+  it('does not start a second session', async () => {
+    const { ctx, response } = await callTool('control_session', { action: 'start' });
+    expect(ctx.startSession).not.toHaveBeenCalled();
+    expect(response.note).toBeDefined();
+  });
+
+  it('stops and restarts', async () => {
+    const { ctx: stopped } = await callTool('control_session', { action: 'stop' });
+    expect(stopped.stopSession).toHaveBeenCalled();
+    const { ctx: restarted } = await callTool('control_session', { action: 'restart' });
+    expect(restarted.restartSession).toHaveBeenCalled();
+  });
+});
+
+describe('switch_mode', () => {
+  it('switches to the requested mode', async () => {
+    const { ctx } = await callTool('switch_mode', { mode: 'READ' });
+    expect(ctx.switchMode).toHaveBeenCalledWith('READ');
+  });
+
+  it('rejects an unknown mode', async () => {
+    const { ctx, response } = await callTool('switch_mode', { mode: 'DANCE' });
+    expect(ctx.switchMode).not.toHaveBeenCalled();
+    expect(response.error).toMatch(/mode/);
+  });
+});
+
+describe('start_search', () => {
+  it('starts a search for the trimmed target', async () => {
+    const { ctx } = await callTool('start_search', { target: '  my keys ' });
+    expect(ctx.startSearch).toHaveBeenCalledWith('my keys');
+  });
+
+  it('needs a target', async () => {
+    const { ctx, response } = await callTool('start_search', { target: ' ' });
+    expect(ctx.startSearch).not.toHaveBeenCalled();
+    expect(response.error).toBeDefined();
+  });
+});
+
+describe('where_am_i', () => {
+  it('points to the setting while sharing is off', async () => {
+    const { response } = await callTool('where_am_i');
+    expect(response.error).toMatch(/Share my location/);
+  });
+
+  it('returns the description while sharing is on', async () => {
+    const ctx = createContext({ isLocationShared: () => true, describeLocation: async () => 'Near the station.' });
+    const { response } = await callTool('where_am_i', {}, ctx);
+    expect(response.description).toBe('Near the station.');
+  });
+});
+
+describe('report_hazard', () => {
+  it('passes the parsed hazard on', async () => {
+    const { ctx } = await callTool('report_hazard', { name: 'stairs', severity: 'high', clock: 12, distanceMeters: 2 });
+    expect(ctx.reportHazard).toHaveBeenCalledWith({ name: 'stairs', severity: 'high', clock: 12, distanceMeters: 2 });
+  });
+
+  it('asks the model to mention hazards that sounded no alarm', async () => {
+    const ctx = createContext({ reportHazard: vi.fn(() => 'ignored' as const) });
+    const { response } = await callTool('report_hazard', { name: 'puddle', severity: 'low' }, ctx);
+    expect(response.instruction).toMatch(/Mention it/);
+  });
+});
+
+describe('handleToolCall', () => {
+  it('answers every call in one response, unknown tools included', async () => {
+    const session = createSession();
+    await handleToolCall({
+      functionCalls: [
+        { id: 'a', name: 'stop_everything', args: {} },
+        { id: 'b', name: 'control_session', args: { action: 'stop' } },
+      ],
+    }, session, createContext());
+    expect(session.sendToolResponse).toHaveBeenCalledTimes(1);
+    const [{ functionResponses }] = session.sendToolResponse.mock.calls[0];
+    expect(functionResponses.map((r: any) => r.id)).toEqual(['a', 'b']);
+    expect(functionResponses[0].response.error).toMatch(/Unknown tool/);
+  });
+
+  it('sends nothing without function calls', async () => {
+    const session = createSession();
+    await handleToolCall({}, session, createContext());
+    expect(session.sendToolResponse).not.toHaveBeenCalled();
+  });
+
+  it('declares every tool to the model', () => {
+    const [{ functionDeclarations }] = liveToolsConfig();
+    expect(functionDeclarations?.map(d => d.name)).toContain('report_hazard');
+  });
+});
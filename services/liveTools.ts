@@ -0,0 +1,258 @@
+import { FunctionDeclaration, FunctionResponse, LiveServerToolCall, Tool, Type } from '@google/genai';
+import { AppMode, SceneHazard, SpeechRate, Verbosity } from '../types.ts';
+import { HAZARD_SCHEMA, parseHazard } from '../utils/scene.ts';
+import { HazardOutcome } from './hazardAlerts.ts';
+
+// What the tools are allowed to do to the app. EchoVision provides the real implementation;
+// anything with these methods (e.g. a stub) can drive the registry.
+export interface LiveToolContext {
+  getLastAnswer: () => string | null;
+  setSpeechStyle: (style: { rate?: SpeechRate; verbosity?: Verbosity }) => void;
+  // Returns the frame rate actually applied after clamping
+  setFrameRate: (framesPerSecond: number) => number;
+  isSessionActive: () => boolean;
+  startSession: () => void;
+  stopSession: () => void;
+  restartSession: () => void;
+  switchMode: (mode: AppMode) => void;
+  startSearch: (target: string) => void;
+  isLocationShared: () => boolean;
+  // Place and heading in the user's language, or null while unknown
+  describeLocation: () => Promise<string | null>;
+  // Sounds the alarm and speaks the warning unless it was just given or is below the user's sensitivity
+  reportHazard: (hazard: SceneHazard) => HazardOutcome;
+}
+
+// The subset of the live session the registry needs
+export interface ToolResponder {
+  sendToolResponse: (params: { functionResponses: FunctionResponse[] }) => void;
+}
+
+export type ToolResult = Record<string, unknown>;
+
+export interface LiveTool<Args> {
+  declaration: FunctionDeclaration & { name: string };
+  // Validates and narrows the model-supplied arguments; throw to report a bad call
+  parseArgs: (raw: Record<string, unknown>) => Args;
+  execute: (args: Args, ctx: LiveToolContext) => ToolResult | Promise<ToolResult>;
+}
+
+const defineTool = <Args>(tool: LiveTool<Args>) => tool;
+
+const SPEECH_RATES: SpeechRate[] = ['slow', 'normal', 'fast'];
+const VERBOSITIES: Verbosity[] = ['brief', 'normal', 'detailed'];
+const APP_MODES: AppMode[] = ['LIVE', 'GALLERY', 'SEARCH', 'READ'];
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], field: string): T => {
+  if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+  throw new Error(`${field} must be one of ${allowed.join(', ')}`);
+};
+
+export const repeatLastAnswerTool = defineTool<Record<string, never>>({
+  declaration: {
+    name: 'repeat_last_answer',
+    description: 'Fetches the exact text of your previous answer when the user asks you to repeat or read it again.',
+  },
+  parseArgs: () => ({}),
+  execute: (_, ctx) => {
+    const text = ctx.getLastAnswer();
+    return text
+      ? { text, instruction: 'Read this text back to the user verbatim.' }
+      : { error: 'There is no previous answer yet.' };
+  },
+});
+
+export const setSpeechStyleTool = defineTool<{ rate?: SpeechRate; verbosity?: Verbosity }>({
+  declaration: {
+    name: 'set_speech_style',
+    description: 'Changes how fast you speak or how much detail you give, when the user asks to slow down, speed up, be briefer or give more detail.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        rate: { type: Type.STRING, enum: SPEECH_RATES, description: 'Speaking speed.' },
+        verbosity: { type: Type.STRING, enum: VERBOSITIES, description: 'Amount of detail in answers.' },
+      },
+    },
+  },
+  parseArgs: (raw) => {
+    const args: { rate?: SpeechRate; verbosity?: Verbosity } = {};
+    if (raw.rate !== undefined) args.rate = oneOf(raw.rate, SPEECH_RATES, 'rate');
+    if (raw.verbosity !== undefined) args.verbosity = oneOf(raw.verbosity, VERBOSITIES, 'verbosity');
+    if (!args.rate && !args.verbosity) throw new Error('Provide rate or verbosity.');
+    return args;
+  },
+  execute: (args, ctx) => {
+    ctx.setSpeechStyle(args);
+    const notes = [];
+    if (args.rate) notes.push(`Speak at a ${args.rate} pace from now on.`);
+    if (args.verbosity) notes.push(`Keep answers ${args.verbosity} from now on.`);
+    return { ok: true, instruction: notes.join(' ') };
+  },
+});
+
+export const setFrameRateTool = defineTool<{ framesPerSecond: number }>({
+  declaration: {
+    name: 'set_frame_rate',
+    description: 'Changes how many camera frames per second you receive. Use a higher rate when the user is moving or asks for faster updates, lower to save data.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        framesPerSecond: { type: Type.NUMBER, description: 'Frames per second, between 0.5 and 4.' },
+      },
+      required: ['framesPerSecond'],
+    },
+  },
+  parseArgs: (raw) => {
+    const fps = Number(raw.framesPerSecond);
+    if (!Number.isFinite(fps) || fps <= 0) throw new Error('framesPerSecond must be a positive number.');
+    return { framesPerSecond: fps };
+  },
+  execute: (args, ctx) => ({ ok: true, framesPerSecond: ctx.setFrameRate(args.framesPerSecond) }),
+});
+
+export const controlSessionTool = defineTool<{ action: 'start' | 'stop' | 'restart' }>({
+  declaration: {
+    name: 'control_session',
+    description: 'Starts, stops or restarts the live assistant when the user says stop, start or start over.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        action: { type: Type.STRING, enum: ['start', 'stop', 'restart'] },
+      },
+      required: ['action'],
+    },
+  },
+  parseArgs: (raw) => ({ action: oneOf(raw.action, ['start', 'stop', 'restart'], 'action') }),
+  execute: (args, ctx) => {
+    if (args.action === 'start') {
+      if (ctx.isSessionActive()) return { ok: true, note: 'The assistant is already running.' };
+      ctx.startSession();
+    } else if (args.action === 'stop') {
+      ctx.stopSession();
+    } else {
+      ctx.restartSession();
+    }
+    return { ok: true };
+  },
+});
+
+export const switchModeTool = defineTool<{ mode: AppMode }>({
+  declaration: {
+    name: 'switch_mode',
+    description: 'Switches the app to another mode: LIVE (this live vision assistant), GALLERY (ask about a photo or video file), SEARCH (guided search for an object) or READ (capture and read a document aloud). Switching away ends this conversation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mode: { type: Type.STRING, enum: APP_MODES },
+      },
+      required: ['mode'],
+    },
+  },
+  parseArgs: (raw) => ({ mode: oneOf(raw.mode, APP_MODES, 'mode') }),
+  execute: (args, ctx) => {
+    ctx.switchMode(args.mode);
+    return { ok: true };
+  },
+});
+
+export const startSearchTool = defineTool<{ target: string }>({
+  declaration: {
+    name: 'start_search',
+    description: 'Starts a guided search that leads the user to a specific object, e.g. "find my keys". This ends the live conversation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        target: { type: Type.STRING, description: 'The object to find, as the user described it.' },
+      },
+      required: ['target'],
+    },
+  },
+  parseArgs: (raw) => {
+    const target = typeof raw.target === 'string' ? raw.target.trim() : '';
+    if (!target) throw new Error('target is required.');
+    return { target };
+  },
+  execute: (args, ctx) => {
+    ctx.startSearch(args.target);
+    return { ok: true };
+  },
+});
+
+export const whereAmITool = defineTool<Record<string, never>>({
+  declaration: {
+    name: 'where_am_i',
+    description: 'Looks up where the user is and which way they are facing, when they ask where they are or which way they are heading.',
+  },
+  parseArgs: () => ({}),
+  execute: async (_, ctx) => {
+    if (!ctx.isLocationShared()) {
+      return { error: 'Location sharing is off. Tell the user they can turn on "Share my location" in Settings.' };
+    }
+    const description = await ctx.describeLocation();
+    return description
+      ? { description, instruction: 'Tell the user this in your own words.' }
+      : { error: 'The location is not known yet. Ask the user to try again in a moment.' };
+  },
+});
+
+export const reportHazardTool = defineTool<SceneHazard>({
+  declaration: {
+    name: 'report_hazard',
+    description: 'Raises an immediate alarm about something that could hurt the user right now: stairs or a drop, approaching traffic, an obstacle in their path, a low branch. Call it as soon as you see the hazard, before describing anything else.',
+    parameters: HAZARD_SCHEMA,
+  },
+  parseArgs: (raw) => {
+    const hazard = parseHazard(raw);
+    if (!hazard) throw new Error('name is required.');
+    return hazard;
+  },
+  execute: (hazard, ctx) => {
+    const outcome = ctx.reportHazard(hazard);
+    if (outcome === 'alerted') return { ok: true, instruction: 'The app sounded an alarm and spoke the warning. Do not repeat it.' };
+    if (outcome === 'duplicate') return { ok: true, instruction: 'The user was warned about this moments ago. Do not repeat it.' };
+    return { ok: true, instruction: 'No alarm was sounded for this. Mention it briefly yourself.' };
+  },
+});
+
+export const LIVE_TOOLS: LiveTool<any>[] = [
+  reportHazardTool,
+  repeatLastAnswerTool,
+  setSpeechStyleTool,
+  setFrameRateTool,
+  controlSessionTool,
+  switchModeTool,
+  startSearchTool,
+  whereAmITool,
+];
+
+export const liveToolsConfig = (tools: LiveTool<any>[] = LIVE_TOOLS): Tool[] => [
+  { functionDeclarations: tools.map(tool => tool.declaration) },
+];
+
+// Runs every function call in a toolCall message and answers them in one sendToolResponse.
+// Failures are reported back to the model rather than thrown.
+export const handleToolCall = async (
+  toolCall: LiveServerToolCall,
+  session: ToolResponder,
+  ctx: LiveToolContext,
+  tools: LiveTool<any>[] = LIVE_TOOLS
+) => {
+  const functionResponses: FunctionResponse[] = await Promise.all(
+    (toolCall.functionCalls ?? []).map(async (call) => {
+      const tool = tools.find(t => t.declaration.name === call.name);
+      let response: ToolResult;
+      if (!tool) {
+        response = { error: `Unknown tool ${call.name}` };
+      } else {
+        try {
+          response = await tool.execute(tool.parseArgs(call.args ?? {}), ctx);
+        } catch (e: any) {
+          response = { error: e?.message || 'Tool failed' };
+        }
+      }
+      return { id: call.id, name: call.name, response };
+    })
+  );
+  if (functionResponses.length > 0) session.sendToolResponse({ functionResponses });
+  return functionResponses;
+};
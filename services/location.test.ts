@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { compassPoint } from './location.ts';
+
+describe('compassPoint', () => {
+  it('names the eight points', () => {
+    expect([0, 45, 90, 135, 180, 225, 270, 315].map(compassPoint)).toEqual(['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw']);
+  });
+
+  it('rounds to the nearest point', () => {
+    expect(compassPoint(22)).toBe('n');
+    expect(compassPoint(23)).toBe('ne');
+    expect(compassPoint(350)).toBe('n');
+  });
+
+  it('wraps headings outside 0..360', () => {
+    expect(compassPoint(360)).toBe('n');
+    expect(compassPoint(-90)).toBe('w');
+    expect(compassPoint(450)).toBe('e');
+  });
+});
@@ -0,0 +1,123 @@
+import { useSyncExternalStore } from 'react';
+import { Language } from '../types.ts';
+import { getSettings, subscribeSettings } from './settings.ts';
+import { getReverseGeocoder } from './geocoder.ts';
+import { PermissionStatus, requestPermission } from './permissions.ts';
+import { translate, MessageKey } from '../i18n/index.ts';
+
+// Where the user is and which way the phone points. Sensors only run while something is
+// subscribed and the user has turned on location sharing; otherwise the state stays empty.
+
+export interface LocationState {
+  position: { latitude: number; longitude: number; accuracy: number } | null;
+  // Degrees clockwise from north that the top of the phone points to, when there is a compass
+  heading: number | null;
+}
+
+type CompassPoint = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+const COMPASS_POINTS: CompassPoint[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+
+// Orientation events fire at screen rate; smaller turns aren't worth a re-render
+const HEADING_STEP_DEGREES = 5;
+const POSITION_MAX_AGE_MS = 10000;
+
+const EMPTY: LocationState = { position: null, heading: null };
+
+let state: LocationState = EMPTY;
+const listeners = new Set<() => void>();
+let watchId: number | null = null;
+let orientationEvent: 'deviceorientationabsolute' | 'deviceorientation' | null = null;
+
+const publish = (changes: Partial<LocationState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+export const compassPoint = (heading: number): CompassPoint =>
+  COMPASS_POINTS[Math.round((((heading % 360) + 360) % 360) / 45) % 8];
+
+const handleOrientation = (e: DeviceOrientationEvent) => {
+  // iOS reports a true compass heading; elsewhere only absolute readings are relative to north
+  const compass = (e as any).webkitCompassHeading;
+  let heading: number;
+  if (typeof compass === 'number') heading = compass;
+  else if (e.absolute && e.alpha !== null) heading = 360 - e.alpha;
+  else return;
+  // Sensors report relative to the device's natural orientation, not the rotated screen
+  heading = (heading + (screen.orientation?.angle ?? 0)) % 360;
+  const previous = state.heading;
+  if (previous !== null && Math.abs(((heading - previous + 540) % 360) - 180) < HEADING_STEP_DEGREES) return;
+  publish({ heading });
+};
+
+const start = () => {
+  if (watchId !== null || !('geolocation' in navigator)) return;
+  watchId = navigator.geolocation.watchPosition(
+    ({ coords }) => publish({ position: { latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy } }),
+    () => {},
+    { enableHighAccuracy: true, maximumAge: POSITION_MAX_AGE_MS }
+  );
+  orientationEvent = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+  window.addEventListener(orientationEvent, handleOrientation as EventListener);
+};
+
+const stop = () => {
+  if (watchId === null) return;
+  navigator.geolocation.clearWatch(watchId);
+  watchId = null;
+  if (orientationEvent) window.removeEventListener(orientationEvent, handleOrientation as EventListener);
+  orientationEvent = null;
+  publish(EMPTY);
+};
+
+const sync = () => {
+  if (listeners.size > 0 && getSettings().shareLocation) start();
+  else stop();
+};
+
+if (typeof window !== 'undefined') subscribeSettings(sync);
+
+export const getLocation = () => state;
+
+export const subscribeLocation = (listener: () => void) => {
+  listeners.add(listener);
+  sync();
+  return () => {
+    listeners.delete(listener);
+    sync();
+  };
+};
+
+export const useLocation = () => useSyncExternalStore(subscribeLocation, getLocation);
+
+// Must be called from a user gesture: iOS only grants the compass in response to one.
+export const requestLocationAccess = async (): Promise<PermissionStatus> => {
+  const orientation = (window as any).DeviceOrientationEvent;
+  // The compass is a nice-to-have; position alone is still useful
+  const compass = typeof orientation?.requestPermission === 'function'
+    ? orientation.requestPermission().catch(() => 'denied')
+    : Promise.resolve('granted');
+  const [status] = await Promise.all([requestPermission('geolocation'), compass]);
+  return status;
+};
+
+// "You are near Central Station, facing north-east." in the given language, or null when
+// sharing is off or nothing is known yet.
+export const describeLocation = async (language: Language): Promise<string | null> => {
+  if (!getSettings().shareLocation) return null;
+  const { position, heading } = state;
+  const tr = (key: MessageKey, params?: Record<string, string>) => translate(language, key, params);
+  const direction = heading !== null ? tr(`location.direction.${compassPoint(heading)}`) : null;
+  if (!position) return direction ? tr('location.facing', { direction }) : null;
+
+  let place = null;
+  try {
+    place = await getReverseGeocoder().reverse(position.latitude, position.longitude);
+  } catch (e) {}
+  if (place) {
+    return direction ? tr('location.nearFacing', { place: place.name, direction }) : tr('location.near', { place: place.name });
+  }
+  // About 10 m of precision is plenty to describe where someone is
+  const coordinates = { latitude: position.latitude.toFixed(4), longitude: position.longitude.toFixed(4) };
+  return direction ? tr('location.atFacing', { ...coordinates, direction }) : tr('location.at', coordinates);
+};
@@ -0,0 +1,77 @@
+import { GenerateContentConfig, Part, createPartFromUri } from '@google/genai';
+import { UploadedMedia, VisionBackend } from './backend.ts';
+import { Keyframe, formatTimestamp } from '../utils/videoFrames.ts';
+
+// Keyframe sequences upload a few files at a time
+const UPLOAD_CONCURRENCY = 4;
+
+// A conversation about a set of photos and videos. Each item is uploaded once when it is
+// added and attached, after its label, to the next question; follow-ups only send the question.
+export interface MediaChat {
+  // The label (e.g. "image 2") is how the user and the model refer to the item
+  add: (media: Blob, label: string) => void;
+  // A video sent as keyframes, each introduced by the label and its timestamp
+  addSequence: (frames: Keyframe[], audio: Blob | null, label: string) => void;
+  send: (parts: Part[]) => Promise<string>;
+  // Deletes the uploaded files; the chat can't be used afterwards
+  end: () => void;
+}
+
+interface PendingMedia {
+  parts: Promise<Part[]>;
+}
+
+export const startMediaChat = (backend: VisionBackend, config: GenerateContentConfig): MediaChat => {
+  let ended = false;
+  const uploads: Promise<UploadedMedia>[] = [];
+  // Added but not yet seen by the model
+  let pending: PendingMedia[] = [];
+  const chat = backend.startChat(config);
+
+  const upload = (media: Blob) => {
+    if (ended) return Promise.reject(new Error('Media chat has ended'));
+    const file = backend.upload(media);
+    uploads.push(file);
+    return file.then(uploaded => createPartFromUri(uploaded.uri, uploaded.mimeType));
+  };
+
+  const queue = (parts: Promise<Part[]>) => {
+    // Upload errors are reported by the next send
+    parts.catch(() => {});
+    pending.push({ parts });
+  };
+
+  return {
+    add: (media, label) => {
+      if (ended) return;
+      queue(upload(media).then(part => [{ text: `${label}:` }, part]));
+    },
+    addSequence: (frames, audio, label) => {
+      if (ended) return;
+      queue((async () => {
+        const parts: Part[] = [];
+        for (let i = 0; i < frames.length; i += UPLOAD_CONCURRENCY) {
+          const batch = frames.slice(i, i + UPLOAD_CONCURRENCY);
+          const uploaded = await Promise.all(batch.map(frame => upload(frame.blob)));
+          batch.forEach((frame, j) => parts.push({ text: `${label} ${formatTimestamp(frame.time)}:` }, uploaded[j]));
+        }
+        if (audio) parts.push({ text: `${label} audio:` }, await upload(audio));
+        return parts;
+      })());
+    },
+    send: async (parts) => {
+      if (ended) throw new Error('Media chat has ended');
+      const attached = pending;
+      const mediaParts = (await Promise.all(attached.map(item => item.parts))).flat();
+      const text = await chat.send([...mediaParts, ...parts]);
+      // Only once the model has seen them; a failed question attaches them again
+      pending = pending.filter(item => !attached.includes(item));
+      return text;
+    },
+    end: () => {
+      if (ended) return;
+      ended = true;
+      uploads.forEach(file => file.then(uploaded => backend.remove(uploaded.name)).catch(() => {}));
+    },
+  };
+};
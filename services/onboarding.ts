@@ -0,0 +1,17 @@
+const ONBOARDING_KEY = 'echo-vision:onboarding-complete';
+
+export const hasCompletedOnboarding = () => {
+  try {
+    return localStorage.getItem(ONBOARDING_KEY) === 'true';
+  } catch (e) {
+    return false;
+  }
+};
+
+export const markOnboardingComplete = () => {
+  try {
+    localStorage.setItem(ONBOARDING_KEY, 'true');
+  } catch (e) {
+    // Private mode / storage disabled: the tutorial will simply show again next time
+  }
+};
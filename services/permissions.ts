@@ -0,0 +1,29 @@
+export type PermissionKind = 'camera' | 'microphone' | 'geolocation';
+export type PermissionStatus = 'granted' | 'denied' | 'prompt' | 'unknown';
+
+export const queryPermission = async (kind: PermissionKind): Promise<PermissionStatus> => {
+  try {
+    // 'camera' and 'microphone' aren't in every browser's PermissionName list
+    const result = await navigator.permissions.query({ name: kind as PermissionName });
+    return result.state;
+  } catch (e) {
+    return 'unknown';
+  }
+};
+
+// Triggers the browser prompt (or re-checks an existing grant) and releases anything it acquired.
+export const requestPermission = async (kind: PermissionKind): Promise<PermissionStatus> => {
+  try {
+    if (kind === 'geolocation') {
+      await new Promise<GeolocationPosition>((resolve, reject) =>
+        navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 10000 })
+      );
+    } else {
+      const stream = await navigator.mediaDevices.getUserMedia(kind === 'camera' ? { video: true } : { audio: true });
+      stream.getTracks().forEach(track => track.stop());
+    }
+    return 'granted';
+  } catch (e) {
+    return queryPermission(kind).then(status => (status === 'unknown' ? 'denied' : status));
+  }
+};
@@ -0,0 +1,234 @@
+import { AppMode } from '../types.ts';
+import { openDatabase, requestToPromise, transactionDone } from './idb.ts';
+import { getSettings } from './settings.ts';
+import { LIVE_INPUT_SAMPLE_RATE, LIVE_OUTPUT_SAMPLE_RATE, decodeBase64, pcm16ToWav } from '../utils/audio.ts';
+import { createZip, ZipEntry } from '../utils/zip.ts';
+import { FrameStats } from '../utils/frameScheduler.ts';
+
+// Opt-in recordings of live sessions: the frames and audio that were sent, the model's audio
+// and the transcription, so a caregiver or developer can see exactly what Echo saw and said.
+// Everything stays on this device until the user exports it.
+
+const DB_NAME = 'echo-vision-recordings';
+const DB_VERSION = 1;
+const RECORDINGS_STORE = 'recordings';
+const EVENTS_STORE = 'events';
+
+// Events are buffered and written in batches; mic audio alone arrives ten times a second
+const FLUSH_INTERVAL_MS = 2000;
+// Kept regardless of the retention period, newest first
+export const MAX_RECORDINGS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Recording {
+  id: string;
+  mode: AppMode;
+  startedAt: number;
+  durationMs: number;
+  // Approximate stored size, for the list
+  bytes: number;
+  eventCount: number;
+  // Events lost to storage failures; an export of this recording is incomplete
+  droppedEvents?: number;
+}
+
+// frame: base64 JPEG that was sent. mic / model: base64 16-bit PCM at the live input and output
+// rates. input / output: transcription chunks. turnComplete / interrupted: turn boundaries.
+// frameStats: the frame scheduler's counters as JSON, once the session ends.
+export type RecordingEventKind = 'frame' | 'mic' | 'model' | 'input' | 'output' | 'turnComplete' | 'interrupted' | 'frameStats';
+
+export interface RecordingEvent {
+  recordingId: string;
+  seq: number;
+  // Milliseconds from the start of the recording. Model audio uses the time it was played.
+  time: number;
+  kind: RecordingEventKind;
+  data?: string;
+}
+
+export interface SessionRecorder {
+  frame: (jpegBase64: string) => void;
+  micAudio: (pcmBase64: string) => void;
+  // playAt is the wall-clock time (ms) the chunk is scheduled to start playing
+  modelAudio: (pcmBase64: string, playAt: number) => void;
+  transcript: (kind: 'input' | 'output', text: string) => void;
+  marker: (kind: 'turnComplete' | 'interrupted') => void;
+  frameStats: (stats: FrameStats) => void;
+  // Writes whatever is still buffered
+  stop: () => Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+        db.createObjectStore(EVENTS_STORE, { keyPath: ['recordingId', 'seq'] });
+      }
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const eventsOf = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+const writeBatch = async (recording: Recording, events: RecordingEvent[]) => {
+  const db = await getDb();
+  const tx = db.transaction([RECORDINGS_STORE, EVENTS_STORE], 'readwrite');
+  tx.objectStore(RECORDINGS_STORE).put(recording);
+  const store = tx.objectStore(EVENTS_STORE);
+  events.forEach(event => store.put(event));
+  await transactionDone(tx);
+};
+
+export const listRecordings = async (): Promise<Recording[]> => {
+  const db = await getDb();
+  const recordings = await requestToPromise<Recording[]>(
+    db.transaction(RECORDINGS_STORE).objectStore(RECORDINGS_STORE).getAll()
+  );
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// In recording order; model audio may be timed later than events stored after it
+export const loadRecordingEvents = async (id: string): Promise<RecordingEvent[]> => {
+  const db = await getDb();
+  return requestToPromise<RecordingEvent[]>(db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).getAll(eventsOf(id)));
+};
+
+export const deleteRecording = async (id: string) => {
+  const db = await getDb();
+  const tx = db.transaction([RECORDINGS_STORE, EVENTS_STORE], 'readwrite');
+  tx.objectStore(RECORDINGS_STORE).delete(id);
+  tx.objectStore(EVENTS_STORE).delete(eventsOf(id));
+  await transactionDone(tx);
+};
+
+export const deleteAllRecordings = async () => {
+  const db = await getDb();
+  const tx = db.transaction([RECORDINGS_STORE, EVENTS_STORE], 'readwrite');
+  tx.objectStore(RECORDINGS_STORE).clear();
+  tx.objectStore(EVENTS_STORE).clear();
+  await transactionDone(tx);
+};
+
+// Drops recordings past the retention period, and the oldest beyond MAX_RECORDINGS
+export const pruneRecordings = async (retentionDays = getSettings().recordingRetentionDays) => {
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const expired = (await listRecordings()).filter((recording, i) => recording.startedAt < cutoff || i >= MAX_RECORDINGS);
+  for (const recording of expired) await deleteRecording(recording.id);
+  return expired.length;
+};
+
+// Returns null unless the user turned recording on, so callers can use `recorder?.frame(...)`.
+export const startRecorder = (mode: AppMode): SessionRecorder | null => {
+  if (!getSettings().recordSessions) return null;
+  const startedAt = Date.now();
+  const recording: Recording = {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    mode,
+    startedAt,
+    durationMs: 0,
+    bytes: 0,
+    eventCount: 0,
+  };
+  let buffer: RecordingEvent[] = [];
+  let seq = 0;
+  let stopped = false;
+  let writing = Promise.resolve();
+
+  // Recording must never interrupt live assistance: a batch that can't be stored is dropped and
+  // counted on the recording, which the next successful write saves
+  const flush = () => {
+    if (buffer.length === 0) return writing;
+    const batch = buffer;
+    buffer = [];
+    recording.durationMs = Math.max(recording.durationMs, Date.now() - startedAt);
+    const snapshot = { ...recording };
+    writing = writing.then(() => writeBatch(snapshot, batch)).catch(() => {
+      recording.droppedEvents = (recording.droppedEvents ?? 0) + batch.length;
+    });
+    return writing;
+  };
+
+  const timer = window.setInterval(flush, FLUSH_INTERVAL_MS);
+  pruneRecordings().catch(() => {});
+
+  const add = (kind: RecordingEventKind, data?: string, time = Date.now() - startedAt) => {
+    if (stopped) return;
+    buffer.push({ recordingId: recording.id, seq: seq++, time, kind, data });
+    recording.eventCount += 1;
+    recording.bytes += data?.length ?? 0;
+    recording.durationMs = Math.max(recording.durationMs, time);
+  };
+
+  return {
+    frame: (jpeg) => add('frame', jpeg),
+    micAudio: (pcm) => add('mic', pcm),
+    modelAudio: (pcm, playAt) => add('model', pcm, Math.max(0, playAt - startedAt)),
+    transcript: (kind, text) => add(kind, text),
+    marker: (kind) => add(kind),
+    frameStats: (stats) => add('frameStats', JSON.stringify(stats)),
+    stop: async () => {
+      if (stopped) return writing;
+      stopped = true;
+      window.clearInterval(timer);
+      await flush();
+      // No later batch will carry the count, so store it on its own
+      if (recording.droppedEvents) await writeBatch({ ...recording }, []).catch(() => {});
+    },
+  };
+};
+
+export const AUDIO_TRACK_RATES: Record<'mic' | 'model', number> = {
+  mic: LIVE_INPUT_SAMPLE_RATE,
+  model: LIVE_OUTPUT_SAMPLE_RATE,
+};
+
+// One continuous 16-bit PCM track with every chunk placed at its time, silence in between.
+// Mic audio is gated, so chunks can't simply be concatenated.
+export const buildAudioTrack = (events: RecordingEvent[], kind: 'mic' | 'model') => {
+  const sampleRate = AUDIO_TRACK_RATES[kind];
+  const chunks = events
+    .filter(event => event.kind === kind && event.data)
+    .map(event => ({ start: Math.round(event.time / 1000 * sampleRate), samples: new Int16Array(decodeBase64(event.data!).buffer) }));
+  const length = chunks.reduce((max, chunk) => Math.max(max, chunk.start + chunk.samples.length), 0);
+  const track = new Int16Array(length);
+  chunks.forEach(chunk => track.set(chunk.samples, chunk.start));
+  return new Uint8Array(track.buffer);
+};
+
+// A zip with manifest.json (metadata, transcript and frame timings), one JPEG per frame and
+// the mic and model audio as WAV files that start at time 0, so any player can line them up.
+export const exportRecording = async (recording: Recording): Promise<Blob> => {
+  const events = (await loadRecordingEvents(recording.id)).sort((a, b) => a.time - b.time || a.seq - b.seq);
+  const files: ZipEntry[] = [];
+  const timeline: { time: number; kind: RecordingEventKind; text?: string; file?: string }[] = [];
+  events.forEach(event => {
+    if (event.kind === 'frame' && event.data) {
+      const file = `frames/${String(files.length + 1).padStart(6, '0')}.jpg`;
+      files.push({ name: file, data: decodeBase64(event.data) });
+      timeline.push({ time: event.time, kind: event.kind, file });
+    } else if (event.kind !== 'mic' && event.kind !== 'model') {
+      timeline.push({ time: event.time, kind: event.kind, text: event.data });
+    }
+  });
+  const tracks = await Promise.all((['mic', 'model'] as const).map(async kind => {
+    const wav = pcm16ToWav(buildAudioTrack(events, kind), AUDIO_TRACK_RATES[kind]);
+    files.push({ name: `${kind}.wav`, data: new Uint8Array(await wav.arrayBuffer()) });
+    return [kind, { file: `${kind}.wav`, sampleRate: AUDIO_TRACK_RATES[kind] }];
+  }));
+  const manifest = {
+    format: 'echo-vision-recording',
+    version: 1,
+    recording,
+    // Times are milliseconds from the start of the recording
+    tracks: Object.fromEntries(tracks),
+    events: timeline,
+  };
+  return createZip([{ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }, ...files], new Date(recording.startedAt));
+};
@@ -0,0 +1,242 @@
+import { useSyncExternalStore } from 'react';
+import { HazardSensitivity, Language, LowDataMode, RecordMode, SpeechRate, Verbosity, VoiceName } from '../types.ts';
+import { BargeInMode } from '../utils/audio.ts';
+import { HapticSettings } from '../utils/haptics.ts';
+import { RESERVED_KEY_CODES } from '../utils/keyboard.ts';
+import { SpatialAudioSettings } from '../utils/spatialAudio.ts';
+
+export interface Settings {
+  voice: VoiceName;
+  speechRate: SpeechRate;
+  verbosity: Verbosity;
+  language: Language;
+  // Answer in whatever language the user spoke instead of always using `language`
+  matchSpokenLanguage: boolean;
+  // Base camera rate for the live session; the frame scheduler may burst above it
+  frameRate: number;
+  jpegQuality: number;
+  // Seconds between keyframes when a large video is analyzed as a frame sequence
+  videoFrameInterval: number;
+  bargeInMode: BargeInMode;
+  haptics: HapticSettings;
+  spatialAudio: SpatialAudioSettings;
+  recordMode: RecordMode;
+  // KeyboardEvent.code of the push-to-talk key in Media mode
+  pushToTalkKey: string;
+  // Send where the user is and which way they face along with questions. Off until they opt in.
+  shareLocation: boolean;
+  // Keep a local copy of live sessions (frames, audio, transcript) for review. Off until they opt in.
+  recordSessions: boolean;
+  recordingRetentionDays: number;
+  // Daily budgets for the spoken usage warnings; 0 means no budget
+  dataBudgetMb: number;
+  tokenBudget: number;
+  lowData: LowDataMode;
+  hazardSensitivity: HazardSensitivity;
+}
+
+export const SETTINGS_VERSION = 2;
+const SETTINGS_KEY = 'echo-vision:settings';
+
+// Keys written before the settings store existed; folded in by the version 0 migration
+const LEGACY_BARGE_IN_KEY = 'echo-vision:barge-in-mode';
+const LEGACY_HAPTICS_KEY = 'echo-vision:haptics';
+
+export const MIN_FRAME_RATE = 0.5;
+export const MAX_FRAME_RATE = 4;
+export const MIN_JPEG_QUALITY = 0.2;
+export const MAX_JPEG_QUALITY = 0.8;
+export const MIN_VIDEO_FRAME_INTERVAL = 1;
+export const MAX_VIDEO_FRAME_INTERVAL = 10;
+export const MIN_RECORDING_RETENTION_DAYS = 1;
+export const MAX_RECORDING_RETENTION_DAYS = 30;
+export const MAX_DATA_BUDGET_MB = 100000;
+export const MAX_TOKEN_BUDGET = 100000000;
+
+export const VOICES: VoiceName[] = ['Kore', 'Aoede', 'Leda', 'Zephyr', 'Puck', 'Charon', 'Fenrir', 'Orus'];
+
+// Labels are in the language itself so they can be found from any UI language
+export const LANGUAGES: Record<Language, { label: string; speechLang: string }> = {
+  en: { label: 'English', speechLang: 'en-US' },
+  fr: { label: 'Français', speechLang: 'fr-FR' },
+  es: { label: 'Español', speechLang: 'es-ES' },
+};
+
+const browserLanguage = (): Language | undefined => {
+  const code = typeof navigator !== 'undefined' ? navigator.language?.slice(0, 2).toLowerCase() : undefined;
+  return code && code in LANGUAGES ? (code as Language) : undefined;
+};
+
+// Multipliers for SpeechSynthesisUtterance.rate
+export const TTS_RATES: Record<SpeechRate, number> = { slow: 0.8, normal: 1, fast: 1.3 };
+
+export const DEFAULT_SETTINGS: Settings = {
+  voice: 'Kore',
+  speechRate: 'normal',
+  verbosity: 'normal',
+  language: 'en',
+  matchSpokenLanguage: false,
+  frameRate: 1.5,
+  jpegQuality: 0.4,
+  videoFrameInterval: 2,
+  bargeInMode: 'stop',
+  haptics: { enabled: true, intensity: 1 },
+  // Only useful with headphones, so it's opt-in
+  spatialAudio: { enabled: false, mode: 'hrtf', swapSides: false, width: 1 },
+  recordMode: 'hold',
+  pushToTalkKey: 'KeyM',
+  shareLocation: false,
+  recordSessions: false,
+  recordingRetentionDays: 7,
+  dataBudgetMb: 0,
+  tokenBudget: 0,
+  lowData: 'auto',
+  hazardSensitivity: 'medium',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+
+const pickNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? clamp(value, min, max) : fallback;
+
+// Fills in anything missing or malformed with defaults, so a bad stored value never breaks the app
+export const sanitizeSettings = (raw: any): Settings => {
+  const data = raw && typeof raw === 'object' ? raw : {};
+  const haptics = data.haptics && typeof data.haptics === 'object' ? data.haptics : {};
+  const spatial = data.spatialAudio && typeof data.spatialAudio === 'object' ? data.spatialAudio : {};
+  return {
+    voice: pick(data.voice, VOICES, DEFAULT_SETTINGS.voice),
+    speechRate: pick(data.speechRate, ['slow', 'normal', 'fast'] as const, DEFAULT_SETTINGS.speechRate),
+    verbosity: pick(data.verbosity, ['brief', 'normal', 'detailed'] as const, DEFAULT_SETTINGS.verbosity),
+    language: pick(data.language, Object.keys(LANGUAGES) as Language[], DEFAULT_SETTINGS.language),
+    matchSpokenLanguage: typeof data.matchSpokenLanguage === 'boolean' ? data.matchSpokenLanguage : DEFAULT_SETTINGS.matchSpokenLanguage,
+    frameRate: pickNumber(data.frameRate, MIN_FRAME_RATE, MAX_FRAME_RATE, DEFAULT_SETTINGS.frameRate),
+    jpegQuality: pickNumber(data.jpegQuality, MIN_JPEG_QUALITY, MAX_JPEG_QUALITY, DEFAULT_SETTINGS.jpegQuality),
+    videoFrameInterval: pickNumber(data.videoFrameInterval, MIN_VIDEO_FRAME_INTERVAL, MAX_VIDEO_FRAME_INTERVAL, DEFAULT_SETTINGS.videoFrameInterval),
+    bargeInMode: pick(data.bargeInMode, ['stop', 'duck'] as const, DEFAULT_SETTINGS.bargeInMode),
+    haptics: {
+      enabled: typeof haptics.enabled === 'boolean' ? haptics.enabled : DEFAULT_SETTINGS.haptics.enabled,
+      intensity: pickNumber(haptics.intensity, 0, 1, DEFAULT_SETTINGS.haptics.intensity),
+    },
+    spatialAudio: {
+      enabled: typeof spatial.enabled === 'boolean' ? spatial.enabled : DEFAULT_SETTINGS.spatialAudio.enabled,
+      mode: pick(spatial.mode, ['hrtf', 'stereo'] as const, DEFAULT_SETTINGS.spatialAudio.mode),
+      swapSides: typeof spatial.swapSides === 'boolean' ? spatial.swapSides : DEFAULT_SETTINGS.spatialAudio.swapSides,
+      width: pickNumber(spatial.width, 0.2, 1, DEFAULT_SETTINGS.spatialAudio.width),
+    },
+    recordMode: pick(data.recordMode, ['hold', 'toggle'] as const, DEFAULT_SETTINGS.recordMode),
+    pushToTalkKey: typeof data.pushToTalkKey === 'string' && data.pushToTalkKey && !RESERVED_KEY_CODES.includes(data.pushToTalkKey)
+      ? data.pushToTalkKey
+      : DEFAULT_SETTINGS.pushToTalkKey,
+    shareLocation: typeof data.shareLocation === 'boolean' ? data.shareLocation : DEFAULT_SETTINGS.shareLocation,
+    recordSessions: typeof data.recordSessions === 'boolean' ? data.recordSessions : DEFAULT_SETTINGS.recordSessions,
+    recordingRetentionDays: Math.round(pickNumber(
+      data.recordingRetentionDays, MIN_RECORDING_RETENTION_DAYS, MAX_RECORDING_RETENTION_DAYS, DEFAULT_SETTINGS.recordingRetentionDays
+    )),
+    dataBudgetMb: Math.round(pickNumber(data.dataBudgetMb, 0, MAX_DATA_BUDGET_MB, DEFAULT_SETTINGS.dataBudgetMb)),
+    tokenBudget: Math.round(pickNumber(data.tokenBudget, 0, MAX_TOKEN_BUDGET, DEFAULT_SETTINGS.tokenBudget)),
+    lowData: pick(data.lowData, ['off', 'auto', 'on'] as const, DEFAULT_SETTINGS.lowData),
+    hazardSensitivity: pick(data.hazardSensitivity, ['low', 'medium', 'high'] as const, DEFAULT_SETTINGS.hazardSensitivity),
+  };
+};
+
+const readLegacy = (key: string) => {
+  try {
+    const value = localStorage.getItem(key);
+    localStorage.removeItem(key);
+    return value;
+  } catch (e) {
+    return null;
+  }
+};
+
+// MIGRATIONS[n] turns version n data into version n + 1. Version 0 is "nothing stored yet",
+// which may still have the per-feature keys from earlier releases.
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: (data) => {
+    const bargeIn = readLegacy(LEGACY_BARGE_IN_KEY);
+    let haptics: unknown;
+    try {
+      haptics = JSON.parse(readLegacy(LEGACY_HAPTICS_KEY) || 'null') ?? undefined;
+    } catch (e) {
+      haptics = undefined;
+    }
+    return { ...data, bargeInMode: bargeIn ?? undefined, haptics };
+  },
+  // Version 2 added languages: start from the browser's language rather than English
+  1: (data) => ({
+    ...data,
+    language: !data.language || data.language === 'en' ? browserLanguage() ?? 'en' : data.language,
+    matchSpokenLanguage: false,
+  }),
+};
+
+export const migrateSettings = (stored: { version?: number; settings?: unknown } | null): Settings => {
+  let version = typeof stored?.version === 'number' ? stored.version : 0;
+  let data: any = stored?.settings ?? {};
+  // Data from a newer release: keep what we understand rather than discarding it
+  if (version > SETTINGS_VERSION) return sanitizeSettings(data);
+  while (version < SETTINGS_VERSION) {
+    data = MIGRATIONS[version](data);
+    version += 1;
+  }
+  return sanitizeSettings(data);
+};
+
+const readStored = () => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+  } catch (e) {
+    return null;
+  }
+};
+
+const persist = (settings: Settings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+  } catch (e) {
+    // Storage disabled: changes only last for this page load
+  }
+};
+
+let current: Settings | null = null;
+const listeners = new Set<(settings: Settings) => void>();
+
+const notify = () => listeners.forEach(listener => listener(current!));
+
+export const getSettings = (): Settings => {
+  if (!current) {
+    const stored = readStored();
+    current = migrateSettings(stored);
+    if (stored?.version !== SETTINGS_VERSION) persist(current);
+  }
+  return current;
+};
+
+export const updateSettings = (changes: Partial<Settings>) => {
+  current = sanitizeSettings({ ...getSettings(), ...changes });
+  persist(current);
+  notify();
+  return current;
+};
+
+export const resetSettings = () => updateSettings(DEFAULT_SETTINGS);
+
+export const subscribeSettings = (listener: (settings: Settings) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Keep other tabs in step
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== SETTINGS_KEY) return;
+    current = migrateSettings(readStored());
+    notify();
+  });
+}
+
+export const useSettings = () => useSyncExternalStore(subscribeSettings, getSettings);
@@ -0,0 +1,64 @@
+import { AppMode, Transcription, TranscriptSession } from '../types.ts';
+import { openDatabase, requestToPromise, transactionDone } from './idb.ts';
+
+const DB_NAME = 'echo-vision-transcripts';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const createSession = (mode: AppMode): TranscriptSession => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  mode,
+  startedAt: Date.now(),
+  turns: [],
+});
+
+export const saveSession = async (session: TranscriptSession) => {
+  const db = await getDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(tx);
+};
+
+// Appends a turn to the in-memory session and persists it. Rejects when storage fails; callers
+// let the user know but carry on, since losing history must never interrupt live assistance.
+export const appendTurn = async (session: TranscriptSession, turn: Transcription) => {
+  session.turns.push(turn);
+  await saveSession(session);
+};
+
+export const listSessions = async (): Promise<TranscriptSession[]> => {
+  const db = await getDb();
+  const sessions = await requestToPromise<TranscriptSession[]>(
+    db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+  );
+  return sessions.filter(s => s.turns.length > 0).sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteSession = async (id: string) => {
+  const db = await getDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const deleteTurn = async (session: TranscriptSession, index: number) => {
+  const updated = { ...session, turns: session.turns.filter((_, i) => i !== index) };
+  if (updated.turns.length === 0) await deleteSession(session.id);
+  else await saveSession(updated);
+  return updated;
+};
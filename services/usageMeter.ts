@@ -0,0 +1,208 @@
+import { useSyncExternalStore } from 'react';
+import { getSettings, subscribeSettings } from './settings.ts';
+import { speak } from '../utils/speech.ts';
+import { translate } from '../i18n/index.ts';
+
+// What the app sends to and receives from the model service: frames, bytes, audio and tokens,
+// kept for the current live session and per day. Daily budgets get spoken warnings as they are
+// approached; nothing is ever cut off. The low-data profile trims what the live loop streams.
+
+export interface Usage {
+  framesSent: number;
+  bytesSent: number;
+  bytesReceived: number;
+  audioSecondsSent: number;
+  audioSecondsReceived: number;
+  // Only where the API reports usageMetadata
+  tokens: number;
+}
+
+export interface UsageState {
+  // The live session in progress, or the last one once it has ended
+  session: Usage | null;
+  sessionActive: boolean;
+  today: Usage;
+}
+
+// What the data profile does to the live loop when it is on
+export const LOW_DATA_PROFILE = {
+  frameRate: 0.5,
+  jpegQuality: 0.25,
+  maxFrameWidth: 320,
+  voiceThreshold: 0.025,
+  hangoverMs: 300,
+};
+
+const USAGE_KEY = 'echo-vision:usage';
+const DAYS_KEPT = 30;
+// Warn once a day at each of these fractions of a budget
+const WARNING_LEVELS = [0.8, 1];
+// Counters change with every audio chunk; listeners and storage hear about it less often
+const NOTIFY_INTERVAL_MS = 1000;
+const PERSIST_INTERVAL_MS = 5000;
+
+const EMPTY_USAGE: Usage = { framesSent: 0, bytesSent: 0, bytesReceived: 0, audioSecondsSent: 0, audioSecondsReceived: 0, tokens: 0 };
+
+interface Stored {
+  // Local date (YYYY-MM-DD) -> totals for that day
+  days: Record<string, Usage>;
+  // Budget warnings already spoken, e.g. "2026-10-19 data 0.8"
+  warned: string[];
+}
+
+const dayKey = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const readStored = (): Stored => {
+  try {
+    const data = JSON.parse(localStorage.getItem(USAGE_KEY) || 'null');
+    if (data && typeof data.days === 'object') return { days: data.days, warned: Array.isArray(data.warned) ? data.warned : [] };
+  } catch (e) {}
+  return { days: {}, warned: [] };
+};
+
+const stored = readStored();
+let currentDay = dayKey();
+let state: UsageState = { session: null, sessionActive: false, today: { ...EMPTY_USAGE, ...stored.days[currentDay] } };
+const listeners = new Set<() => void>();
+let notifyTimer: number | null = null;
+let persistTimer: number | null = null;
+
+const persist = () => {
+  persistTimer = null;
+  stored.days[currentDay] = state.today;
+  const days = Object.keys(stored.days).sort().slice(-DAYS_KEPT);
+  stored.days = Object.fromEntries(days.map(day => [day, stored.days[day]]));
+  stored.warned = stored.warned.filter(entry => entry.startsWith(currentDay));
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(stored));
+  } catch (e) {}
+};
+
+const notify = () => {
+  notifyTimer = null;
+  listeners.forEach(listener => listener());
+};
+
+const schedule = () => {
+  if (notifyTimer === null) notifyTimer = window.setTimeout(notify, NOTIFY_INTERVAL_MS);
+  if (persistTimer === null) persistTimer = window.setTimeout(persist, PERSIST_INTERVAL_MS);
+};
+
+const add = (a: Usage, b: Partial<Usage>): Usage => ({
+  framesSent: a.framesSent + (b.framesSent || 0),
+  bytesSent: a.bytesSent + (b.bytesSent || 0),
+  bytesReceived: a.bytesReceived + (b.bytesReceived || 0),
+  audioSecondsSent: a.audioSecondsSent + (b.audioSecondsSent || 0),
+  audioSecondsReceived: a.audioSecondsReceived + (b.audioSecondsReceived || 0),
+  tokens: a.tokens + (b.tokens || 0),
+});
+
+const checkBudgets = () => {
+  const { dataBudgetMb, tokenBudget, language } = getSettings();
+  const budgets = [
+    { kind: 'data' as const, used: (state.today.bytesSent + state.today.bytesReceived) / (1024 * 1024), limit: dataBudgetMb },
+    { kind: 'tokens' as const, used: state.today.tokens, limit: tokenBudget },
+  ];
+  for (const { kind, used, limit } of budgets) {
+    if (!limit) continue;
+    const level = [...WARNING_LEVELS].reverse().find(fraction => used >= limit * fraction);
+    if (level === undefined) continue;
+    const id = `${currentDay} ${kind} ${level}`;
+    if (stored.warned.includes(id)) continue;
+    // Crossing straight past 80% only needs the later warning
+    stored.warned.push(...WARNING_LEVELS.filter(fraction => fraction <= level).map(fraction => `${currentDay} ${kind} ${fraction}`));
+    const what = translate(language, `usage.budget.${kind}`);
+    speak(level >= 1
+      ? translate(language, 'usage.budgetReached', { what })
+      : translate(language, 'usage.budgetNear', { what, percent: Math.round(level * 100) }));
+  }
+};
+
+// Adds to today's totals and, during a live session, to the session's
+export const recordUsage = (usage: Partial<Usage>) => {
+  if (dayKey() !== currentDay) {
+    // Past midnight: close the previous day and start a new one
+    persist();
+    currentDay = dayKey();
+    state = { ...state, today: EMPTY_USAGE };
+  }
+  state = {
+    ...state,
+    today: add(state.today, usage),
+    session: state.sessionActive && state.session ? add(state.session, usage) : state.session,
+  };
+  checkBudgets();
+  schedule();
+};
+
+export const startUsageSession = () => {
+  state = { ...state, session: EMPTY_USAGE, sessionActive: true };
+  notify();
+};
+
+export const endUsageSession = () => {
+  if (!state.sessionActive) return;
+  state = { ...state, sessionActive: false };
+  persist();
+  notify();
+};
+
+// Totals per day, oldest first
+export const getUsageHistory = (): { day: string; usage: Usage }[] => {
+  const days = { ...stored.days, [currentDay]: state.today };
+  return Object.keys(days).sort().map(day => ({ day, usage: days[day] }));
+};
+
+export const clearUsageHistory = () => {
+  stored.days = {};
+  stored.warned = [];
+  state = { ...state, today: EMPTY_USAGE, session: state.sessionActive ? EMPTY_USAGE : null };
+  persist();
+  notify();
+};
+
+export const getUsage = () => state;
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useUsage = () => useSyncExternalStore(subscribeUsage, getUsage);
+
+// --- Low-data profile ---
+
+// Network Information API; only Chromium-based browsers have it
+const connection = (): any => (typeof navigator !== 'undefined' ? (navigator as any).connection : undefined);
+
+// True when the browser reports a metered connection: Data Saver, or a cellular link
+export const isMeteredConnection = () => {
+  const info = connection();
+  return !!info && (info.saveData === true || info.type === 'cellular');
+};
+
+export const isLowDataActive = () => {
+  const { lowData } = getSettings();
+  return lowData === 'on' || (lowData === 'auto' && isMeteredConnection());
+};
+
+// Called when the profile may have turned on or off, from the settings or the connection
+export const subscribeLowData = (listener: (active: boolean) => void) => {
+  let active = isLowDataActive();
+  const check = () => {
+    if (isLowDataActive() === active) return;
+    active = !active;
+    listener(active);
+  };
+  const unsubscribe = subscribeSettings(check);
+  connection()?.addEventListener?.('change', check);
+  return () => {
+    unsubscribe();
+    connection()?.removeEventListener?.('change', check);
+  };
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => { if (persistTimer !== null) persist(); });
+}
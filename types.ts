@@ -5,13 +5,73 @@ export interface Transcription {
   timestamp: number;
 }
 
+export interface TranscriptSession {
+  id: string;
+  mode: AppMode;
+  startedAt: number;
+  turns: Transcription[];
+  // Present for reading-mode sessions so the document can be re-read without recapturing
+  document?: ExtractedDocument;
+}
+
+export interface DocumentBlock {
+  type: 'heading' | 'paragraph' | 'list' | 'table';
+  text: string;
+  // Table cells, first row is the header when present
+  rows?: string[][];
+}
+
+export interface ExtractedDocument {
+  title?: string;
+  blocks: DocumentBlock[];
+}
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+// Which hazards sound the alarm: low only the most urgent, high every one reported
+export type HazardSensitivity = 'low' | 'medium' | 'high';
+
+export interface SceneObject {
+  name: string;
+  // Clock-face direction from the camera, 12 is straight ahead
+  clock?: number;
+  distanceMeters?: number;
+  // Readable text on the object, e.g. a sign or a label
+  text?: string;
+}
+
+export interface SceneHazard extends SceneObject {
+  severity: HazardSeverity;
+}
+
+export interface Scene {
+  hazards: SceneHazard[];
+  objects: SceneObject[];
+}
+
 export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
+  RECONNECTING = 'RECONNECTING',
   ACTIVE = 'ACTIVE',
   ERROR = 'ERROR',
   ANALYZING = 'ANALYZING',
   SEARCHING = 'SEARCHING'
 }
 
-export type AppMode = 'LIVE' | 'GALLERY';
+export type AppMode = 'LIVE' | 'GALLERY' | 'SEARCH' | 'READ';
+
+export type SpeechRate = 'slow' | 'normal' | 'fast';
+
+export type Verbosity = 'brief' | 'normal' | 'detailed';
+
+export type Language = 'en' | 'fr' | 'es';
+
+// How the Media mode mic button and push-to-talk key record a question
+export type RecordMode = 'hold' | 'toggle';
+
+// When the live loop streams less: never, on metered connections, or always
+export type LowDataMode = 'off' | 'auto' | 'on';
+
+// Prebuilt voices offered by the Live API
+export type VoiceName = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus' | 'Zephyr';
@@ -0,0 +1,308 @@
+// Shared audio plumbing for the live session: off-main-thread mic capture (AudioWorklet),
+// PCM/base64 codecs and scheduled playback of the model's 24 kHz PCM stream.
+
+// What happens to model speech when the user starts talking over it
+export type BargeInMode = 'stop' | 'duck';
+
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+export const pcmMimeType = (sampleRate: number) => `audio/pcm;rate=${sampleRate}`;
+
+export const createAudioContext = (options?: AudioContextOptions): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)(options);
+
+export const encodeBase64 = (bytes: Uint8Array) => {
+  // Chunked to stay under argument-count limits of String.fromCharCode
+  const CHUNK = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK) as unknown as number[]);
+  }
+  return btoa(binary);
+};
+
+export const decodeBase64 = (base64: string) => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+};
+
+export const decodeAudioData = (data: Uint8Array, ctx: BaseAudioContext, sampleRate: number, numChannels: number) => {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+};
+
+// Wraps mono 16-bit little-endian PCM in a WAV header
+export const pcm16ToWav = (pcm: Uint8Array, sampleRate: number) => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+// Runs inside the AudioWorkletGlobalScope. Low-passes the device-rate signal, resamples it to
+// the target rate by linear interpolation, clips and converts to Int16, and posts fixed-size
+// chunks. A simple RMS detector reports voice activity and can gate out silent chunks.
+const PCM_CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions;
+    this.step = sampleRate / o.targetSampleRate;
+    this.chunk = new Int16Array(o.chunkSamples);
+    this.length = 0;
+    this.t = 0;
+    this.prev = 0;
+    this.threshold = o.voiceThreshold;
+    this.hangoverChunks = o.hangoverChunks;
+    this.gate = o.gateSilence;
+    this.voiced = false;
+    this.silentChunks = 0;
+    this.preRoll = null;
+
+    // 2nd-order Butterworth low-pass just under the target Nyquist frequency
+    const cutoff = Math.min(o.targetSampleRate, sampleRate) * 0.45;
+    const w = 2 * Math.PI * cutoff / sampleRate;
+    const alpha = Math.sin(w) / Math.SQRT2;
+    const cos = Math.cos(w);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = this.b0;
+    this.a1 = -2 * cos / a0;
+    this.a2 = (1 - alpha) / a0;
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+
+    this.port.onmessage = (e) => {
+      if (e.data.type === 'gate') this.gate = e.data.enabled;
+      else if (e.data.type === 'detection') {
+        this.threshold = e.data.voiceThreshold;
+        this.hangoverChunks = e.data.hangoverChunks;
+      }
+    };
+  }
+
+  filter(x) {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1; this.x1 = x;
+    this.y2 = this.y1; this.y1 = y;
+    return y;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.length++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.length === this.chunk.length) this.emit();
+  }
+
+  emit() {
+    const pcm = this.chunk;
+    this.chunk = new Int16Array(pcm.length);
+    this.length = 0;
+
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) sum += (pcm[i] / 32768) * (pcm[i] / 32768);
+    const rms = Math.sqrt(sum / pcm.length);
+
+    if (rms >= this.threshold) {
+      this.silentChunks = 0;
+      if (!this.voiced) {
+        this.voiced = true;
+        this.port.postMessage({ type: 'voice', active: true });
+        // Send the chunk before onset too so the first syllable isn't clipped
+        if (this.gate && this.preRoll) this.port.postMessage({ type: 'chunk', pcm: this.preRoll }, [this.preRoll.buffer]);
+      }
+    } else if (this.voiced && ++this.silentChunks > this.hangoverChunks) {
+      this.voiced = false;
+      this.port.postMessage({ type: 'voice', active: false });
+    }
+
+    if (!this.gate || this.voiced) {
+      this.preRoll = null;
+      this.port.postMessage({ type: 'chunk', pcm }, [pcm.buffer]);
+    } else {
+      this.preRoll = pcm;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      const x = this.filter(input[i]);
+      // Emit every output sample whose position falls between the previous input sample and this one
+      while (this.t <= 1) {
+        this.push(this.prev + (x - this.prev) * this.t);
+        this.t += this.step;
+      }
+      this.t -= 1;
+      this.prev = x;
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export const DEFAULT_VOICE_THRESHOLD = 0.015;
+export const DEFAULT_HANGOVER_MS = 800;
+
+export interface MicCaptureOptions {
+  targetSampleRate?: number;
+  // Duration of each emitted chunk
+  chunkMs?: number;
+  // When true, only chunks with voice (plus a short hangover) are emitted
+  gateSilence?: boolean;
+  // RMS level (0..1) above which a chunk counts as voice
+  voiceThreshold?: number;
+  hangoverMs?: number;
+  onChunk: (pcm: Int16Array) => void;
+  onVoiceActivity?: (active: boolean) => void;
+}
+
+export interface MicCapture {
+  context: AudioContext;
+  sampleRate: number;
+  setGateSilence: (enabled: boolean) => void;
+  setVoiceDetection: (voiceThreshold: number, hangoverMs: number) => void;
+  stop: () => Promise<void>;
+}
+
+export const startMicCapture = async (stream: MediaStream, options: MicCaptureOptions): Promise<MicCapture> => {
+  const {
+    targetSampleRate = LIVE_INPUT_SAMPLE_RATE,
+    chunkMs = 100,
+    gateSilence = false,
+    voiceThreshold = DEFAULT_VOICE_THRESHOLD,
+    hangoverMs = DEFAULT_HANGOVER_MS,
+    onChunk,
+    onVoiceActivity,
+  } = options;
+
+  // Use the device's native rate; resampling happens in the worklet
+  const context = createAudioContext();
+  if (!context.audioWorklet) {
+    await context.close();
+    throw new Error('AudioWorklet is not supported in this browser.');
+  }
+
+  const moduleUrl = URL.createObjectURL(new Blob([PCM_CAPTURE_WORKLET], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const chunkSamples = Math.round((targetSampleRate * chunkMs) / 1000);
+  const node = new AudioWorkletNode(context, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate,
+      chunkSamples,
+      gateSilence,
+      voiceThreshold,
+      hangoverChunks: Math.ceil(hangoverMs / chunkMs),
+    },
+  });
+  node.port.onmessage = (e) => {
+    if (e.data.type === 'chunk') onChunk(e.data.pcm);
+    else if (e.data.type === 'voice') onVoiceActivity?.(e.data.active);
+  };
+
+  const source = context.createMediaStreamSource(stream);
+  source.connect(node);
+  if (context.state === 'suspended') await context.resume();
+
+  return {
+    context,
+    sampleRate: targetSampleRate,
+    setGateSilence: (enabled) => node.port.postMessage({ type: 'gate', enabled }),
+    setVoiceDetection: (threshold, hangover) => node.port.postMessage({
+      type: 'detection',
+      voiceThreshold: threshold,
+      hangoverChunks: Math.ceil(hangover / chunkMs),
+    }),
+    stop: async () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      await context.close();
+    },
+  };
+};
+
+// Gapless playback of streamed PCM chunks, scheduled back to back on one AudioContext.
+export class PcmPlayer {
+  readonly output: GainNode;
+  private nextStartTime = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+
+  constructor(readonly context: AudioContext, private sampleRate = LIVE_OUTPUT_SAMPLE_RATE, destination?: AudioNode) {
+    this.output = context.createGain();
+    this.output.connect(destination ?? context.destination);
+  }
+
+  get isPlaying() {
+    return this.sources.size > 0;
+  }
+
+  // AudioContext time at which everything queued so far will have played
+  get scheduledUntil() {
+    return Math.max(this.nextStartTime, this.context.currentTime);
+  }
+
+  enqueue(base64: string) {
+    const ctx = this.context;
+    this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+    const buffer = decodeAudioData(decodeBase64(base64), ctx, this.sampleRate, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output);
+    source.onended = () => this.sources.delete(source);
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+  }
+
+  // Drops everything playing or queued and resets the scheduling clock
+  flush() {
+    this.sources.forEach(source => { try { source.stop(); } catch(e){} });
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+
+  duck(level = 0.2, timeConstant = 0.05) {
+    this.output.gain.setTargetAtTime(level, this.context.currentTime, timeConstant);
+  }
+
+  unduck(timeConstant = 0.15) {
+    this.output.gain.setTargetAtTime(1, this.context.currentTime, timeConstant);
+  }
+}
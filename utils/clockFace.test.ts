@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseClockMentions, parseDistanceMeters } from './clockFace.ts';
+
+describe('parseClockMentions', () => {
+  it('reads English clock positions and distances', () => {
+    expect(parseClockMentions("A chair at 3 o'clock, 2 meters away. The door is at twelve o’clock.")).toEqual([
+      { hour: 3, distanceMeters: 2, index: 11 },
+      { hour: 12, distanceMeters: undefined, index: 52 },
+    ]);
+  });
+
+  it('reads French clock positions and distances', () => {
+    const mentions = parseClockMentions('Une chaise à 3 heures, à 1,5 mètre. La porte est à midi. Un banc vers deux heures, à 4 pas.');
+    expect(mentions.map(m => [m.hour, m.distanceMeters])).toEqual([[3, 1.5], [12, undefined], [2, 4 * 0.7]]);
+  });
+
+  it('reads Spanish clock positions and distances', () => {
+    const mentions = parseClockMentions('Hay una silla a las 3, a 2 metros. La puerta está a la una. Un banco hacia las doce, a 3 pasos.');
+    expect(mentions.map(m => [m.hour, m.distanceMeters])).toEqual([[3, 2], [1, undefined], [12, 3 * 0.7]]);
+  });
+
+  it('ignores hours that are not directions', () => {
+    expect(parseClockMentions("It has been open since 2 heures, at 13 o'clock.")).toEqual([]);
+    expect(parseClockMentions('Il attend depuis 2 heures.')).toEqual([]);
+  });
+
+  it('keeps mentions in the order they were spoken', () => {
+    const mentions = parseClockMentions("A las 9 hay una mesa. Then a step at 3 o'clock.");
+    expect(mentions.map(m => m.hour)).toEqual([9, 3]);
+  });
+});
+
+describe('parseDistanceMeters', () => {
+  it('converts units to meters', () => {
+    expect(parseDistanceMeters('50 cm ahead')).toBe(0.5);
+    expect(parseDistanceMeters('about 10 feet')).toBeCloseTo(3.048);
+    expect(parseDistanceMeters('à 2 mètres', 'fr')).toBe(2);
+    expect(parseDistanceMeters('a 30 centímetros', 'es')).toBeCloseTo(0.3);
+  });
+
+  it('skips numbers without a unit', () => {
+    expect(parseDistanceMeters('3 chairs, 2 meters apart')).toBe(2);
+    expect(parseDistanceMeters('3 chairs')).toBeUndefined();
+  });
+});
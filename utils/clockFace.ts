@@ -0,0 +1,115 @@
+import { Language } from '../types.ts';
+
+// Extracts clock-face directions and distances from the model's spoken text.
+
+export interface ClockMention {
+  hour: number;
+  distanceMeters?: number;
+  // Character offset of the mention in the source text
+  index: number;
+}
+
+interface ClockGrammar {
+  // The hour is in the first capturing group that matched
+  clock: RegExp;
+  hourWords: Record<string, number>;
+  // Unit words, each with its length in meters
+  units: [RegExp, number][];
+}
+
+const STEP_METERS = 0.7;
+const FOOT_METERS = 0.3048;
+
+// Typed by Language so a new language cannot ship without one. Each matches the phrasing its
+// prompt.live.directions asks the model for.
+const GRAMMARS: Record<Language, ClockGrammar> = {
+  en: {
+    clock: /\b(1[0-2]|[1-9]|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s*o['’]?\s*clock\b/giu,
+    hourWords: {
+      one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+      seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+    },
+    units: [
+      [/^(meters?|metres?|m)$/i, 1],
+      [/^(centimeters?|centimetres?|cm)$/i, 0.01],
+      [/^(feet|foot|ft)$/i, FOOT_METERS],
+      [/^steps?$/i, STEP_METERS],
+    ],
+  },
+  // "à 3 heures", "vers trois heures", "à midi"; "à" keeps durations like "depuis 2 heures" out
+  fr: {
+    clock: /(?<!\p{L})(?:à|vers)\s+(?:(1[0-2]|[1-9]|une|deux|trois|quatre|cinq|six|sept|huit|neuf|dix|onze|douze)\s*(?:heures?|h)|(midi))(?!\p{L})/giu,
+    hourWords: {
+      une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6,
+      sept: 7, huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12, midi: 12,
+    },
+    units: [
+      [/^(mètres?|metres?|m)$/i, 1],
+      [/^(centimètres?|centimetres?|cm)$/i, 0.01],
+      [/^pieds?$/i, FOOT_METERS],
+      [/^pas$/i, STEP_METERS],
+    ],
+  },
+  // "a las 3", "hacia las tres", "a la una"
+  es: {
+    clock: /(?<!\p{L})(?:a|de|hacia)\s+las?\s+(1[0-2]|[1-9]|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|once|doce)(?![\p{L}\d])/giu,
+    hourWords: {
+      una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6,
+      siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12,
+    },
+    units: [
+      [/^(metros?|m)$/i, 1],
+      [/^(centímetros?|centimetros?|cm)$/i, 0.01],
+      [/^(pies?)$/i, FOOT_METERS],
+      [/^pasos?$/i, STEP_METERS],
+    ],
+  },
+};
+
+const DISTANCE_PATTERN = /(\d+(?:[.,]\d+)?)\s*(\p{L}+)/gu;
+// A full stop that is not a decimal point
+const SENTENCE_END = /[.!?](?!\d)/g;
+
+export const parseHour = (token: string, language: Language = 'en'): number | undefined => {
+  const lower = token.toLowerCase();
+  const hour = GRAMMARS[language].hourWords[lower] ?? parseInt(lower, 10);
+  return hour >= 1 && hour <= 12 ? hour : undefined;
+};
+
+// The first number in the text followed by a unit of the language
+export const parseDistanceMeters = (text: string, language: Language = 'en'): number | undefined => {
+  for (const match of text.matchAll(DISTANCE_PATTERN)) {
+    const unit = GRAMMARS[language].units.find(([pattern]) => pattern.test(match[2]));
+    if (unit) return parseFloat(match[1].replace(',', '.')) * unit[1];
+  }
+  return undefined;
+};
+
+const sentenceAround = (text: string, start: number, end: number) => {
+  let sentenceStart = 0;
+  let sentenceEnd = text.length;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    if (match.index! < start) sentenceStart = match.index! + 1;
+    else if (match.index! >= end) {
+      sentenceEnd = match.index!;
+      break;
+    }
+  }
+  return text.slice(sentenceStart, sentenceEnd);
+};
+
+// Every clock mention in order, each paired with a distance found in the same sentence. Every
+// language is tried: the model may answer in whichever one the user spoke.
+export const parseClockMentions = (text: string): ClockMention[] => {
+  const mentions: ClockMention[] = [];
+  for (const language of Object.keys(GRAMMARS) as Language[]) {
+    for (const match of text.matchAll(GRAMMARS[language].clock)) {
+      const token = match.slice(1).find(Boolean);
+      const hour = token ? parseHour(token, language) : undefined;
+      if (!hour || match.index === undefined) continue;
+      const sentence = sentenceAround(text, match.index, match.index + match[0].length);
+      mentions.push({ hour, distanceMeters: parseDistanceMeters(sentence, language), index: match.index });
+    }
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+};
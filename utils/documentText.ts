@@ -0,0 +1,28 @@
+import { DocumentBlock, ExtractedDocument } from '../types.ts';
+import { t } from '../i18n/index.ts';
+
+// Turns a block into something that reads naturally aloud; tables are read row by row with headers.
+export const blockToSpeech = (block: DocumentBlock) => {
+  if (block.type !== 'table' || !block.rows?.length) return block.text;
+  const [header, ...body] = block.rows;
+  if (body.length === 0) return header.join(', ');
+  const rows = body.map((row, i) =>
+    t('reader.row', { number: i + 1 }) + ': ' + row.map((cell, c) => (header[c] ? `${header[c]}, ${cell}` : cell)).join('; ')
+  );
+  return [block.text, ...rows].filter(Boolean).join('. ');
+};
+
+export const documentToText = (doc: ExtractedDocument) =>
+  [doc.title, ...doc.blocks.map(blockToSpeech)].filter(Boolean).join('\n\n');
+
+const NUMBER_PATTERN = /[$€£]?\d[\d.,:/-]*(?:\s?(?:%|mg|g|kg|ml|l|mcg|cm|mm|m|am|pm|h))?/gi;
+
+// Numbers with their units (doses, prices, dates, times), in reading order.
+export const extractNumbers = (text: string): string[] =>
+  (text.match(NUMBER_PATTERN) ?? []).map(n => n.trim().replace(/[.,:/-]+$/, '')).filter(Boolean);
+
+// Letter-by-letter reading; spaces are spoken as a word so word boundaries are audible.
+export const spellOut = (text: string) =>
+  Array.from(text.trim())
+    .map(ch => (ch === ' ' ? t('reader.space') : ch))
+    .join(', ');
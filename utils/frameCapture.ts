@@ -0,0 +1,47 @@
+// Draws the current video frame onto the canvas and returns it as base64 JPEG (no data: prefix).
+// Frames wider than maxWidth are scaled down to it.
+export const captureFrame = (
+  video: HTMLVideoElement | null,
+  canvas: HTMLCanvasElement | null,
+  quality: number,
+  maxWidth = Infinity
+): string | null => {
+  if (!canvas || !video || video.videoWidth === 0) return null;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Full-resolution still from a camera track. Prefers ImageCapture.takePhoto(), which can use the
+// sensor's native resolution; otherwise falls back to the largest frame the video element has.
+export const captureStill = async (
+  track: MediaStreamTrack,
+  video: HTMLVideoElement | null,
+  canvas: HTMLCanvasElement | null,
+  quality = 0.92
+): Promise<{ data: string; mimeType: string } | null> => {
+  const ImageCaptureCtor = (window as any).ImageCapture;
+  if (ImageCaptureCtor) {
+    try {
+      const blob: Blob = await new ImageCaptureCtor(track).takePhoto();
+      return { data: await blobToBase64(blob), mimeType: blob.type || 'image/jpeg' };
+    } catch (e) {
+      // Some devices advertise ImageCapture but reject takePhoto; use the video frame instead
+    }
+  }
+  const data = captureFrame(video, canvas, quality);
+  return data ? { data, mimeType: 'image/jpeg' } : null;
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { FrameScheduler, DEFAULT_FRAME_SCHEDULER_OPTIONS } from './frameScheduler.ts';
+
+const { baseQuality, burstQuality, burstDurationMs } = DEFAULT_FRAME_SCHEDULER_OPTIONS;
+
+// A flat grey thumbnail; far-apart shades count as a scene change
+const signature = (shade: number) => new Uint8Array(32 * 24).fill(shade);
+
+// Decides on a frame and, when it is to be sent, records it as sent
+const offer = (scheduler: FrameScheduler, shade: number, now: number) => {
+  const decision = scheduler.decide(signature(shade), now);
+  if (decision.send) scheduler.recordSent(1000, now);
+  return decision;
+};
+
+describe('FrameScheduler.decide', () => {
+  it('bursts when the scene changes and settles once it is still', () => {
+    const scheduler = new FrameScheduler();
+    offer(scheduler, 0, 0);
+    const still = offer(scheduler, 0, burstDurationMs + 10000);
+    expect(still).toEqual({ send: true, quality: baseQuality, reason: 'keepalive' });
+    const changed = offer(scheduler, 200, burstDurationMs + 10500);
+    expect(changed).toEqual({ send: true, quality: burstQuality, reason: 'changed' });
+  });
+
+  it('skips near-duplicates until the keep-alive is due', () => {
+    const scheduler = new FrameScheduler();
+    offer(scheduler, 0, 0);
+    expect(offer(scheduler, 1, 1000).reason).toBe('duplicate');
+    expect(scheduler.getStats().framesSkipped).toBe(1);
+  });
+
+  it('holds to the per-minute budget', () => {
+    const scheduler = new FrameScheduler({ maxFramesPerMinute: 2 });
+    offer(scheduler, 0, 0);
+    offer(scheduler, 100, 1000);
+    expect(offer(scheduler, 200, 2000)).toMatchObject({ send: false, reason: 'budget' });
+    expect(scheduler.getStats()).toMatchObject({ framesSent: 2, budgetDrops: 1 });
+    // Once the first frame falls out of the window there is room again
+    expect(offer(scheduler, 0, 60500).send).toBe(true);
+  });
+
+  it('lets priority frames past the budget and the limits', () => {
+    const scheduler = new FrameScheduler({ maxFramesPerMinute: 1 });
+    scheduler.setLimits({ fps: 0.5, quality: 0.1 });
+    offer(scheduler, 0, 0);
+    scheduler.prioritize(5000, 1000);
+    expect(offer(scheduler, 200, 1000)).toEqual({ send: true, quality: burstQuality, reason: 'changed' });
+    // After the priority window the budget applies again
+    expect(offer(scheduler, 0, 7000)).toMatchObject({ send: false, reason: 'budget' });
+  });
+});
@@ -0,0 +1,199 @@
+export interface FrameSchedulerOptions {
+  baseFps: number;
+  burstFps: number;
+  baseQuality: number;
+  burstQuality: number;
+  // Mean luminance difference (0..1) vs the last sent frame below which a frame is a near-duplicate
+  duplicateThreshold: number;
+  // Difference vs the previous captured frame above which the scene counts as changing quickly
+  burstThreshold: number;
+  burstDurationMs: number;
+  // Even an unchanging scene gets a refresh this often so the model's view never goes stale
+  keepAliveMs: number;
+  maxFramesPerMinute: number;
+  maxBytesPerMinute: number;
+}
+
+export interface FrameStats {
+  framesCaptured: number;
+  framesSkipped: number;
+  framesSent: number;
+  bytesSent: number;
+  budgetDrops: number;
+}
+
+// Ceilings that apply to bursts as well, e.g. for the low-data profile
+export interface FrameLimits {
+  fps: number;
+  quality: number;
+}
+
+export interface FrameDecision {
+  send: boolean;
+  quality: number;
+  reason: 'changed' | 'keepalive' | 'duplicate' | 'budget';
+}
+
+export const DEFAULT_FRAME_SCHEDULER_OPTIONS: FrameSchedulerOptions = {
+  baseFps: 1.5,
+  burstFps: 4,
+  baseQuality: 0.4,
+  burstQuality: 0.6,
+  duplicateThreshold: 0.03,
+  burstThreshold: 0.12,
+  burstDurationMs: 3000,
+  keepAliveMs: 8000,
+  maxFramesPerMinute: 120,
+  maxBytesPerMinute: 4 * 1024 * 1024,
+};
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+const BUDGET_WINDOW_MS = 60000;
+
+// Grayscale thumbnail used as a cheap perceptual fingerprint.
+export const computeSignature = (rgba: Uint8ClampedArray): Uint8Array => {
+  const out = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+    out[p] = (rgba[i] * 77 + rgba[i + 1] * 150 + rgba[i + 2] * 29) >> 8;
+  }
+  return out;
+};
+
+// Mean absolute difference between two signatures, normalised to 0..1.
+export const signatureDiff = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / (a.length * 255);
+};
+
+export const estimateBase64Bytes = (base64: string) => Math.floor((base64.length * 3) / 4);
+
+export class FrameScheduler {
+  readonly options: FrameSchedulerOptions;
+  private stats: FrameStats = { framesCaptured: 0, framesSkipped: 0, framesSent: 0, bytesSent: 0, budgetDrops: 0 };
+  private thumbCanvas: HTMLCanvasElement | null = null;
+  private lastSent: Uint8Array | null = null;
+  private lastCaptured: Uint8Array | null = null;
+  private pendingSignature: Uint8Array | null = null;
+  private lastSentAt = 0;
+  private burstUntil = 0;
+  private userSpeaking = false;
+  private limits: FrameLimits | null = null;
+  private priorityUntil = 0;
+  private window: { at: number; bytes: number }[] = [];
+
+  constructor(options: Partial<FrameSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_FRAME_SCHEDULER_OPTIONS, ...options };
+  }
+
+  get isPrioritized() {
+    return Date.now() < this.priorityUntil;
+  }
+
+  get isBursting() {
+    const now = Date.now();
+    return this.userSpeaking || now < this.burstUntil || now < this.priorityUntil;
+  }
+
+  // Delay until the next frame should be considered
+  get intervalMs() {
+    const fps = this.isBursting ? this.options.burstFps : this.options.baseFps;
+    return 1000 / (this.limits && Date.now() >= this.priorityUntil ? Math.min(fps, this.limits.fps) : fps);
+  }
+
+  setBaseFps(fps: number) {
+    this.options.baseFps = fps;
+    this.options.burstFps = Math.max(this.options.burstFps, fps);
+  }
+
+  setBaseQuality(quality: number) {
+    this.options.baseQuality = quality;
+    this.options.burstQuality = Math.max(this.options.burstQuality, quality);
+  }
+
+  setLimits(limits: FrameLimits | null) {
+    this.limits = limits;
+  }
+
+  // While a hazard is being watched: burst, and neither the limits nor the per-minute budget apply
+  prioritize(durationMs: number, now = Date.now()) {
+    this.priorityUntil = Math.max(this.priorityUntil, now + durationMs);
+  }
+
+  setUserSpeaking(active: boolean) {
+    this.userSpeaking = active;
+  }
+
+  getStats(): FrameStats {
+    return { ...this.stats };
+  }
+
+  // Samples the video into a thumbnail and decides whether (and at what quality) to send it.
+  evaluate(video: HTMLVideoElement, now = Date.now()): FrameDecision | null {
+    if (video.videoWidth === 0) return null;
+    if (!this.thumbCanvas) {
+      this.thumbCanvas = document.createElement('canvas');
+      this.thumbCanvas.width = SIGNATURE_WIDTH;
+      this.thumbCanvas.height = SIGNATURE_HEIGHT;
+    }
+    const ctx = this.thumbCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const signature = computeSignature(ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data);
+    return this.decide(signature, now);
+  }
+
+  // The pure half of evaluate(), separated so the policy can be exercised without a camera.
+  decide(signature: Uint8Array, now = Date.now()): FrameDecision {
+    this.stats.framesCaptured += 1;
+    const motion = this.lastCaptured ? signatureDiff(signature, this.lastCaptured) : 1;
+    this.lastCaptured = signature;
+    if (motion >= this.options.burstThreshold) this.burstUntil = now + this.options.burstDurationMs;
+
+    const prioritized = now < this.priorityUntil;
+    const bursting = this.userSpeaking || now < this.burstUntil || prioritized;
+    const wanted = bursting ? this.options.burstQuality : this.options.baseQuality;
+    const quality = this.limits && !prioritized ? Math.min(wanted, this.limits.quality) : wanted;
+    const change = this.lastSent ? signatureDiff(signature, this.lastSent) : 1;
+    const stale = now - this.lastSentAt >= this.options.keepAliveMs;
+
+    if (change < this.options.duplicateThreshold && !stale) {
+      this.stats.framesSkipped += 1;
+      return { send: false, quality, reason: 'duplicate' };
+    }
+    if (!prioritized && !this.withinBudget(now)) {
+      this.stats.budgetDrops += 1;
+      return { send: false, quality, reason: 'budget' };
+    }
+    this.pendingSignature = signature;
+    return { send: true, quality, reason: change < this.options.duplicateThreshold ? 'keepalive' : 'changed' };
+  }
+
+  // Call after a frame from a positive decision was actually sent.
+  recordSent(bytes: number, now = Date.now()) {
+    this.stats.framesSent += 1;
+    this.stats.bytesSent += bytes;
+    this.lastSentAt = now;
+    if (this.pendingSignature) this.lastSent = this.pendingSignature;
+    this.pendingSignature = null;
+    this.window.push({ at: now, bytes });
+  }
+
+  reset() {
+    this.stats = { framesCaptured: 0, framesSkipped: 0, framesSent: 0, bytesSent: 0, budgetDrops: 0 };
+    this.lastSent = null;
+    this.lastCaptured = null;
+    this.lastSentAt = 0;
+    this.burstUntil = 0;
+    this.priorityUntil = 0;
+    this.window = [];
+  }
+
+  private withinBudget(now: number) {
+    this.window = this.window.filter(entry => now - entry.at < BUDGET_WINDOW_MS);
+    const bytes = this.window.reduce((sum, entry) => sum + entry.bytes, 0);
+    return this.window.length < this.options.maxFramesPerMinute && bytes < this.options.maxBytesPerMinute;
+  }
+}
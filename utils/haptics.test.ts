@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { directionPattern, proximityPattern, scalePattern, vibrate } from './haptics.ts';
+
+// Pulse lengths sit at even indices, pauses at odd ones
+const pulses = (pattern: number[]) => pattern.filter((_, i) => i % 2 === 0);
+const gaps = (pattern: number[]) => pattern.filter((_, i) => i % 2 === 1);
+
+describe('directionPattern', () => {
+  it('gives straight ahead one extra-long buzz and behind two', () => {
+    expect(directionPattern(12)).toHaveLength(1);
+    expect(pulses(directionPattern(6))).toHaveLength(2);
+    expect(directionPattern(6)[0]).toBe(directionPattern(12)[0]);
+  });
+
+  it('counts hours from straight ahead, short on the right and long on the left', () => {
+    const right = directionPattern(3);
+    const left = directionPattern(9);
+    expect(pulses(right)).toHaveLength(3);
+    expect(pulses(left)).toHaveLength(3);
+    expect(right[0]).toBeLessThan(left[0]);
+    expect(pulses(directionPattern(1))).toHaveLength(1);
+    expect(pulses(directionPattern(11))).toHaveLength(1);
+  });
+
+  it('wraps and rounds the hour', () => {
+    expect(directionPattern(0)).toEqual(directionPattern(12));
+    expect(directionPattern(15)).toEqual(directionPattern(3));
+    expect(directionPattern(2.6)).toEqual(directionPattern(3));
+  });
+});
+
+describe('proximityPattern', () => {
+  it('pulses faster as the obstacle gets closer', () => {
+    const near = gaps(proximityPattern(0.5));
+    const far = gaps(proximityPattern(3));
+    expect(near[0]).toBeLessThan(far[0]);
+  });
+
+  it('clamps distances outside the useful range', () => {
+    expect(proximityPattern(0)).toEqual(proximityPattern(0.2));
+    expect(proximityPattern(50)).toEqual(proximityPattern(4));
+  });
+
+  it('plays the requested number of pulses', () => {
+    expect(pulses(proximityPattern(1, 6))).toHaveLength(6);
+  });
+});
+
+describe('scalePattern', () => {
+  it('shortens pulses but keeps the pauses', () => {
+    expect(scalePattern([200, 100, 200], 0.5)).toEqual([100, 100, 100]);
+  });
+
+  it('never drops a pulse below a perceptible length', () => {
+    expect(scalePattern([60, 100, 60], 0.01)).toEqual([10, 100, 10]);
+  });
+
+  it('clamps the intensity to 0..1', () => {
+    expect(scalePattern([200], 3)).toEqual([200]);
+  });
+});
+
+describe('vibrate', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('plays the scaled pattern', () => {
+    const vibrateSpy = vi.fn(() => true);
+    vi.stubGlobal('navigator', { vibrate: vibrateSpy });
+    expect(vibrate([200, 100, 200], { enabled: true, intensity: 0.5 })).toBe(true);
+    expect(vibrateSpy).toHaveBeenCalledWith([100, 100, 100]);
+  });
+
+  it('does nothing while disabled or without support', () => {
+    const vibrateSpy = vi.fn(() => true);
+    vi.stubGlobal('navigator', { vibrate: vibrateSpy });
+    expect(vibrate([200], { enabled: false, intensity: 1 })).toBe(false);
+    expect(vibrateSpy).not.toHaveBeenCalled();
+    vi.stubGlobal('navigator', {});
+    expect(vibrate([200], { enabled: true, intensity: 1 })).toBe(false);
+  });
+});
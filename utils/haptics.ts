@@ -0,0 +1,66 @@
+import { SoundCue } from './soundCues.ts';
+import { getSettings } from '../services/settings.ts';
+
+// Alternating vibrate/pause durations in ms, as taken by navigator.vibrate
+export type HapticPattern = number[];
+
+export interface HapticSettings {
+  enabled: boolean;
+  // 0..1, scales pulse length (the Vibration API has no amplitude control)
+  intensity: number;
+}
+
+const SHORT = 60;
+const LONG = 220;
+const EXTRA_LONG = 450;
+const GAP = 120;
+
+const repeatPulse = (pulse: number, count: number, gap = GAP): HapticPattern =>
+  Array.from({ length: count }, (_, i) => (i === 0 ? [pulse] : [gap, pulse])).flat();
+
+// Right-hand hours (1-5) are short pulses, left-hand hours (11-7) long pulses; the count is how
+// many hours away from straight ahead. 12 is one extra-long buzz, 6 (behind) two.
+export const directionPattern = (hour: number): HapticPattern => {
+  const h = ((Math.round(hour) % 12) + 12) % 12;
+  if (h === 0) return [EXTRA_LONG];
+  if (h === 6) return repeatPulse(EXTRA_LONG, 2, 200);
+  if (h < 6) return repeatPulse(SHORT, h);
+  return repeatPulse(LONG, 12 - h);
+};
+
+// Pulses that speed up as the obstacle gets closer: 3m+ ~600ms apart, within reach ~70ms apart.
+export const proximityPattern = (distanceMeters: number, pulses = 4): HapticPattern => {
+  const clamped = Math.max(0.2, Math.min(distanceMeters, 4));
+  const gap = Math.round(70 + (clamped - 0.2) * (530 / 3.8));
+  return repeatPulse(SHORT, pulses, gap);
+};
+
+export const CUE_PATTERNS: Record<SoundCue, HapticPattern> = {
+  connecting: [SHORT],
+  active: [SHORT, 80, SHORT],
+  error: [LONG, 100, LONG, 100, LONG],
+  stop: [LONG],
+  found: [SHORT, 60, SHORT, 60, SHORT, 60, EXTRA_LONG],
+  lost: [LONG, 150, SHORT],
+  alarm: repeatPulse(LONG, 3, 80),
+};
+
+export const cuePattern = (type: SoundCue): HapticPattern => CUE_PATTERNS[type];
+
+export const scalePattern = (pattern: HapticPattern, intensity: number): HapticPattern => {
+  const level = Math.max(0, Math.min(intensity, 1));
+  // Even indices vibrate, odd indices pause
+  return pattern.map((ms, i) => (i % 2 === 0 ? Math.max(10, Math.round(ms * level)) : ms));
+};
+
+export const isHapticsSupported = () => typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+// Plays a pattern according to the user's haptic settings. A no-op when unsupported or disabled.
+export const vibrate = (pattern: HapticPattern, settings: HapticSettings = getSettings().haptics) => {
+  if (!settings.enabled || settings.intensity <= 0 || !isHapticsSupported() || pattern.length === 0) return false;
+  try {
+    return navigator.vibrate(scalePattern(pattern, settings.intensity));
+  } catch (e) {
+    return false;
+  }
+};
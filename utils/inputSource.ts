@@ -0,0 +1,117 @@
+// Where a live session's pictures and sound come from. Every source ends up as a MediaStream, so
+// the frame loop and the 16 kHz audio path don't care whether it's the camera, a video someone
+// filmed earlier or a synthetic pattern for demos and machines without a camera.
+
+export type InputSourceKind = 'camera' | 'file' | 'pattern';
+
+export interface InputSource {
+  kind: InputSourceKind;
+  // Video, plus audio when the source has any
+  stream: MediaStream;
+  // The element playing a video file, for playback controls
+  media?: HTMLVideoElement;
+  stop: () => void;
+}
+
+const PATTERN_WIDTH = 640;
+const PATTERN_HEIGHT = 480;
+const PATTERN_FPS = 10;
+// One lap of the moving marker, so consecutive frames differ like a slow walk would
+const PATTERN_LAP_MS = 12000;
+
+export const openCameraSource = async (): Promise<InputSource> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: true,
+    video: { facingMode: 'environment', width: { ideal: 640 }, height: { ideal: 480 } },
+  });
+  return {
+    kind: 'camera',
+    stream,
+    stop: () => stream.getTracks().forEach(track => track.stop()),
+  };
+};
+
+// Plays the file in a detached element and captures it, soundtrack included. The soundtrack is
+// also heard, as it would have been by the person filming.
+export const openFileSource = async (file: File, loop = true): Promise<InputSource> => {
+  const media = document.createElement('video');
+  const url = URL.createObjectURL(file);
+  media.src = url;
+  media.loop = loop;
+  media.playsInline = true;
+  const capture: (() => MediaStream) | undefined = (media as any).captureStream?.bind(media) ?? (media as any).mozCaptureStream?.bind(media);
+  if (!capture) {
+    URL.revokeObjectURL(url);
+    throw new Error('This browser cannot stream from a video file.');
+  }
+  try {
+    await media.play();
+  } catch (e) {
+    URL.revokeObjectURL(url);
+    throw new Error('This video file cannot be played.');
+  }
+  const stream = capture();
+  return {
+    kind: 'file',
+    stream,
+    media,
+    stop: () => {
+      media.pause();
+      stream.getTracks().forEach(track => track.stop());
+      media.removeAttribute('src');
+      media.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+};
+
+// A clock face with a marker going round it and a running timer. Silent: it has no audio track.
+export const openPatternSource = (): InputSource => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PATTERN_WIDTH;
+  canvas.height = PATTERN_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+  const startedAt = performance.now();
+  const cx = PATTERN_WIDTH / 2;
+  const cy = PATTERN_HEIGHT / 2;
+  const radius = 170;
+
+  const draw = () => {
+    const elapsed = performance.now() - startedAt;
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, PATTERN_WIDTH, PATTERN_HEIGHT);
+    ctx.strokeStyle = '#6366f1';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, 2 * Math.PI);
+    ctx.stroke();
+    ctx.fillStyle = '#e2e8f0';
+    ctx.font = 'bold 28px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let hour = 1; hour <= 12; hour++) {
+      const angle = hour / 12 * 2 * Math.PI;
+      ctx.fillText(String(hour), cx + Math.sin(angle) * (radius - 32), cy - Math.cos(angle) * (radius - 32));
+    }
+    const angle = (elapsed % PATTERN_LAP_MS) / PATTERN_LAP_MS * 2 * Math.PI;
+    ctx.fillStyle = '#f43f5e';
+    ctx.beginPath();
+    ctx.arc(cx + Math.sin(angle) * (radius - 80), cy - Math.cos(angle) * (radius - 80), 24, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '20px monospace';
+    ctx.fillText(`TEST PATTERN ${(elapsed / 1000).toFixed(1)}s`, cx, PATTERN_HEIGHT - 24);
+  };
+
+  draw();
+  const timer = window.setInterval(draw, 1000 / PATTERN_FPS);
+  const stream = canvas.captureStream(PATTERN_FPS);
+  return {
+    kind: 'pattern',
+    stream,
+    stop: () => {
+      window.clearInterval(timer);
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+};
@@ -0,0 +1,14 @@
+// Keys are stored as KeyboardEvent.code so they follow the physical key, whatever the layout.
+
+// Keys the app or the browser already rely on for navigation
+export const RESERVED_KEY_CODES = ['Escape', 'Tab', 'Enter', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'KeyN', 'KeyP', 'KeyR'];
+
+// "KeyM" -> "M", "Digit5" -> "5", "Space" -> "Space"
+export const keyLabel = (code: string) => code.replace(/^(Key|Digit)/, '').replace(/^Numpad/, 'Numpad ');
+
+// Shortcuts must not fire while the user is typing
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
@@ -0,0 +1,75 @@
+export interface ReconnectOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export interface ReconnectHandlers {
+  // Called before each scheduled attempt (1-based)
+  onRetry: (attempt: number, delayMs: number) => void;
+  // Called once the connection is confirmed healthy after at least one retry
+  onRecovered: () => void;
+  onGiveUp: (lastError: unknown) => void;
+}
+
+const DEFAULT_OPTIONS: ReconnectOptions = {
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  maxAttempts: 8,
+};
+
+// Exponential backoff with +/-20% jitter so many clients don't retry in lockstep.
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: ReconnectOptions) =>
+  Math.round(Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.8 + Math.random() * 0.4));
+
+export class ReconnectSupervisor {
+  private attempt = 0;
+  private timer: number | null = null;
+  private options: ReconnectOptions;
+
+  constructor(
+    private connect: () => Promise<void>,
+    private handlers: ReconnectHandlers,
+    options: Partial<ReconnectOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get isReconnecting() {
+    return this.attempt > 0;
+  }
+
+  // Schedules the next attempt unless one is already pending.
+  schedule(lastError?: unknown) {
+    if (this.timer !== null) return;
+    if (this.attempt >= this.options.maxAttempts) {
+      this.cancel();
+      this.handlers.onGiveUp(lastError);
+      return;
+    }
+    const delay = backoffDelay(this.attempt, this.options);
+    this.attempt += 1;
+    this.handlers.onRetry(this.attempt, delay);
+    this.timer = window.setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.connect();
+      } catch (e) {
+        this.schedule(e);
+      }
+    }, delay);
+  }
+
+  // The server accepted the connection; reset the backoff.
+  markConnected() {
+    const recovered = this.attempt > 0;
+    this.attempt = 0;
+    if (recovered) this.handlers.onRecovered();
+  }
+
+  cancel() {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = null;
+    this.attempt = 0;
+  }
+}
@@ -0,0 +1,91 @@
+import { Type } from '@google/genai';
+import { HazardSeverity, Scene, SceneHazard, SceneObject } from '../types.ts';
+import { t } from '../i18n/index.ts';
+
+const SEVERITIES: HazardSeverity[] = ['high', 'medium', 'low'];
+
+const SCENE_ITEM_PROPERTIES = {
+  name: { type: Type.STRING, description: 'Short name, e.g. "open manhole" or "bus stop sign".' },
+  clock: { type: Type.INTEGER, description: 'Clock-face direction from the camera: 12 is straight ahead, 3 is right, 9 is left.' },
+  distanceMeters: { type: Type.NUMBER, description: 'Estimated distance from the camera in meters.' },
+  text: { type: Type.STRING, description: 'Readable text on it, transcribed exactly. Omit when there is none.' },
+};
+
+export const HAZARD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    ...SCENE_ITEM_PROPERTIES,
+    severity: { type: Type.STRING, enum: SEVERITIES, description: 'high when it needs attention right now.' },
+  },
+  required: ['name', 'severity'],
+};
+
+export const SCENE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    hazards: {
+      type: Type.ARRAY,
+      description: 'Anything that could hurt or trip a person who cannot see it: steps, obstacles, traffic, wet floors, low branches.',
+      items: HAZARD_SCHEMA,
+    },
+    objects: {
+      type: Type.ARRAY,
+      description: 'The main objects that are not hazards, most relevant first.',
+      items: { type: Type.OBJECT, properties: SCENE_ITEM_PROPERTIES, required: ['name'] },
+    },
+  },
+  required: ['hazards', 'objects'],
+};
+
+const parseObject = (raw: any): SceneObject | null => {
+  if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  const item: SceneObject = { name: raw.name.trim() };
+  const clock = Math.round(Number(raw.clock));
+  if (clock >= 1 && clock <= 12) item.clock = clock;
+  if (typeof raw.distanceMeters === 'number' && Number.isFinite(raw.distanceMeters) && raw.distanceMeters >= 0) {
+    item.distanceMeters = raw.distanceMeters;
+  }
+  if (typeof raw.text === 'string' && raw.text.trim()) item.text = raw.text.trim();
+  return item;
+};
+
+export const parseHazard = (raw: any): SceneHazard | null => {
+  const item = parseObject(raw);
+  // An unrated hazard is still worth hearing about
+  return item ? { ...item, severity: SEVERITIES.includes(raw.severity) ? raw.severity : 'medium' } : null;
+};
+
+// Model output is only trusted after this: malformed entries are dropped, and null means
+// there is nothing worth showing, so callers fall back to the plain answer.
+export const parseScene = (raw: unknown): Scene | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as any;
+  const hazards = (Array.isArray(data.hazards) ? data.hazards : []).map(parseHazard).filter(Boolean) as SceneHazard[];
+  const objects = (Array.isArray(data.objects) ? data.objects : []).map(parseObject).filter(Boolean) as SceneObject[];
+  return hazards.length || objects.length ? { hazards, objects } : null;
+};
+
+// Most severe first; among equals, the closest first
+export const sortHazards = (hazards: SceneHazard[]) =>
+  [...hazards].sort((a, b) =>
+    SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+    (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity)
+  );
+
+// Half-meter steps: estimates from a photo aren't more precise than that
+const roundMeters = (meters: number) => Math.max(0.5, Math.round(meters * 2) / 2);
+
+// "Bicycle, at 2 o'clock, about 3 meters away, reads "Exit""
+export const describeSceneObject = (item: SceneObject) =>
+  [
+    item.name,
+    item.clock ? t('scene.clock', { hour: item.clock }) : '',
+    item.distanceMeters !== undefined ? t('scene.distance', { meters: roundMeters(item.distanceMeters) }) : '',
+    item.text ? t('scene.reads', { text: item.text }) : '',
+  ].filter(Boolean).join(', ');
+
+// Read before the answer itself, most severe first. Empty when there are no hazards.
+export const hazardsToSpeech = (scene: Scene) =>
+  sortHazards(scene.hazards)
+    .map(hazard => `${t(`scene.severity.${hazard.severity}`)}: ${describeSceneObject(hazard)}.`)
+    .join(' ');
@@ -0,0 +1,138 @@
+import { vibrate, cuePattern } from './haptics.ts';
+import { SpatialAudioSettings, SpatialRenderer } from './spatialAudio.ts';
+import { getSettings } from '../services/settings.ts';
+
+export type SoundCue = 'connecting' | 'active' | 'error' | 'stop' | 'found' | 'lost' | 'alarm';
+
+// Shared by cues played without a context of their own; browsers cap how many can be open at once
+let cueContext: AudioContext | null = null;
+
+const getCueContext = () => {
+  if (!cueContext || cueContext.state === 'closed') cueContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  return cueContext;
+};
+
+// Sound Cues Utility using Web Audio API. Each cue has a matching vibration pattern.
+export const playSoundCue = (type: SoundCue, existingCtx?: AudioContext | null) => {
+  vibrate(cuePattern(type));
+  const ctx = existingCtx || getCueContext();
+  if (ctx.state === 'suspended') ctx.resume();
+
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+
+  const now = ctx.currentTime;
+
+  switch (type) {
+    case 'connecting':
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(440, now);
+      osc.frequency.exponentialRampToValueAtTime(880, now + 0.5);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.1, now + 0.1);
+      gain.gain.linearRampToValueAtTime(0, now + 0.5);
+      osc.start(now);
+      osc.stop(now + 0.5);
+      break;
+    case 'active':
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(660, now);
+      osc.frequency.setValueAtTime(880, now + 0.1);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.1, now + 0.05);
+      gain.gain.linearRampToValueAtTime(0, now + 0.3);
+      osc.start(now);
+      osc.stop(now + 0.3);
+      break;
+    case 'error':
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(220, now);
+      osc.frequency.linearRampToValueAtTime(110, now + 0.4);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.1, now + 0.1);
+      gain.gain.linearRampToValueAtTime(0, now + 0.4);
+      osc.start(now);
+      osc.stop(now + 0.4);
+      break;
+    case 'stop':
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(440, now);
+      osc.frequency.linearRampToValueAtTime(220, now + 0.2);
+      gain.gain.setValueAtTime(0.1, now);
+      gain.gain.linearRampToValueAtTime(0, now + 0.2);
+      osc.start(now);
+      osc.stop(now + 0.2);
+      break;
+    case 'found':
+      // Rising major arpeggio so "target centered" can't be confused with 'active'
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(523, now);
+      osc.frequency.setValueAtTime(659, now + 0.12);
+      osc.frequency.setValueAtTime(784, now + 0.24);
+      osc.frequency.setValueAtTime(1047, now + 0.36);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.12, now + 0.05);
+      gain.gain.setValueAtTime(0.12, now + 0.45);
+      gain.gain.linearRampToValueAtTime(0, now + 0.6);
+      osc.start(now);
+      osc.stop(now + 0.6);
+      break;
+    case 'lost':
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(330, now);
+      osc.frequency.setValueAtTime(247, now + 0.15);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.06, now + 0.03);
+      gain.gain.setValueAtTime(0.06, now + 0.25);
+      gain.gain.linearRampToValueAtTime(0, now + 0.3);
+      osc.start(now);
+      osc.stop(now + 0.3);
+      break;
+    case 'alarm':
+      // Hi-lo siren, louder and longer than any other cue: it must cut through speech
+      osc.type = 'square';
+      for (let i = 0; i < 6; i++) osc.frequency.setValueAtTime(i % 2 === 0 ? 988 : 659, now + i * 0.15);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.18, now + 0.02);
+      gain.gain.setValueAtTime(0.18, now + 0.85);
+      gain.gain.linearRampToValueAtTime(0, now + 0.9);
+      osc.start(now);
+      osc.stop(now + 0.9);
+      break;
+  }
+};
+
+// Two quick pings from the given clock-face direction. Silent while spatial audio is off:
+// from the centre they would carry no information.
+export const playDirectionalCue = (
+  hour: number,
+  existingCtx?: AudioContext | null,
+  settings: SpatialAudioSettings = getSettings().spatialAudio
+) => {
+  if (!settings.enabled) return;
+  // Directional cues can come every second during a search
+  const ctx = existingCtx || getCueContext();
+  if (ctx.state === 'suspended') ctx.resume();
+
+  const renderer = new SpatialRenderer(ctx, settings);
+  renderer.setDirection(hour, { rampSeconds: 0 });
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(renderer.input);
+  osc.onended = () => renderer.disconnect();
+
+  const now = ctx.currentTime;
+  osc.type = 'sine';
+  osc.frequency.setValueAtTime(1320, now);
+  gain.gain.setValueAtTime(0, now);
+  gain.gain.linearRampToValueAtTime(0.15, now + 0.01);
+  gain.gain.linearRampToValueAtTime(0, now + 0.08);
+  gain.gain.setValueAtTime(0, now + 0.12);
+  gain.gain.linearRampToValueAtTime(0.15, now + 0.13);
+  gain.gain.linearRampToValueAtTime(0, now + 0.2);
+  osc.start(now);
+  osc.stop(now + 0.2);
+};
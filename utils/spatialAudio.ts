@@ -0,0 +1,113 @@
+// Places mono audio around the listener's head according to a clock-face direction:
+// 12 is straight ahead, 3 is the right ear, 9 the left ear.
+
+export type SpatialMode = 'hrtf' | 'stereo';
+
+export interface SpatialAudioSettings {
+  enabled: boolean;
+  // HRTF sounds more natural on headphones; plain left-right panning is easier to tell apart for some
+  mode: SpatialMode;
+  // For headphones worn the other way round
+  swapSides: boolean;
+  // 0.2..1, how far towards the ear 3 and 9 o'clock are placed
+  width: number;
+}
+
+// What a renderer actually does; 'off' passes audio straight through
+export type SpatialKind = 'off' | SpatialMode;
+
+let hrtfSupport: boolean | null = null;
+
+export const isHrtfSupported = (ctx: BaseAudioContext) => {
+  if (hrtfSupport === null) {
+    try {
+      const panner = ctx.createPanner();
+      panner.panningModel = 'HRTF';
+      hrtfSupport = panner.panningModel === 'HRTF';
+    } catch (e) {
+      hrtfSupport = false;
+    }
+  }
+  return hrtfSupport;
+};
+
+// Radians clockwise from straight ahead
+export const clockToAzimuth = (hour: number) => (((Math.round(hour) % 12) + 12) % 12) / 12 * 2 * Math.PI;
+
+interface DirectionTiming {
+  rampSeconds?: number;
+  // AudioContext time to move at, e.g. when the audio that mentions the direction starts playing
+  at?: number;
+}
+
+const setParam = (param: AudioParam, value: number, ctx: BaseAudioContext, { rampSeconds = 0.15, at = 0 }: DirectionTiming) => {
+  const time = Math.max(at, ctx.currentTime);
+  if (rampSeconds > 0) param.setTargetAtTime(value, time, rampSeconds / 3);
+  else param.setValueAtTime(value, time);
+};
+
+// A panning stage between a source and the destination. Connect sources to `input`.
+export class SpatialRenderer {
+  readonly input: GainNode;
+  private panner: PannerNode | StereoPannerNode | null = null;
+  private currentKind: SpatialKind | null = null;
+  private hour: number | null = null;
+
+  constructor(readonly context: BaseAudioContext, private settings: SpatialAudioSettings, private destination: AudioNode = context.destination) {
+    this.input = context.createGain();
+    this.configure(settings);
+  }
+
+  get kind() {
+    return this.currentKind!;
+  }
+
+  // Safe to call mid-playback; the node graph is only rebuilt when the kind of panning changes
+  configure(settings: SpatialAudioSettings) {
+    this.settings = settings;
+    const kind: SpatialKind = !settings.enabled ? 'off' : settings.mode === 'hrtf' && isHrtfSupported(this.context) ? 'hrtf' : 'stereo';
+    if (kind !== this.currentKind) {
+      this.input.disconnect();
+      this.panner?.disconnect();
+      this.panner = kind === 'off' ? null : kind === 'hrtf' ? this.createHrtfPanner() : this.context.createStereoPanner();
+      this.input.connect(this.panner ?? this.destination);
+      this.panner?.connect(this.destination);
+      this.currentKind = kind;
+    }
+    this.setDirection(this.hour, { rampSeconds: 0 });
+  }
+
+  // null puts the sound back in the centre
+  setDirection(hour: number | null, timing: DirectionTiming = {}) {
+    this.hour = hour;
+    const panner = this.panner;
+    if (!panner) return;
+    const azimuth = hour === null ? 0 : clockToAzimuth(hour);
+    const x = Math.sin(azimuth) * this.settings.width * (this.settings.swapSides ? -1 : 1);
+    if (panner instanceof StereoPannerNode) {
+      setParam(panner.pan, x, this.context, timing);
+      return;
+    }
+    const z = -Math.cos(azimuth);
+    if (panner.positionX) {
+      setParam(panner.positionX, x, this.context, timing);
+      setParam(panner.positionZ, z, this.context, timing);
+    } else {
+      panner.setPosition(x, 0, z);
+    }
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    this.panner?.disconnect();
+  }
+
+  // Distance is irrelevant here: only the direction should change, never the loudness
+  private createHrtfPanner() {
+    const panner = this.context.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'linear';
+    panner.rolloffFactor = 0;
+    return panner;
+  }
+}
@@ -0,0 +1,24 @@
+import { getSettings, LANGUAGES, TTS_RATES } from '../services/settings.ts';
+
+interface SpeakOptions {
+  // Cancel anything already queued or speaking first
+  interrupt?: boolean;
+  // Multiplied with the user's speech rate, e.g. to slow down spelling
+  rateScale?: number;
+  // BCP-47 tag when the text isn't in the UI language, e.g. an answer in the language the user spoke
+  lang?: string;
+  onEnd?: () => void;
+}
+
+// Browser text-to-speech in the user's language and at their chosen rate.
+// Settings are read per call so changes apply to the next utterance.
+export const speak = (text: string, { interrupt = false, rateScale = 1, lang, onEnd }: SpeakOptions = {}) => {
+  const settings = getSettings();
+  if (interrupt) window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang || LANGUAGES[settings.language].speechLang;
+  utterance.rate = TTS_RATES[settings.speechRate] * rateScale;
+  if (onEnd) utterance.onend = onEnd;
+  window.speechSynthesis.speak(utterance);
+  return utterance;
+};
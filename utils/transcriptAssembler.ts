@@ -0,0 +1,44 @@
+import { Transcription } from '../types.ts';
+
+// The live API streams transcription in small fragments for both sides of the
+// conversation. This stitches them into whole turns: a user turn ends as soon as
+// the model starts answering, a model turn ends on turnComplete (or interruption).
+export class TranscriptAssembler {
+  private pending: { user: Transcription | null; model: Transcription | null } = { user: null, model: null };
+
+  constructor(private onTurn: (turn: Transcription) => void) {}
+
+  addInput(text: string) {
+    if (!text) return;
+    if (this.pending.model) this.flush('model');
+    this.append('user', text);
+  }
+
+  addOutput(text: string) {
+    if (!text) return;
+    if (this.pending.user) this.flush('user');
+    this.append('model', text);
+  }
+
+  completeTurn() {
+    this.flush('user');
+    this.flush('model');
+  }
+
+  // Text of the model turn currently being spoken, for live captions.
+  get currentModelText() {
+    return this.pending.model?.text ?? '';
+  }
+
+  private append(type: Transcription['type'], text: string) {
+    const turn = this.pending[type];
+    if (turn) turn.text += text;
+    else this.pending[type] = { type, text, timestamp: Date.now() };
+  }
+
+  private flush(type: Transcription['type']) {
+    const turn = this.pending[type];
+    this.pending[type] = null;
+    if (turn && turn.text.trim()) this.onTurn({ ...turn, text: turn.text.trim() });
+  }
+}
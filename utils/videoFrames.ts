@@ -0,0 +1,158 @@
+import { LIVE_INPUT_SAMPLE_RATE, createAudioContext, pcm16ToWav } from './audio.ts';
+
+// Turns a video that is too large to upload into a timestamped sequence of JPEG keyframes
+// (plus its audio track) by decoding it locally with a <video> element and a canvas.
+
+export interface Keyframe {
+  // Seconds from the start of the video
+  time: number;
+  blob: Blob;
+}
+
+export interface KeyframeOptions {
+  // A frame is kept at least this often, even when nothing changes
+  intervalSeconds: number;
+  // Mean per-pixel change (0-1) that counts as a new scene and keeps a frame early
+  sceneThreshold?: number;
+  maxFrames?: number;
+  // Longest side of the kept frames, in pixels
+  maxDimension?: number;
+  quality?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// How many times per interval we look for a scene change
+const SAMPLES_PER_INTERVAL = 4;
+// Scene comparison runs on a tiny thumbnail; fine detail doesn't matter
+const DIFF_WIDTH = 32;
+const DIFF_HEIGHT = 18;
+
+// 0:42, 12:05 or 1:02:09
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const waitFor = (video: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onDone = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Could not decode video')); };
+    const cleanup = () => {
+      video.removeEventListener(event, onDone);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onDone);
+    video.addEventListener('error', onError);
+  });
+
+const seek = (video: HTMLVideoElement, time: number) => {
+  const done = waitFor(video, 'seeked');
+  video.currentTime = time;
+  return done;
+};
+
+const meanDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    sum += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+  }
+  return sum / ((a.length / 4) * 3 * 255);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode frame'))), 'image/jpeg', quality)
+  );
+
+export const extractKeyframes = async (
+  file: Blob,
+  { intervalSeconds, sceneThreshold = 0.12, maxFrames = 60, maxDimension = 768, quality = 0.7, onProgress, signal }: KeyframeOptions
+): Promise<{ duration: number; frames: Keyframe[] }> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = waitFor(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0 || !video.videoWidth) throw new Error('Could not decode video');
+
+    const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d')!;
+    const diffCanvas = document.createElement('canvas');
+    diffCanvas.width = DIFF_WIDTH;
+    diffCanvas.height = DIFF_HEIGHT;
+    const diffCtx = diffCanvas.getContext('2d', { willReadFrequently: true })!;
+
+    // Long videos get a wider interval so the whole length fits in maxFrames
+    const interval = Math.max(intervalSeconds, duration / maxFrames);
+    const step = interval / SAMPLES_PER_INTERVAL;
+    const frames: Keyframe[] = [];
+    let previous: Uint8ClampedArray | null = null;
+    let lastKept = -Infinity;
+
+    for (let time = 0; time < duration && frames.length < maxFrames; time += step) {
+      if (signal?.aborted) throw new Error('Keyframe extraction cancelled');
+      await seek(video, time);
+      diffCtx.drawImage(video, 0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+      const pixels = diffCtx.getImageData(0, 0, DIFF_WIDTH, DIFF_HEIGHT).data;
+      const isSceneChange = previous !== null && meanDifference(previous, pixels) >= sceneThreshold;
+      previous = pixels;
+      // Scene changes may only spend the frame budget in proportion to how far we are,
+      // so a busy opening can't starve the rest of the video
+      const withinBudget = frames.length < maxFrames * (time / duration) + SAMPLES_PER_INTERVAL;
+      if (time - lastKept >= interval || (isSceneChange && withinBudget)) {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        frames.push({ time, blob: await canvasToBlob(canvas, quality) });
+        lastKept = time;
+      }
+      onProgress?.(Math.min(time / duration, 1));
+    }
+    return { duration, frames };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm16ToWav(new Uint8Array(pcm.buffer), sampleRate);
+};
+
+// The audio track as 16 kHz mono WAV, or null when the browser can't decode it or there is none.
+export const extractAudioTrack = async (file: Blob): Promise<Blob | null> => {
+  const ctx = createAudioContext();
+  try {
+    const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+    const length = Math.ceil(decoded.duration * LIVE_INPUT_SAMPLE_RATE);
+    if (!length) return null;
+    // Rendering through a mono offline context downmixes and resamples in one pass
+    const offline = new OfflineAudioContext(1, length, LIVE_INPUT_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return encodeWav(rendered.getChannelData(0), LIVE_INPUT_SAMPLE_RATE);
+  } catch (e) {
+    return null;
+  } finally {
+    ctx.close().catch(() => {});
+  }
+};
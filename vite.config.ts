@@ -8,11 +8,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The token broker, which holds the API key (broker/server.mjs)
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.BROKER_PORT || 8788}`,
+            rewrite: (path) => path.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
+      // Only the broker's address reaches the bundle; the API key stays with the broker
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.BROKER_URL': JSON.stringify(env.BROKER_URL || '')
       },
       resolve: {
         alias: {